@@ -1,8 +1,13 @@
 /**
  * Caching Layer
- * In-memory cache with TTL for Home Assistant entities and services
+ * In-memory cache with TTL for Home Assistant entities and services,
+ * persisted to an on-disk snapshot for offline use
  */
 
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { EventEmitter } from 'events';
 import { getLogger } from './utils/logger';
 
@@ -25,12 +30,33 @@ export interface CacheStats {
   misses: number;
   size: number;
   evictions: number;
+  snapshotHits: number; // values served from the snapshot after a failed fetch
 }
 
+/**
+ * On-disk snapshot of cached values
+ */
+interface CacheSnapshot {
+  version: number;
+  savedAt: string;
+  entries: Record<string, any>;
+}
+
+/**
+ * Snapshot file format version
+ */
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * Delay between a change to a persisted key and writing the snapshot
+ */
+const SNAPSHOT_SAVE_DELAY = 30000; // 30 seconds
+
 /**
  * Cache configuration
  */
 export interface CacheOptions {
+  enabled?: boolean; // false: getOrFetch always fetches fresh data
   defaultTTL?: number; // in seconds
   maxSize?: number;
   checkPeriod?: number; // cleanup interval in ms
@@ -41,6 +67,7 @@ export interface CacheOptions {
  */
 export class Cache extends EventEmitter {
   private cache: Map<string, CacheEntry<any>> = new Map();
+  private enabled: boolean;
   private defaultTTL: number;
   private maxSize: number;
   private checkPeriod: number;
@@ -49,11 +76,18 @@ export class Cache extends EventEmitter {
     misses: 0,
     size: 0,
     evictions: 0,
+    snapshotHits: 0,
   };
   private cleanupTimer: NodeJS.Timeout | null = null;
+  private snapshotPath: string | null = null;
+  private snapshot: Map<string, any> = new Map();
+  private snapshotTime: Date | null = null;
+  private servedFromSnapshot: Set<string> = new Set();
+  private snapshotTimer: NodeJS.Timeout | null = null;
 
   constructor(options: CacheOptions = {}) {
     super();
+    this.enabled = options.enabled !== false;
     this.defaultTTL = options.defaultTTL || 300; // 5 minutes
     this.maxSize = options.maxSize || 1000;
     this.checkPeriod = options.checkPeriod || 60000; // 1 minute
@@ -62,6 +96,39 @@ export class Cache extends EventEmitter {
     this.startCleanup();
 
     logger.debug('Cache initialized', {
+      enabled: this.enabled,
+      defaultTTL: this.defaultTTL,
+      maxSize: this.maxSize,
+    });
+  }
+
+  /**
+   * Apply new options to a running cache
+   * (entries above a smaller maximum size are evicted)
+   */
+  configure(options: CacheOptions): void {
+    if (options.enabled !== undefined) {
+      this.enabled = options.enabled;
+    }
+
+    if (options.defaultTTL) {
+      this.defaultTTL = options.defaultTTL;
+    }
+
+    if (options.maxSize) {
+      this.maxSize = options.maxSize;
+      while (this.cache.size > this.maxSize) {
+        this.evictOldest();
+      }
+    }
+
+    if (options.checkPeriod && options.checkPeriod !== this.checkPeriod) {
+      this.checkPeriod = options.checkPeriod;
+      this.startCleanup();
+    }
+
+    logger.debug('Cache configured', {
+      enabled: this.enabled,
       defaultTTL: this.defaultTTL,
       maxSize: this.maxSize,
     });
@@ -98,8 +165,10 @@ export class Cache extends EventEmitter {
 
   /**
    * Set a value in cache
+   * @param persist - Whether the new value should be written to the snapshot
+   *   (false for updates that do not change what is worth saving)
    */
-  set<T>(key: string, value: T, ttl?: number): void {
+  set<T>(key: string, value: T, ttl?: number, persist: boolean = true): void {
     // Enforce max size
     if (this.cache.size >= this.maxSize && !this.cache.has(key)) {
       this.evictOldest();
@@ -117,6 +186,12 @@ export class Cache extends EventEmitter {
     this.stats.size = this.cache.size;
     this.emit('cache:set', key);
     logger.debug(`Cache set: ${key} (TTL: ${ttlSeconds}s)`);
+
+    // Fresh data replaces the snapshot value
+    this.servedFromSnapshot.delete(key);
+    if (this.snapshotPath && persist && PERSISTED_KEYS.includes(key)) {
+      this.scheduleSnapshotSave();
+    }
   }
 
   /**
@@ -176,6 +251,8 @@ export class Cache extends EventEmitter {
 
   /**
    * Get or fetch pattern - get from cache or fetch and cache
+   * (a disabled cache always fetches, but still keeps the latest value for
+   * synchronous lookups and the snapshot)
    */
   async getOrFetch<T>(
     key: string,
@@ -183,7 +260,7 @@ export class Cache extends EventEmitter {
     ttl?: number
   ): Promise<T> {
     // Try to get from cache
-    const cached = this.get<T>(key);
+    const cached = this.enabled ? this.get<T>(key) : null;
     if (cached !== null) {
       return cached;
     }
@@ -194,11 +271,146 @@ export class Cache extends EventEmitter {
       this.set(key, value, ttl);
       return value;
     } catch (error) {
+      // Offline: fall back to the last persisted value
+      if (this.snapshot.has(key)) {
+        this.stats.snapshotHits++;
+        this.servedFromSnapshot.add(key);
+        this.emit('cache:snapshot', key);
+        logger.debug(`Serving ${key} from snapshot: ${error}`);
+        return this.snapshot.get(key) as T;
+      }
+
       logger.error(`Failed to fetch for cache key: ${key}`, error);
       throw error;
     }
   }
 
+  /**
+   * Load the snapshot file and keep it updated with persisted keys
+   */
+  attachSnapshot(filePath: string): void {
+    this.snapshotPath = filePath;
+    this.snapshot.clear();
+    this.snapshotTime = null;
+    this.servedFromSnapshot.clear();
+
+    // Values fetched before the snapshot was enabled are saved as well
+    if (PERSISTED_KEYS.some((key) => this.cache.has(key))) {
+      this.scheduleSnapshotSave();
+    }
+
+    try {
+      const data: CacheSnapshot = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      if (data.version !== SNAPSHOT_VERSION) {
+        logger.warn(`Ignoring snapshot with unsupported version ${data.version}: ${filePath}`);
+        return;
+      }
+
+      for (const [key, value] of Object.entries(data.entries || {})) {
+        this.snapshot.set(key, value);
+      }
+      this.snapshotTime = new Date(data.savedAt);
+      logger.info(`Loaded snapshot from ${data.savedAt}: ${this.snapshot.size} entries`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Failed to load snapshot: ${filePath}`, error);
+      }
+    }
+  }
+
+  /**
+   * Write the snapshot one last time and stop persisting
+   */
+  async detachSnapshot(): Promise<void> {
+    const saving = this.saveSnapshot();
+    this.snapshotPath = null;
+    this.snapshot.clear();
+    this.snapshotTime = null;
+    this.servedFromSnapshot.clear();
+    await saving;
+  }
+
+  /**
+   * Write persisted keys (fresh values, else snapshot values) to the snapshot file
+   */
+  async saveSnapshot(): Promise<void> {
+    if (this.snapshotTimer) {
+      clearTimeout(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+
+    const filePath = this.snapshotPath;
+    if (!filePath) {
+      return;
+    }
+
+    // Serialize right away; the cache may change while the file is written
+    const entries: Record<string, any> = {};
+    for (const key of PERSISTED_KEYS) {
+      const entry = this.cache.get(key);
+      if (entry && !this.servedFromSnapshot.has(key)) {
+        entries[key] = entry.value;
+      } else if (this.snapshot.has(key)) {
+        entries[key] = this.snapshot.get(key);
+      }
+    }
+    if (Object.keys(entries).length === 0) {
+      return;
+    }
+
+    const snapshot: CacheSnapshot = {
+      version: SNAPSHOT_VERSION,
+      savedAt: new Date().toISOString(),
+      entries,
+    };
+    const data = JSON.stringify(snapshot);
+
+    try {
+      // Write to a temporary file first so a crash never leaves half a snapshot;
+      // states hold secrets such as camera access tokens, so only the user may read it
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tmpPath, data, { encoding: 'utf8', mode: 0o600 });
+      await fs.promises.rename(tmpPath, filePath);
+      logger.debug(`Snapshot saved: ${Object.keys(entries).length} entries`);
+    } catch (error) {
+      logger.warn(`Failed to save snapshot: ${filePath}`, error);
+    }
+  }
+
+  /**
+   * Check whether values are persisted to a snapshot file
+   */
+  hasSnapshot(): boolean {
+    return this.snapshotPath !== null;
+  }
+
+  /**
+   * Get the snapshot time if the value of a key currently comes from the snapshot
+   */
+  getSnapshotTime(key: string): Date | null {
+    return this.servedFromSnapshot.has(key) ? this.snapshotTime : null;
+  }
+
+  /**
+   * Save the snapshot after a short delay, batching frequent updates
+   */
+  private scheduleSnapshotSave(): void {
+    if (this.snapshotTimer) {
+      return;
+    }
+
+    this.snapshotTimer = setTimeout(() => {
+      this.snapshotTimer = null;
+      this.saveSnapshot();
+    }, SNAPSHOT_SAVE_DELAY);
+
+    // Don't prevent process from exiting
+    if (this.snapshotTimer.unref) {
+      this.snapshotTimer.unref();
+    }
+  }
+
   /**
    * Get cache statistics
    */
@@ -329,6 +541,10 @@ export class Cache extends EventEmitter {
    */
   destroy(): void {
     this.stopCleanup();
+    if (this.snapshotTimer) {
+      clearTimeout(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
     this.cache.clear();
     this.removeAllListeners();
     logger.info('Cache destroyed');
@@ -360,4 +576,32 @@ export const CacheKeys = {
   ENTITY_REGISTRY: 'ha:entity_registry',
   AREAS: 'ha:areas',
   DEVICES: 'ha:devices',
+  FLOORS: 'ha:floors',
+  LABELS: 'ha:labels',
+  TEMPLATE_PREVIEW: (uri: string, version: number, template: string) =>
+    `ha:template:${uri}:${version}:${template}`,
 };
+
+/**
+ * Keys written to the on-disk snapshot
+ */
+const PERSISTED_KEYS: string[] = [
+  CacheKeys.ENTITIES,
+  CacheKeys.SERVICES,
+  CacheKeys.CONFIG,
+  CacheKeys.ENTITY_REGISTRY,
+  CacheKeys.AREAS,
+  CacheKeys.DEVICES,
+  CacheKeys.FLOORS,
+  CacheKeys.LABELS,
+];
+
+/**
+ * Get the snapshot file of a Home Assistant instance
+ * ($XDG_CACHE_HOME/homeassistant-lsp/<hash of the host>.json)
+ */
+export function getSnapshotPath(host: string): string {
+  const cacheHome = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+  const hash = crypto.createHash('sha256').update(host).digest('hex').substring(0, 16);
+  return path.join(cacheHome, 'homeassistant-lsp', `${hash}.json`);
+}
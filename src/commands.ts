@@ -4,8 +4,10 @@
  */
 
 import { HomeAssistantClient } from './ha-client';
-import { Cache } from './cache';
+import { Cache, CacheKeys } from './cache';
+import { EntityRegistryEntry } from './types/homeassistant';
 import { getLogger } from './utils/logger';
+import { isEntityId } from './utils/entities';
 
 const logger = getLogger('Commands');
 
@@ -65,9 +67,33 @@ export class CommandHandler {
         case 'homeassistant.listAreas':
           return await this.listAreas();
 
+        case 'homeassistant.listDevices':
+          return await this.listDevices(args);
+
+        case 'homeassistant.listFloors':
+          return await this.listFloors();
+
+        case 'homeassistant.listLabels':
+          return await this.listLabels();
+
         case 'homeassistant.callService':
           return await this.callService(args);
 
+        case 'homeassistant.triggerAutomation':
+          return await this.callEntityService(args, 'automation', 'trigger');
+
+        case 'homeassistant.toggleAutomation':
+          return await this.callEntityService(args, 'automation', 'toggle');
+
+        case 'homeassistant.runScript':
+          return await this.callEntityService(args, 'script', 'turn_on');
+
+        case 'homeassistant.renameEntity':
+          return await this.renameEntity(args);
+
+        case 'homeassistant.renderTemplate':
+          return await this.renderTemplate(args);
+
         default:
           return {
             success: false,
@@ -350,12 +376,33 @@ export class CommandHandler {
         }
       }
 
-      // Enhance entities with domain and name fields
-      const enhancedEntities = filteredEntities.map((entity) => ({
-        ...entity,
-        domain: entity.entity_id.split('.')[0],
-        name: entity.attributes?.friendly_name || entity.entity_id,
-      }));
+      // Registry data is optional, entities are still listed without it
+      const registry = new Map<string, EntityRegistryEntry>();
+      try {
+        const entries = await this.cache.getOrFetch(
+          CacheKeys.ENTITY_REGISTRY,
+          () => this.haClient.getEntityRegistry(),
+          600 // 10 minutes TTL
+        );
+        for (const entry of entries) {
+          registry.set(entry.entity_id, entry);
+        }
+      } catch (error) {
+        logger.warn(`Could not fetch entity registry: ${error}`);
+      }
+
+      // Enhance entities with domain, name and registry fields
+      const enhancedEntities = filteredEntities.map((entity) => {
+        const entry = registry.get(entity.entity_id);
+        return {
+          ...entity,
+          domain: entity.entity_id.split('.')[0],
+          name: entity.attributes?.friendly_name || entity.entity_id,
+          area_id: entry?.area_id ?? null,
+          device_id: entry?.device_id ?? null,
+          labels: entry?.labels ?? [],
+        };
+      });
 
       return {
         success: true,
@@ -406,13 +453,14 @@ export class CommandHandler {
     }
 
     try {
-      // Areas are fetched from the area registry
-      // For now, we'll return an empty array as the WebSocket client
-      // doesn't have an areas method yet. This can be added later.
-      logger.warn('listAreas not yet fully implemented - area registry API needed');
+      const areas = await this.cache.getOrFetch(
+        CacheKeys.AREAS,
+        () => this.haClient.getAreaRegistry(),
+        600 // 10 minutes TTL
+      );
       return {
         success: true,
-        data: [],
+        data: areas,
       };
     } catch (error) {
       return {
@@ -422,6 +470,116 @@ export class CommandHandler {
     }
   }
 
+  /**
+   * List all devices
+   */
+  private async listDevices(args?: any[]): Promise<CommandResult> {
+    if (!this.haClient.isConnected()) {
+      return {
+        success: false,
+        error: 'Not connected to Home Assistant',
+      };
+    }
+
+    try {
+      const devices = await this.cache.getOrFetch(
+        CacheKeys.DEVICES,
+        () => this.haClient.getDeviceRegistry(),
+        600 // 10 minutes TTL
+      );
+
+      // Optional filtering
+      let filteredDevices = devices;
+
+      if (args && args.length > 0 && args[0]) {
+        const filters = args[0];
+
+        // Filter by area
+        if (filters.area_id) {
+          filteredDevices = filteredDevices.filter((d) => d.area_id === filters.area_id);
+        }
+
+        // Filter by search term (name, user-defined name, manufacturer or model)
+        if (filters.search) {
+          const searchLower = filters.search.toLowerCase();
+          filteredDevices = filteredDevices.filter((d) =>
+            [d.name_by_user, d.name, d.manufacturer, d.model].some(
+              (value) => value && value.toLowerCase().includes(searchLower)
+            )
+          );
+        }
+      }
+
+      return {
+        success: true,
+        data: filteredDevices,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list devices',
+      };
+    }
+  }
+
+  /**
+   * List all floors
+   */
+  private async listFloors(): Promise<CommandResult> {
+    if (!this.haClient.isConnected()) {
+      return {
+        success: false,
+        error: 'Not connected to Home Assistant',
+      };
+    }
+
+    try {
+      const floors = await this.cache.getOrFetch(
+        CacheKeys.FLOORS,
+        () => this.haClient.getFloorRegistry(),
+        600 // 10 minutes TTL
+      );
+      return {
+        success: true,
+        data: floors,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list floors',
+      };
+    }
+  }
+
+  /**
+   * List all labels
+   */
+  private async listLabels(): Promise<CommandResult> {
+    if (!this.haClient.isConnected()) {
+      return {
+        success: false,
+        error: 'Not connected to Home Assistant',
+      };
+    }
+
+    try {
+      const labels = await this.cache.getOrFetch(
+        CacheKeys.LABELS,
+        () => this.haClient.getLabelRegistry(),
+        600 // 10 minutes TTL
+      );
+      return {
+        success: true,
+        data: labels,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list labels',
+      };
+    }
+  }
+
   /**
    * Call a service
    */
@@ -440,21 +598,225 @@ export class CommandHandler {
       };
     }
 
+    // Arguments: [service, serviceData?, target?, returnResponse?]
     const service = args[0];
-    // const serviceData = args.length > 1 ? args[1] : {}; // Will be used when implemented
+    const serviceData = args.length > 1 ? args[1] : undefined;
+    const target = args.length > 2 ? args[2] : undefined;
+    const returnResponse = args.length > 3 ? Boolean(args[3]) : false;
 
-    if (typeof service !== 'string' || !service.includes('.')) {
+    if (typeof service !== 'string' || !/^[^.\s]+\.[^.\s]+$/.test(service)) {
       return {
         success: false,
         error: 'Invalid service format (expected: domain.service)',
       };
     }
 
-    // Note: Service calling would require additional WebSocket API implementation
-    // serviceData would be used when this is implemented
-    return {
-      success: false,
-      error: 'Service calling not yet implemented',
-    };
+    if (
+      serviceData !== undefined &&
+      serviceData !== null &&
+      (typeof serviceData !== 'object' || Array.isArray(serviceData))
+    ) {
+      return {
+        success: false,
+        error: 'Invalid service data: must be an object',
+      };
+    }
+
+    if (
+      target !== undefined &&
+      target !== null &&
+      (typeof target !== 'object' || Array.isArray(target))
+    ) {
+      return {
+        success: false,
+        error: 'Invalid target: must be an object',
+      };
+    }
+
+    const [domain, serviceName] = service.split('.');
+
+    try {
+      const result = await this.haClient.callService(
+        domain,
+        serviceName,
+        serviceData || undefined,
+        target || undefined,
+        returnResponse
+      );
+
+      logger.info(`Service called: ${service}`, { context: result?.context?.id });
+
+      return {
+        success: true,
+        data: {
+          service,
+          context: result?.context,
+          response: result?.response,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to call service',
+      };
+    }
+  }
+
+  /**
+   * Call a service of an automation or script entity
+   * (automation.trigger, automation.toggle, script.turn_on)
+   */
+  private async callEntityService(
+    args: any[] | undefined,
+    domain: string,
+    service: string
+  ): Promise<CommandResult> {
+    if (!this.haClient.isConnected()) {
+      return {
+        success: false,
+        error: 'Not connected to Home Assistant',
+      };
+    }
+
+    if (!args || args.length < 1) {
+      return {
+        success: false,
+        error: `Missing entity_id parameter (expected: ${domain}.object_id)`,
+      };
+    }
+
+    const entityId = args[0];
+    if (
+      typeof entityId !== 'string' ||
+      !isEntityId(entityId) ||
+      !entityId.startsWith(`${domain}.`)
+    ) {
+      return {
+        success: false,
+        error: `Invalid entity ID (expected: ${domain}.object_id)`,
+      };
+    }
+
+    try {
+      const result = await this.haClient.callService(domain, service, undefined, {
+        entity_id: entityId,
+      });
+
+      logger.info(`Service called: ${domain}.${service} for ${entityId}`, {
+        context: result?.context?.id,
+      });
+
+      return {
+        success: true,
+        data: {
+          service: `${domain}.${service}`,
+          entityId,
+          context: result?.context,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to call service',
+      };
+    }
+  }
+
+  /**
+   * Rename an entity in the Home Assistant entity registry
+   */
+  private async renameEntity(args?: any[]): Promise<CommandResult> {
+    if (!this.haClient.isConnected()) {
+      return {
+        success: false,
+        error: 'Not connected to Home Assistant',
+      };
+    }
+
+    if (!args || args.length < 2) {
+      return {
+        success: false,
+        error: 'Missing parameters (expected: entity_id, new_entity_id)',
+      };
+    }
+
+    const [entityId, newEntityId] = args;
+
+    if (!isEntityId(entityId) || !isEntityId(newEntityId)) {
+      return {
+        success: false,
+        error: 'Invalid entity ID format (expected: domain.object_id)',
+      };
+    }
+
+    if (entityId.split('.')[0] !== newEntityId.split('.')[0]) {
+      return {
+        success: false,
+        error: 'Entity ID must stay in the same domain',
+      };
+    }
+
+    try {
+      const entry = await this.haClient.updateEntityRegistry(entityId, {
+        new_entity_id: newEntityId,
+      });
+
+      // Entity lists now hold the old ID
+      this.cache.invalidate(CacheKeys.ENTITIES);
+      this.cache.invalidate(CacheKeys.ENTITY_REGISTRY);
+
+      return {
+        success: true,
+        data: entry,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to rename entity',
+      };
+    }
+  }
+
+  /**
+   * Render a template with its current result and listeners
+   */
+  private async renderTemplate(args?: any[]): Promise<CommandResult> {
+    if (!this.haClient.isConnected()) {
+      return {
+        success: false,
+        error: 'Not connected to Home Assistant',
+      };
+    }
+
+    if (!args || args.length < 1 || typeof args[0] !== 'string') {
+      return {
+        success: false,
+        error: 'Missing template parameter',
+      };
+    }
+
+    // Arguments: [template, variables?]
+    const [template, variables] = args;
+
+    if (variables !== undefined && variables !== null && typeof variables !== 'object') {
+      return {
+        success: false,
+        error: 'Invalid variables: must be an object',
+      };
+    }
+
+    try {
+      const result = await this.haClient.renderTemplate(template, variables || undefined);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to render template',
+      };
+    }
   }
 }
@@ -0,0 +1,265 @@
+/**
+ * Live Entity Store
+ * Keeps the cached entity list up to date through subscribe_entities
+ */
+
+import { EventEmitter } from 'events';
+import { HomeAssistantClient, ConnectionState } from './ha-client';
+import { Cache, CacheKeys } from './cache';
+import {
+  Entity,
+  CompressedState,
+  CompressedStateDiff,
+  EntitiesEvent,
+} from './types/homeassistant';
+import { getLogger } from './utils/logger';
+
+const logger = getLogger('EntityStore');
+
+/**
+ * TTL for the live entity list. Every update refreshes it; once the
+ * subscription stops, the regular get_states fetch takes over after expiry.
+ */
+const LIVE_TTL = 3600; // 1 hour
+
+/**
+ * TTL applied to the last known entity list when the subscription is lost
+ */
+const FALLBACK_TTL = 300; // 5 minutes
+
+/**
+ * Live entity store backed by the subscribe_entities API
+ */
+export class EntityStore extends EventEmitter {
+  private haClient: HomeAssistantClient;
+  private cache: Cache;
+  private entities: Map<string, Entity> = new Map();
+  private subscriptionId: number | null = null;
+  private live: boolean = false;
+  private stateListener: (state: ConnectionState) => void;
+
+  constructor(haClient: HomeAssistantClient, cache: Cache) {
+    super();
+    this.haClient = haClient;
+    this.cache = cache;
+
+    // Follow the connection so the subscription survives reconnects
+    this.stateListener = (state: ConnectionState) => {
+      if (state === ConnectionState.CONNECTED) {
+        this.subscribe();
+      } else if (state === ConnectionState.DISCONNECTED) {
+        this.handleDisconnect();
+      }
+    };
+  }
+
+  /**
+   * Start tracking entity states
+   */
+  start(): void {
+    this.haClient.on('state', this.stateListener);
+    if (this.haClient.isConnected()) {
+      this.subscribe();
+    }
+  }
+
+  /**
+   * Stop tracking entity states
+   */
+  stop(): void {
+    this.haClient.off('state', this.stateListener);
+
+    // Also drops the subscription while disconnected, so it is not re-sent
+    if (this.subscriptionId !== null) {
+      try {
+        this.haClient.unsubscribeEvents(this.subscriptionId);
+      } catch (error) {
+        logger.debug('Failed to unsubscribe from entity updates', error);
+      }
+    }
+
+    this.subscriptionId = null;
+    this.live = false;
+    this.entities.clear();
+  }
+
+  /**
+   * Check if the store is receiving live updates
+   */
+  isLive(): boolean {
+    return this.live;
+  }
+
+  /**
+   * Get all known entities
+   */
+  getEntities(): Entity[] {
+    return Array.from(this.entities.values());
+  }
+
+  /**
+   * Get a single entity
+   */
+  getEntity(entityId: string): Entity | null {
+    return this.entities.get(entityId) || null;
+  }
+
+  /**
+   * Subscribe to entity updates
+   */
+  private subscribe(): void {
+    // The client re-sends active subscriptions itself after a reconnect
+    if (this.subscriptionId !== null && this.haClient.hasSubscription(this.subscriptionId)) {
+      return;
+    }
+
+    try {
+      this.subscriptionId = this.haClient.subscribeEntities((event) =>
+        this.handleEvent(event)
+      );
+      logger.debug(`Subscribed to entity updates (id: ${this.subscriptionId})`);
+    } catch (error) {
+      logger.warn('Failed to subscribe to entity updates, using periodic fetch', error);
+      this.subscriptionId = null;
+    }
+  }
+
+  /**
+   * Handle connection loss: keep the last known states on the regular TTL
+   * (the first event after the reconnect is a full snapshot again)
+   */
+  private handleDisconnect(): void {
+    if (!this.live) {
+      return;
+    }
+
+    this.live = false;
+    this.cache.touch(CacheKeys.ENTITIES, FALLBACK_TTL);
+    logger.info('Entity subscription lost, falling back to periodic fetch');
+  }
+
+  /**
+   * Apply a subscribe_entities event
+   */
+  private handleEvent(event: EntitiesEvent): void {
+    const changed: string[] = [];
+    let membershipChanged = false;
+
+    // The first event of a subscription is a full snapshot
+    if (!this.live) {
+      this.entities.clear();
+      membershipChanged = true;
+    }
+
+    if (event.a) {
+      for (const [entityId, state] of Object.entries(event.a)) {
+        if (!this.entities.has(entityId)) {
+          membershipChanged = true;
+        }
+        this.entities.set(entityId, this.decompress(entityId, state));
+        changed.push(entityId);
+      }
+    }
+
+    if (event.c) {
+      for (const [entityId, diff] of Object.entries(event.c)) {
+        const entity = this.entities.get(entityId);
+        if (!entity) {
+          continue;
+        }
+        this.entities.set(entityId, this.applyDiff(entity, diff));
+        changed.push(entityId);
+      }
+    }
+
+    if (event.r) {
+      for (const entityId of event.r) {
+        if (this.entities.delete(entityId)) {
+          changed.push(entityId);
+          membershipChanged = true;
+        }
+      }
+    }
+
+    if (!this.live) {
+      this.live = true;
+      logger.info(`Live entity updates active (${this.entities.size} entities)`);
+    }
+
+    // State changes alone are not worth rewriting the snapshot for
+    this.cache.set(CacheKeys.ENTITIES, this.getEntities(), LIVE_TTL, membershipChanged);
+
+    if (changed.length > 0) {
+      this.emit('entities:changed', changed);
+    }
+  }
+
+  /**
+   * Convert a compressed state into an entity
+   */
+  private decompress(entityId: string, state: CompressedState): Entity {
+    const lastChanged = this.toISOString(state.lc);
+    return {
+      entity_id: entityId,
+      state: state.s,
+      attributes: state.a || {},
+      last_changed: lastChanged,
+      last_updated: state.lu !== undefined ? this.toISOString(state.lu) : lastChanged,
+      context: this.toContext(state.c),
+    };
+  }
+
+  /**
+   * Apply a compressed state diff to an entity
+   */
+  private applyDiff(entity: Entity, diff: CompressedStateDiff): Entity {
+    const updated: Entity = {
+      ...entity,
+      attributes: { ...entity.attributes },
+    };
+
+    const additions = diff['+'];
+    if (additions) {
+      if (additions.s !== undefined) {
+        updated.state = additions.s;
+      }
+      if (additions.c !== undefined) {
+        updated.context = this.toContext(additions.c);
+      }
+      if (additions.lc !== undefined) {
+        updated.last_changed = updated.last_updated = this.toISOString(additions.lc);
+      } else if (additions.lu !== undefined) {
+        updated.last_updated = this.toISOString(additions.lu);
+      }
+      if (additions.a) {
+        Object.assign(updated.attributes, additions.a);
+      }
+    }
+
+    const removals = diff['-'];
+    if (removals?.a) {
+      for (const attribute of removals.a) {
+        delete updated.attributes[attribute];
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Convert a compressed context into a full context
+   */
+  private toContext(context: CompressedState['c']): Entity['context'] {
+    if (typeof context === 'string') {
+      return { id: context, parent_id: null, user_id: null };
+    }
+    return context || { id: '', parent_id: null, user_id: null };
+  }
+
+  /**
+   * Convert a unix timestamp (seconds) into an ISO string
+   */
+  private toISOString(timestamp: number): string {
+    return new Date(timestamp * 1000).toISOString();
+  }
+}
@@ -11,6 +11,15 @@ import {
   Config,
   Dashboard,
   DashboardConfig,
+  ServiceTarget,
+  ServiceCallResult,
+  AreaRegistryEntry,
+  DeviceRegistryEntry,
+  EntityRegistryEntry,
+  FloorRegistryEntry,
+  LabelRegistryEntry,
+  EntitiesEvent,
+  RenderTemplateResult,
 } from './types/homeassistant';
 
 /**
@@ -42,6 +51,30 @@ interface PendingRequest {
   timeout: NodeJS.Timeout;
 }
 
+/**
+ * Client options
+ */
+export interface ClientOptions {
+  requestTimeout?: number; // in milliseconds
+  pingInterval?: number; // in milliseconds
+  pongTimeout?: number; // in milliseconds
+}
+
+/**
+ * Active subscription, re-sent after every reconnect
+ */
+interface Subscription {
+  message: Omit<WSMessage, 'id'>;
+  messageId: number; // id of the subscription on the current connection
+  callback: (data: any) => void;
+  onError?: (error: Error) => void; // called instead of emitting 'error' when the subscription fails
+}
+
+/**
+ * Delay between reconnect attempts once maxReconnectAttempts is reached
+ */
+const SLOW_RECONNECT_DELAY = 60000; // 1 minute
+
 /**
  * Home Assistant WebSocket Client
  */
@@ -56,7 +89,29 @@ export class HomeAssistantClient extends EventEmitter {
   private maxReconnectAttempts: number = 10;
   private reconnectDelay: number = 1000; // Start with 1 second
   private requestTimeout: number = 30000; // 30 seconds
-  private subscriptions: Map<number, (data: any) => void> = new Map();
+  private pingInterval: number = 30000; // 30 seconds
+  private pongTimeout: number = 10000; // 10 seconds
+  // Subscriptions keep the id returned to the caller; after a reconnect they
+  // are sent again under new message ids
+  private subscriptions: Map<number, Subscription> = new Map();
+  private subscriptionIds: Map<number, number> = new Map(); // message id -> subscription id
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private pingTimer: NodeJS.Timeout | null = null;
+  // Set when Home Assistant rejects the token; no reconnects until connect() is called again
+  private authRejected: boolean = false;
+
+  constructor(options: ClientOptions = {}) {
+    super();
+    if (options.requestTimeout) {
+      this.requestTimeout = options.requestTimeout;
+    }
+    if (options.pingInterval) {
+      this.pingInterval = options.pingInterval;
+    }
+    if (options.pongTimeout) {
+      this.pongTimeout = options.pongTimeout;
+    }
+  }
 
   /**
    * Connect to Home Assistant
@@ -65,41 +120,60 @@ export class HomeAssistantClient extends EventEmitter {
     this.url = url;
     this.token = token;
     this.state = ConnectionState.CONNECTING;
+    this.authRejected = false;
 
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WebSocket(url);
+        const ws = new WebSocket(url);
+        this.ws = ws;
+
+        // Authentication listeners belong to this attempt only
+        const onAuthenticated = () => {
+          removeAuthListeners();
+          this.state = ConnectionState.CONNECTED;
+          this.reconnectAttempts = 0;
+          this.resubscribe();
+          this.startKeepAlive(ws);
+          this.emit('state', ConnectionState.CONNECTED);
+          resolve();
+        };
+        const onAuthFailed = (error: string) => {
+          removeAuthListeners();
+          this.state = ConnectionState.ERROR;
+          reject(new Error(error));
+        };
+        const removeAuthListeners = () => {
+          this.off('authenticated', onAuthenticated);
+          this.off('auth_failed', onAuthFailed);
+        };
 
-        this.ws.on('open', () => {
+        ws.on('open', () => {
           this.emit('state', ConnectionState.CONNECTING);
         });
 
-        this.ws.on('message', (data: WebSocket.Data) => {
+        ws.on('message', (data: WebSocket.Data) => {
           this.handleMessage(data.toString());
         });
 
-        this.ws.on('error', (error) => {
+        ws.on('error', (error) => {
+          removeAuthListeners();
           this.emit('error', error);
           this.state = ConnectionState.ERROR;
           reject(error);
         });
 
-        this.ws.on('close', () => {
-          this.handleClose();
+        // Sockets closed by disconnect() are no longer current and do not reconnect
+        ws.on('close', () => {
+          removeAuthListeners();
+          reject(new Error('Connection closed'));
+          if (this.ws === ws) {
+            this.handleClose();
+          }
         });
 
         // Wait for authentication to complete
-        this.once('authenticated', () => {
-          this.state = ConnectionState.CONNECTED;
-          this.reconnectAttempts = 0;
-          this.emit('state', ConnectionState.CONNECTED);
-          resolve();
-        });
-
-        this.once('auth_failed', (error) => {
-          this.state = ConnectionState.ERROR;
-          reject(new Error(error));
-        });
+        this.on('authenticated', onAuthenticated);
+        this.on('auth_failed', onAuthFailed);
       } catch (error) {
         this.state = ConnectionState.ERROR;
         reject(error);
@@ -111,13 +185,26 @@ export class HomeAssistantClient extends EventEmitter {
    * Disconnect from Home Assistant
    */
   disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.stopKeepAlive();
+
     if (this.ws) {
-      this.ws.close();
+      const ws = this.ws;
       this.ws = null;
+      ws.close();
     }
     this.state = ConnectionState.DISCONNECTED;
+
+    for (const pending of this.pendingRequests.values()) {
+      clearTimeout(pending.timeout);
+      pending.reject(new Error('Connection closed'));
+    }
     this.pendingRequests.clear();
     this.subscriptions.clear();
+    this.subscriptionIds.clear();
     this.emit('state', ConnectionState.DISCONNECTED);
   }
 
@@ -135,6 +222,20 @@ export class HomeAssistantClient extends EventEmitter {
     return this.state === ConnectionState.CONNECTED;
   }
 
+  /**
+   * Check if a subscription is active (it is re-sent after reconnects)
+   */
+  hasSubscription(subscriptionId: number): boolean {
+    return this.subscriptions.has(subscriptionId);
+  }
+
+  /**
+   * Send a ping and wait for the pong
+   */
+  async ping(): Promise<void> {
+    await this.sendRequest({ type: 'ping' }, this.pongTimeout);
+  }
+
   /**
    * Get all entity states
    */
@@ -149,6 +250,37 @@ export class HomeAssistantClient extends EventEmitter {
     return this.sendRequest({ type: 'get_services' });
   }
 
+  /**
+   * Call a service
+   */
+  async callService(
+    domain: string,
+    service: string,
+    serviceData?: Record<string, any>,
+    target?: ServiceTarget,
+    returnResponse: boolean = false
+  ): Promise<ServiceCallResult> {
+    const message: Omit<WSMessage, 'id'> = {
+      type: 'call_service',
+      domain,
+      service,
+    };
+
+    if (serviceData && Object.keys(serviceData).length > 0) {
+      message.service_data = serviceData;
+    }
+
+    if (target && Object.keys(target).length > 0) {
+      message.target = target;
+    }
+
+    if (returnResponse) {
+      message.return_response = true;
+    }
+
+    return this.sendRequest(message);
+  }
+
   /**
    * Get Home Assistant configuration
    */
@@ -156,6 +288,61 @@ export class HomeAssistantClient extends EventEmitter {
     return this.sendRequest({ type: 'get_config' });
   }
 
+  /**
+   * Get the area registry
+   */
+  async getAreaRegistry(): Promise<AreaRegistryEntry[]> {
+    const result = await this.sendRequest({ type: 'config/area_registry/list' });
+    return result || [];
+  }
+
+  /**
+   * Get the device registry
+   */
+  async getDeviceRegistry(): Promise<DeviceRegistryEntry[]> {
+    const result = await this.sendRequest({ type: 'config/device_registry/list' });
+    return result || [];
+  }
+
+  /**
+   * Get the entity registry
+   */
+  async getEntityRegistry(): Promise<EntityRegistryEntry[]> {
+    const result = await this.sendRequest({ type: 'config/entity_registry/list' });
+    return result || [];
+  }
+
+  /**
+   * Update an entity registry entry (e.g. { new_entity_id } to rename it)
+   */
+  async updateEntityRegistry(
+    entityId: string,
+    updates: Partial<EntityRegistryEntry> & { new_entity_id?: string }
+  ): Promise<EntityRegistryEntry> {
+    const result = await this.sendRequest({
+      type: 'config/entity_registry/update',
+      entity_id: entityId,
+      ...updates,
+    });
+    return result?.entity_entry || result;
+  }
+
+  /**
+   * Get the floor registry
+   */
+  async getFloorRegistry(): Promise<FloorRegistryEntry[]> {
+    const result = await this.sendRequest({ type: 'config/floor_registry/list' });
+    return result || [];
+  }
+
+  /**
+   * Get the label registry
+   */
+  async getLabelRegistry(): Promise<LabelRegistryEntry[]> {
+    const result = await this.sendRequest({ type: 'config/label_registry/list' });
+    return result || [];
+  }
+
   /**
    * Get list of dashboards
    */
@@ -197,30 +384,197 @@ export class HomeAssistantClient extends EventEmitter {
     eventType: string,
     callback: (data: any) => void
   ): number {
-    const id = this.messageId++;
-    this.subscriptions.set(id, callback);
+    return this.subscribeMessage(
+      { type: 'subscribe_events', event_type: eventType },
+      callback
+    );
+  }
 
-    this.sendMessage({
-      id,
-      type: 'subscribe_events',
-      event_type: eventType,
+  /**
+   * Subscribe to compressed entity state updates
+   * The first event contains every entity, later events only the changes
+   */
+  subscribeEntities(
+    callback: (data: EntitiesEvent) => void,
+    entityIds?: string[]
+  ): number {
+    const message: Omit<WSMessage, 'id'> = { type: 'subscribe_entities' };
+    if (entityIds && entityIds.length > 0) {
+      message.entity_ids = entityIds;
+    }
+    return this.subscribeMessage(message, callback);
+  }
+
+  /**
+   * Render a template once, like Developer Tools > Template
+   * render_template is a subscription: the first rendering is returned and
+   * the subscription is closed again
+   */
+  async renderTemplate(
+    template: string,
+    variables?: Record<string, any>
+  ): Promise<RenderTemplateResult> {
+    const message: Omit<WSMessage, 'id'> = {
+      type: 'render_template',
+      template,
+      report_errors: true,
+    };
+    if (variables && Object.keys(variables).length > 0) {
+      message.variables = variables;
+    }
+
+    return new Promise((resolve, reject) => {
+      const warnings: string[] = [];
+      let subscriptionId: number | null = null;
+
+      const finish = () => {
+        clearTimeout(timeout);
+        if (subscriptionId !== null && this.subscriptions.has(subscriptionId)) {
+          try {
+            this.unsubscribeEvents(subscriptionId);
+          } catch {
+            // Connection is gone, nothing to unsubscribe
+          }
+        }
+      };
+
+      const timeout = setTimeout(() => {
+        finish();
+        reject(new Error('Template rendering timeout'));
+      }, this.requestTimeout);
+
+      try {
+        subscriptionId = this.subscribeMessage(
+          message,
+          (event) => {
+            // Warnings are reported as separate events before the result
+            if (event.error && event.level === 'WARNING') {
+              warnings.push(event.error);
+              return;
+            }
+
+            finish();
+            if (event.error) {
+              reject(new Error(event.error));
+            } else {
+              resolve({ result: event.result, listeners: event.listeners, warnings });
+            }
+          },
+          (error) => {
+            clearTimeout(timeout);
+            reject(error);
+          }
+        );
+      } catch (error) {
+        clearTimeout(timeout);
+        reject(error);
+      }
     });
+  }
+
+  /**
+   * Send a subscription message and route its events to the callback
+   */
+  subscribeMessage(
+    message: Omit<WSMessage, 'id'>,
+    callback: (data: any) => void,
+    onError?: (error: Error) => void
+  ): number {
+    const id = this.messageId++;
+    this.subscriptions.set(id, { message, messageId: id, callback, onError });
+    this.subscriptionIds.set(id, id);
+
+    try {
+      this.sendMessage({ ...message, id } as WSMessage);
+    } catch (error) {
+      this.subscriptions.delete(id);
+      this.subscriptionIds.delete(id);
+      throw error;
+    }
 
     return id;
   }
 
   /**
    * Unsubscribe from events
+   * (while disconnected the subscription is only dropped locally)
    */
   unsubscribeEvents(subscriptionId: number): void {
+    const subscription = this.subscriptions.get(subscriptionId);
     this.subscriptions.delete(subscriptionId);
+    if (subscription) {
+      this.subscriptionIds.delete(subscription.messageId);
+    }
+
+    if (subscription && !this.isConnected()) {
+      return;
+    }
+
     this.sendMessage({
       id: this.messageId++,
       type: 'unsubscribe_events',
-      subscription: subscriptionId,
+      subscription: subscription ? subscription.messageId : subscriptionId,
     });
   }
 
+  /**
+   * Send every active subscription again on a new connection
+   */
+  private resubscribe(): void {
+    this.subscriptionIds.clear();
+
+    for (const [subscriptionId, subscription] of this.subscriptions) {
+      const id = this.messageId++;
+      subscription.messageId = id;
+      this.subscriptionIds.set(id, subscriptionId);
+
+      try {
+        this.sendMessage({ ...subscription.message, id } as WSMessage);
+      } catch (error) {
+        this.emit(
+          'error',
+          new Error(`Failed to resubscribe ${subscription.message.type}: ${error}`)
+        );
+      }
+    }
+
+    if (this.subscriptions.size > 0) {
+      this.emit('resubscribed', this.subscriptions.size);
+    }
+  }
+
+  /**
+   * Ping Home Assistant periodically; a missed pong means the connection is
+   * half-open, so the socket is dropped and the usual reconnect takes over
+   */
+  private startKeepAlive(ws: WebSocket): void {
+    this.stopKeepAlive();
+
+    this.pingTimer = setInterval(() => {
+      this.ping().catch((error) => {
+        if (this.ws !== ws || this.state !== ConnectionState.CONNECTED) {
+          return;
+        }
+        this.emit(
+          'error',
+          new Error(`No pong from Home Assistant (${error.message}), reconnecting`)
+        );
+        ws.terminate();
+      });
+    }, this.pingInterval);
+    this.pingTimer.unref();
+  }
+
+  /**
+   * Stop sending pings
+   */
+  private stopKeepAlive(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+
   /**
    * Handle incoming WebSocket messages
    */
@@ -245,15 +599,38 @@ export class HomeAssistantClient extends EventEmitter {
       }
 
       if (message.type === 'auth_invalid') {
+        this.authRejected = true;
         this.emit('auth_failed', message.message || 'Authentication failed');
         return;
       }
 
       // Handle event subscriptions
       if (message.type === 'event' && message.id) {
-        const callback = this.subscriptions.get(message.id);
-        if (callback) {
-          callback(message.event);
+        const subscriptionId = this.subscriptionIds.get(message.id);
+        const subscription =
+          subscriptionId !== undefined ? this.subscriptions.get(subscriptionId) : undefined;
+        if (subscription) {
+          subscription.callback(message.event);
+        }
+        return;
+      }
+
+      // Handle failed subscriptions
+      if (
+        message.type === 'result' &&
+        message.id !== undefined &&
+        !message.success &&
+        this.subscriptionIds.has(message.id)
+      ) {
+        const subscriptionId = this.subscriptionIds.get(message.id)!;
+        const subscription = this.subscriptions.get(subscriptionId)!;
+        this.subscriptions.delete(subscriptionId);
+        this.subscriptionIds.delete(message.id);
+        const error = new Error(message.error?.message || `Subscription ${subscriptionId} failed`);
+        if (subscription.onError) {
+          subscription.onError(error);
+        } else {
+          this.emit('error', error);
         }
         return;
       }
@@ -273,6 +650,8 @@ export class HomeAssistantClient extends EventEmitter {
                 new Error(message.error?.message || 'Request failed')
               );
             }
+          } else if (message.type === 'pong') {
+            pending.resolve(undefined);
           }
         }
       }
@@ -285,6 +664,7 @@ export class HomeAssistantClient extends EventEmitter {
    * Handle WebSocket connection close
    */
   private handleClose(): void {
+    this.stopKeepAlive();
     this.state = ConnectionState.DISCONNECTED;
     this.emit('state', ConnectionState.DISCONNECTED);
 
@@ -295,26 +675,33 @@ export class HomeAssistantClient extends EventEmitter {
       this.pendingRequests.delete(id);
     }
 
-    // Attempt to reconnect
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      const delay = Math.min(
-        this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1),
-        30000
-      ); // Max 30 seconds
-
-      this.emit('reconnecting', this.reconnectAttempts, delay);
-
-      setTimeout(() => {
-        if (this.state === ConnectionState.DISCONNECTED) {
-          this.connect(this.url, this.token).catch((error) => {
-            this.emit('error', error);
-          });
-        }
-      }, delay);
-    } else {
+    // Retrying a rejected token only fills Home Assistant's failed login log
+    // (and can get this address banned); a new token reconnects through connect()
+    if (this.authRejected) {
+      return;
+    }
+
+    // Attempt to reconnect: exponential backoff first, then keep trying slowly
+    this.reconnectAttempts++;
+    if (this.reconnectAttempts === this.maxReconnectAttempts + 1) {
       this.emit('max_reconnect_attempts');
     }
+
+    const delay =
+      this.reconnectAttempts > this.maxReconnectAttempts
+        ? SLOW_RECONNECT_DELAY
+        : Math.min(this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1), 30000); // Max 30s
+
+    this.emit('reconnecting', this.reconnectAttempts, delay);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.state === ConnectionState.DISCONNECTED) {
+        this.connect(this.url, this.token).catch((error) => {
+          this.emit('error', error);
+        });
+      }
+    }, delay);
   }
 
   /**
@@ -331,13 +718,16 @@ export class HomeAssistantClient extends EventEmitter {
   /**
    * Send a request and wait for response
    */
-  private async sendRequest(message: Omit<WSMessage, 'id'>): Promise<any> {
+  private async sendRequest(
+    message: Omit<WSMessage, 'id'>,
+    timeoutMs: number = this.requestTimeout
+  ): Promise<any> {
     return new Promise((resolve, reject) => {
       const id = this.messageId++;
       const timeout = setTimeout(() => {
         this.pendingRequests.delete(id);
         reject(new Error('Request timeout'));
-      }, this.requestTimeout);
+      }, timeoutMs);
 
       this.pendingRequests.set(id, { resolve, reject, timeout });
 
@@ -0,0 +1,381 @@
+/**
+ * Home Assistant Instance
+ * One configured Home Assistant server with its own client, cache and providers
+ */
+
+import * as path from 'path';
+import { HomeAssistantClient } from './ha-client';
+import { Cache, CacheKeys, getSnapshotPath } from './cache';
+import { EntityStore } from './entity-store';
+import { CommandHandler } from './commands';
+import { CompletionProvider } from './providers/completion';
+import { HoverProvider } from './providers/hover';
+import { DiagnosticsProvider } from './providers/diagnostics';
+import { CodeActionsProvider } from './providers/code-actions';
+import { InlayHintsProvider } from './providers/inlay-hints';
+import { CodeLensProvider } from './providers/code-lens';
+import { SignatureHelpProvider } from './providers/signature-help';
+import { StatusTracker } from './status';
+import { CacheConfig, CompletionConfig, InstanceConfig } from './utils/config';
+import { matchesGlob } from './utils/glob';
+import { getLogger } from './utils/logger';
+
+const logger = getLogger('Instance');
+
+/**
+ * Server-wide settings shared by every instance
+ */
+export interface InstanceOptions {
+  cache: CacheConfig;
+  completion: CompletionConfig;
+}
+
+/**
+ * Instance summary returned by homeassistant.listInstances
+ */
+export interface InstanceStatus {
+  name: string;
+  host: string;
+  state: string;
+  connected: boolean;
+  folders: string[];
+  patterns: string[];
+}
+
+/**
+ * Metadata loaded after connecting
+ */
+interface PreloadStep {
+  key: string;
+  label: string;
+  fetch: (client: HomeAssistantClient) => Promise<unknown>;
+  ttl?: number; // in seconds, same as the providers use
+}
+
+const PRELOAD_STEPS: PreloadStep[] = [
+  { key: CacheKeys.ENTITIES, label: 'entities', fetch: (client) => client.getStates() },
+  { key: CacheKeys.SERVICES, label: 'services', fetch: (client) => client.getServices(), ttl: 600 },
+  {
+    key: CacheKeys.ENTITY_REGISTRY,
+    label: 'entity registry',
+    fetch: (client) => client.getEntityRegistry(),
+    ttl: 600,
+  },
+  { key: CacheKeys.AREAS, label: 'areas', fetch: (client) => client.getAreaRegistry(), ttl: 600 },
+  {
+    key: CacheKeys.DEVICES,
+    label: 'devices',
+    fetch: (client) => client.getDeviceRegistry(),
+    ttl: 600,
+  },
+  {
+    key: CacheKeys.FLOORS,
+    label: 'floors',
+    fetch: (client) => client.getFloorRegistry(),
+    ttl: 600,
+  },
+  {
+    key: CacheKeys.LABELS,
+    label: 'labels',
+    fetch: (client) => client.getLabelRegistry(),
+    ttl: 600,
+  },
+];
+
+/**
+ * Home Assistant instance
+ */
+export class HomeAssistantInstance {
+  readonly name: string;
+  readonly client: HomeAssistantClient;
+  readonly cache: Cache;
+  readonly entityStore: EntityStore;
+  readonly commandHandler: CommandHandler;
+  readonly completionProvider: CompletionProvider;
+  readonly hoverProvider: HoverProvider;
+  readonly diagnosticsProvider: DiagnosticsProvider;
+  readonly codeActionsProvider: CodeActionsProvider;
+  readonly inlayHintsProvider: InlayHintsProvider;
+  readonly codeLensProvider: CodeLensProvider;
+  readonly signatureHelpProvider: SignatureHelpProvider;
+  readonly status: StatusTracker;
+  private config: InstanceConfig;
+
+  constructor(config: InstanceConfig, options: InstanceOptions) {
+    this.name = config.name;
+    this.config = config;
+
+    this.client = new HomeAssistantClient({ requestTimeout: config.timeout });
+    this.cache = new Cache({
+      enabled: options.cache.enabled,
+      defaultTTL: options.cache.ttl,
+      maxSize: options.cache.maxSize,
+    });
+
+    // Serve the last known metadata of this instance while it is unreachable
+    if (options.cache.snapshot !== false) {
+      this.cache.attachSnapshot(getSnapshotPath(config.host));
+    }
+
+    this.commandHandler = new CommandHandler(this.client, this.cache);
+
+    // Keep cached entity states current through subscribe_entities
+    this.entityStore = new EntityStore(this.client, this.cache);
+
+    // Providers handle a missing connection themselves, so they exist right away
+    this.completionProvider = new CompletionProvider(this.client, this.cache, options.completion);
+    this.hoverProvider = new HoverProvider(this.client, this.cache);
+    this.diagnosticsProvider = new DiagnosticsProvider(this.client, this.cache);
+    this.codeActionsProvider = new CodeActionsProvider(this.client, this.cache);
+    this.inlayHintsProvider = new InlayHintsProvider(this.client, this.cache);
+    this.codeLensProvider = new CodeLensProvider(this.client, this.cache);
+    this.signatureHelpProvider = new SignatureHelpProvider(this.client, this.cache);
+
+    this.status = new StatusTracker(config.name, this.client, this.cache);
+  }
+
+  /**
+   * Start live entity updates and connect to Home Assistant
+   */
+  async start(): Promise<void> {
+    this.status.start();
+    this.entityStore.start();
+
+    const connecting = this.client.connect(this.config.host, this.config.token);
+    this.status.refresh(); // the client does not emit the first CONNECTING state
+    await connecting;
+    logger.info(`Instance ${this.name} connected to ${this.config.host}`);
+  }
+
+  /**
+   * Disconnect and release the cache (resolves once the snapshot is written)
+   */
+  async stop(): Promise<void> {
+    this.entityStore.stop();
+    this.client.disconnect();
+    this.status.stop();
+
+    await this.cache.detachSnapshot();
+    this.cache.destroy();
+    logger.info(`Instance ${this.name} stopped`);
+  }
+
+  /**
+   * Load entities, services and registries into the cache, reporting each
+   * finished step (failures are left to the providers' own fetches)
+   */
+  async preload(onProgress?: (label: string, done: number, total: number) => void): Promise<void> {
+    let done = 0;
+
+    await Promise.all(
+      PRELOAD_STEPS.map(async (step) => {
+        try {
+          await this.cache.getOrFetch(step.key, () => step.fetch(this.client), step.ttl);
+        } catch (error) {
+          logger.debug(`Failed to preload ${step.label} for ${this.name}`, error);
+        }
+
+        done++;
+        onProgress?.(step.label, done, PRELOAD_STEPS.length);
+      })
+    );
+  }
+
+  /**
+   * Get the instance configuration
+   */
+  getConfig(): InstanceConfig {
+    return this.config;
+  }
+
+  /**
+   * Replace the folder and pattern mapping (connection settings stay the same)
+   */
+  setConfig(config: InstanceConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Start or stop persisting the cache to this instance's snapshot file
+   */
+  async setSnapshotEnabled(enabled: boolean): Promise<void> {
+    if (enabled && !this.cache.hasSnapshot()) {
+      this.cache.attachSnapshot(getSnapshotPath(this.config.host));
+      logger.info(`Snapshot enabled for ${this.name}`);
+    } else if (!enabled && this.cache.hasSnapshot()) {
+      await this.cache.detachSnapshot();
+      logger.info(`Snapshot disabled for ${this.name}`);
+    }
+  }
+
+  /**
+   * Apply cache and completion settings
+   */
+  configure(options: InstanceOptions): void {
+    this.cache.configure({
+      enabled: options.cache.enabled,
+      defaultTTL: options.cache.ttl,
+      maxSize: options.cache.maxSize,
+    });
+    this.completionProvider.configure(options.completion);
+  }
+
+  /**
+   * Check whether the instance is limited to some folders or patterns
+   */
+  isScoped(): boolean {
+    return !!(this.config.folders?.length || this.config.patterns?.length);
+  }
+
+  /**
+   * Check whether a file belongs to this instance
+   */
+  matches(filePath: string, workspaceFolders: string[]): boolean {
+    // Relative folders are looked up in every workspace folder
+    for (const folder of this.config.folders || []) {
+      const candidates = path.isAbsolute(folder)
+        ? [folder]
+        : workspaceFolders.map((root) => path.resolve(root, folder));
+      if (candidates.some((dir) => isInside(filePath, dir))) {
+        return true;
+      }
+    }
+
+    const patterns = this.config.patterns || [];
+    if (patterns.length === 0) {
+      return false;
+    }
+
+    for (const root of workspaceFolders) {
+      if (!isInside(filePath, root)) {
+        continue;
+      }
+      const relativePath = path.relative(root, filePath);
+      if (patterns.some((pattern) => matchesGlob(relativePath, pattern))) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Get a summary of the instance and its connection
+   */
+  getStatus(): InstanceStatus {
+    return {
+      name: this.name,
+      host: this.config.host,
+      state: this.client.getState(),
+      connected: this.client.isConnected(),
+      folders: this.config.folders || [],
+      patterns: this.config.patterns || [],
+    };
+  }
+}
+
+/**
+ * Key of the connection settings; a change requires a new client
+ */
+export function getConnectionKey(config: InstanceConfig): string {
+  return JSON.stringify([config.host, config.token, config.timeout]);
+}
+
+/**
+ * Bring running instances in line with the configuration: stop removed ones,
+ * recreate those whose connection settings changed, hand other changes
+ * (folders, patterns) to setConfig and attach or detach the cache snapshot.
+ * The map is rebuilt in configuration order; returns the created instances,
+ * which still need to be started.
+ */
+export async function syncInstances(
+  instances: Map<string, HomeAssistantInstance>,
+  configs: InstanceConfig[],
+  options: InstanceOptions,
+  create: (config: InstanceConfig) => HomeAssistantInstance
+): Promise<HomeAssistantInstance[]> {
+  // Stop instances that were removed or whose connection settings changed
+  const stopped: Promise<void>[] = [];
+  for (const [name, instance] of instances) {
+    const config = configs.find((c) => c.name === name);
+    if (config && getConnectionKey(config) === getConnectionKey(instance.getConfig())) {
+      continue;
+    }
+
+    logger.info(
+      config
+        ? `Connection settings of ${name} changed, reconnecting to Home Assistant`
+        : `Removing Home Assistant instance ${name}`
+    );
+    instances.delete(name);
+    stopped.push(instance.stop());
+  }
+  await Promise.all(stopped);
+
+  const created: HomeAssistantInstance[] = [];
+  const current = new Map(instances);
+  instances.clear();
+  for (const config of configs) {
+    let instance = current.get(config.name);
+    if (instance) {
+      instance.setConfig(config);
+      await instance.setSnapshotEnabled(options.cache.snapshot !== false);
+    } else {
+      instance = create(config);
+      created.push(instance);
+    }
+    instances.set(config.name, instance);
+  }
+
+  return created;
+}
+
+/**
+ * Pick the instance a file belongs to: the first scoped instance that
+ * matches, else the first unscoped one (none when every instance is scoped)
+ */
+export function resolveInstance(
+  instances: HomeAssistantInstance[],
+  filePath: string | null,
+  workspaceFolders: string[]
+): HomeAssistantInstance | null {
+  if (filePath) {
+    const match = instances.find(
+      (instance) => instance.isScoped() && instance.matches(filePath, workspaceFolders)
+    );
+    if (match) {
+      return match;
+    }
+  }
+
+  return instances.find((instance) => !instance.isScoped()) || null;
+}
+
+/**
+ * Split a trailing `{ instance: name }` argument off command arguments
+ */
+export function extractInstanceArgument(args?: any[]): { instance?: string; args?: any[] } {
+  const last = args && args.length > 0 ? args[args.length - 1] : undefined;
+  if (
+    last &&
+    typeof last === 'object' &&
+    !Array.isArray(last) &&
+    typeof last.instance === 'string' &&
+    Object.keys(last).length === 1
+  ) {
+    return { instance: last.instance, args: args!.slice(0, -1) };
+  }
+
+  return { args };
+}
+
+/**
+ * Check whether a path is a directory or inside it
+ */
+function isInside(filePath: string, dir: string): boolean {
+  const relative = path.relative(dir, filePath);
+  return (
+    relative === '' ||
+    (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative))
+  );
+}
@@ -0,0 +1,269 @@
+/**
+ * Code Actions Provider
+ * Quick fixes replacing unknown entity IDs with the closest existing entities
+ */
+
+import {
+  CodeAction,
+  CodeActionKind,
+  CodeActionParams,
+  Diagnostic,
+  TextEdit,
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { HomeAssistantClient } from '../ha-client';
+import { Cache, CacheKeys } from '../cache';
+import { DeviceRegistryEntry, Entity, EntityRegistryEntry } from '../types/homeassistant';
+import { getLogger } from '../utils/logger';
+import { slugify } from '../utils/entities';
+import { DIAGNOSTIC_SOURCE, DiagnosticCode } from './diagnostics';
+
+const logger = getLogger('CodeActionsProvider');
+
+/**
+ * Maximum number of replacements offered per unknown entity
+ */
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * A replacement candidate for an unknown entity ID
+ */
+export interface EntitySuggestion {
+  entityId: string;
+  title: string;
+  distance: number;
+  sameDomain: boolean;
+  renamed: boolean;
+}
+
+/**
+ * Code Actions Provider
+ */
+export class CodeActionsProvider {
+  private haClient: HomeAssistantClient;
+  private cache: Cache;
+
+  constructor(haClient: HomeAssistantClient, cache: Cache) {
+    this.haClient = haClient;
+    this.cache = cache;
+  }
+
+  /**
+   * Provide quick fixes for the unknown-entity diagnostics in range
+   */
+  async provideCodeActions(
+    document: TextDocument,
+    params: CodeActionParams
+  ): Promise<CodeAction[]> {
+    const only = params.context.only;
+    if (only && !only.some((kind) => CodeActionKind.QuickFix.startsWith(kind))) {
+      return [];
+    }
+
+    const diagnostics = params.context.diagnostics.filter(
+      (diagnostic) =>
+        diagnostic.source === DIAGNOSTIC_SOURCE &&
+        diagnostic.code === DiagnosticCode.UNKNOWN_ENTITY
+    );
+    if (diagnostics.length === 0) {
+      return [];
+    }
+
+    let entities: Entity[];
+    try {
+      entities = await this.getEntities();
+    } catch (error) {
+      logger.debug('No entities for code actions', error);
+      return [];
+    }
+
+    // Registry data only adds rename suggestions, so it is optional
+    let registry: EntityRegistryEntry[] = [];
+    let devices: DeviceRegistryEntry[] = [];
+    try {
+      [registry, devices] = await Promise.all([this.getEntityRegistry(), this.getDevices()]);
+    } catch (error) {
+      logger.debug('No entity registry for rename suggestions', error);
+    }
+
+    const actions: CodeAction[] = [];
+    for (const diagnostic of diagnostics) {
+      const entityId = this.getEntityId(document, diagnostic);
+      const suggestions = this.suggest(entityId, entities, registry, devices);
+
+      suggestions.forEach((suggestion, index) => {
+        actions.push({
+          title: suggestion.title,
+          kind: CodeActionKind.QuickFix,
+          diagnostics: [diagnostic],
+          isPreferred: index === 0,
+          edit: {
+            changes: {
+              [document.uri]: [TextEdit.replace(diagnostic.range, suggestion.entityId)],
+            },
+          },
+        });
+      });
+    }
+
+    logger.debug(`Code actions: ${actions.length} quick fixes in ${document.uri}`);
+    return actions;
+  }
+
+  /**
+   * Rank existing entities as replacements for an unknown entity ID:
+   * renamed entities first, then the same domain, then by edit distance
+   */
+  suggest(
+    entityId: string,
+    entities: Entity[],
+    registry: EntityRegistryEntry[] = [],
+    devices: DeviceRegistryEntry[] = []
+  ): EntitySuggestion[] {
+    const [domain, objectId] = entityId.split('.');
+    if (!objectId) {
+      return [];
+    }
+
+    const suggestions = new Map<string, EntitySuggestion>();
+
+    for (const entry of this.findRenamed(entityId, registry, devices)) {
+      suggestions.set(entry.entity_id, {
+        entityId: entry.entity_id,
+        title: `Replace with ${entry.entity_id} (renamed from ${entityId})`,
+        distance: 0,
+        sameDomain: true,
+        renamed: true,
+      });
+    }
+
+    // Typos scale with the length of the ID, short IDs only allow small ones
+    const threshold = Math.max(2, Math.floor(objectId.length / 3));
+
+    for (const entity of entities) {
+      if (!entity?.entity_id || suggestions.has(entity.entity_id)) {
+        continue;
+      }
+
+      const [candidateDomain, candidateObjectId] = entity.entity_id.split('.');
+      const friendlyName = entity.attributes?.friendly_name;
+      const distance = Math.min(
+        levenshtein(objectId, candidateObjectId),
+        friendlyName ? levenshtein(objectId, slugify(friendlyName)) : Infinity
+      );
+      if (distance > threshold) {
+        continue;
+      }
+
+      suggestions.set(entity.entity_id, {
+        entityId: entity.entity_id,
+        title: friendlyName
+          ? `Replace with ${entity.entity_id} (${friendlyName})`
+          : `Replace with ${entity.entity_id}`,
+        distance,
+        sameDomain: candidateDomain === domain,
+        renamed: false,
+      });
+    }
+
+    return Array.from(suggestions.values())
+      .sort(
+        (a, b) =>
+          Number(b.renamed) - Number(a.renamed) ||
+          Number(b.sameDomain) - Number(a.sameDomain) ||
+          a.distance - b.distance ||
+          a.entityId.localeCompare(b.entityId)
+      )
+      .slice(0, MAX_SUGGESTIONS);
+  }
+
+  /**
+   * Find registry entries the unknown ID most likely belonged to before the
+   * entity was renamed (the ID Home Assistant originally generated from its
+   * name, alone or prefixed with the device name)
+   */
+  private findRenamed(
+    entityId: string,
+    registry: EntityRegistryEntry[],
+    devices: DeviceRegistryEntry[]
+  ): EntityRegistryEntry[] {
+    const [domain] = entityId.split('.');
+    const deviceNames = new Map(
+      devices.map((device) => [device.id, device.name_by_user || device.name])
+    );
+
+    return registry.filter((entry) => {
+      if (entry.entity_id === entityId || !entry.entity_id.startsWith(`${domain}.`)) {
+        return false;
+      }
+
+      const name = entry.original_name;
+      const deviceName = entry.device_id ? deviceNames.get(entry.device_id) : null;
+      const originalIds = [
+        name ? `${domain}.${slugify(name)}` : null,
+        deviceName ? `${domain}.${slugify(deviceName)}` : null,
+        name && deviceName ? `${domain}.${slugify(`${deviceName} ${name}`)}` : null,
+      ];
+
+      return originalIds.includes(entityId);
+    });
+  }
+
+  /**
+   * Get the unknown entity ID of a diagnostic
+   */
+  private getEntityId(document: TextDocument, diagnostic: Diagnostic): string {
+    const data = diagnostic.data as { entityId?: string } | undefined;
+    return data?.entityId || document.getText(diagnostic.range);
+  }
+
+  /**
+   * Get entities from cache or Home Assistant
+   */
+  private async getEntities(): Promise<Entity[]> {
+    // Entity states use the default TTL (cache.ttl setting)
+    return this.cache.getOrFetch(CacheKeys.ENTITIES, () =>
+      this.haClient.getStates()
+    );
+  }
+
+  /**
+   * Get the entity registry from cache or Home Assistant
+   */
+  private async getEntityRegistry(): Promise<EntityRegistryEntry[]> {
+    return this.cache.getOrFetch(
+      CacheKeys.ENTITY_REGISTRY,
+      () => this.haClient.getEntityRegistry(),
+      600 // 10 minutes TTL
+    );
+  }
+
+  /**
+   * Get the device registry from cache or Home Assistant
+   */
+  private async getDevices(): Promise<DeviceRegistryEntry[]> {
+    return this.cache.getOrFetch(
+      CacheKeys.DEVICES,
+      () => this.haClient.getDeviceRegistry(),
+      600 // 10 minutes TTL
+    );
+  }
+}
+
+/**
+ * Edit distance between two strings (insertions, deletions, substitutions)
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
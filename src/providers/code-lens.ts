@@ -0,0 +1,172 @@
+/**
+ * Code Lens Provider
+ * Run, trigger and toggle automations and scripts from their YAML definition
+ */
+
+import { CodeLens } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { HomeAssistantClient } from '../ha-client';
+import { Cache, CacheKeys } from '../cache';
+import { Entity, EntityRegistryEntry } from '../types/homeassistant';
+import { getLogger } from '../utils/logger';
+import { parseDefinitions, resolveEntityId } from '../utils/definitions';
+
+const logger = getLogger('CodeLensProvider');
+
+/**
+ * Code Lens Provider
+ */
+export class CodeLensProvider {
+  private haClient: HomeAssistantClient;
+  private cache: Cache;
+
+  constructor(haClient: HomeAssistantClient, cache: Cache) {
+    this.haClient = haClient;
+    this.cache = cache;
+  }
+
+  /**
+   * Provide lenses for the automations and scripts of a YAML document
+   */
+  async provideCodeLenses(document: TextDocument): Promise<CodeLens[]> {
+    if (!this.isYaml(document)) {
+      return [];
+    }
+
+    const definitions = parseDefinitions(document.getText()).filter(
+      (definition) => definition.domain === 'automation' || definition.domain === 'script'
+    );
+    if (definitions.length === 0) {
+      return [];
+    }
+
+    let entities: Entity[];
+    try {
+      entities = await this.getEntities();
+    } catch (error) {
+      logger.debug('No entity states for code lenses', error);
+      return [];
+    }
+
+    // Without the registry, IDs fall back to the ones derived from aliases
+    let registry: EntityRegistryEntry[] = [];
+    try {
+      registry = await this.getEntityRegistry();
+    } catch (error) {
+      logger.debug('No entity registry for code lenses', error);
+    }
+
+    const entityMap = new Map(entities.map((entity) => [entity.entity_id, entity]));
+    const lenses: CodeLens[] = [];
+
+    for (const definition of definitions) {
+      const entityId = resolveEntityId(definition, registry);
+      const entity = entityMap.get(entityId);
+      // Definitions Home Assistant has not loaded yet cannot be run
+      if (!entity) {
+        continue;
+      }
+
+      const range = definition.range;
+      if (definition.domain === 'automation') {
+        lenses.push(
+          this.createLens(range, '▶ Trigger', 'homeassistant.triggerAutomation', entityId),
+          this.createLens(
+            range,
+            entity.state === 'off' ? 'Enable' : 'Disable',
+            'homeassistant.toggleAutomation',
+            entityId
+          )
+        );
+      } else {
+        lenses.push(this.createLens(range, '▶ Run', 'homeassistant.runScript', entityId));
+      }
+
+      lenses.push(
+        this.createLens(
+          range,
+          formatLastTriggered(entity.attributes?.last_triggered),
+          'homeassistant.getEntityState',
+          entityId
+        )
+      );
+    }
+
+    return lenses;
+  }
+
+  /**
+   * Create a lens running a command for an entity
+   */
+  private createLens(
+    range: CodeLens['range'],
+    title: string,
+    command: string,
+    entityId: string
+  ): CodeLens {
+    return {
+      range,
+      command: { title, command, arguments: [entityId] },
+    };
+  }
+
+  /**
+   * Check whether a document is a YAML file
+   */
+  private isYaml(document: TextDocument): boolean {
+    if (document.languageId.startsWith('yaml')) {
+      return true;
+    }
+    return /\.ya?ml$/i.test(document.uri);
+  }
+
+  /**
+   * Get entities from cache or Home Assistant
+   */
+  private async getEntities(): Promise<Entity[]> {
+    // Entity states use the default TTL (cache.ttl setting)
+    return this.cache.getOrFetch(CacheKeys.ENTITIES, () =>
+      this.haClient.getStates()
+    );
+  }
+
+  /**
+   * Get the entity registry from cache or Home Assistant
+   */
+  private async getEntityRegistry(): Promise<EntityRegistryEntry[]> {
+    return this.cache.getOrFetch(
+      CacheKeys.ENTITY_REGISTRY,
+      () => this.haClient.getEntityRegistry(),
+      600 // 10 minutes TTL
+    );
+  }
+}
+
+/**
+ * Describe when an automation or script last ran (e.g. "last triggered 5 min ago")
+ */
+export function formatLastTriggered(
+  lastTriggered: string | null | undefined,
+  now: number = Date.now()
+): string {
+  const time = lastTriggered ? Date.parse(lastTriggered) : NaN;
+  if (isNaN(time)) {
+    return 'never triggered';
+  }
+
+  const minutes = Math.floor(Math.max(0, now - time) / 60000);
+  if (minutes < 1) {
+    return 'last triggered just now';
+  }
+  if (minutes < 60) {
+    return `last triggered ${minutes} min ago`;
+  }
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `last triggered ${hours} h ago`;
+  }
+
+  const days = Math.floor(hours / 24);
+  return `last triggered ${days} ${days === 1 ? 'day' : 'days'} ago`;
+}
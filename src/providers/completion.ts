@@ -6,14 +6,55 @@
 import {
   CompletionItem,
   CompletionItemKind,
+  InsertTextFormat,
   TextDocumentPositionParams,
   MarkupKind,
 } from 'vscode-languageserver';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { HomeAssistantClient } from '../ha-client';
 import { Cache, CacheKeys } from '../cache';
-import { Entity, Services } from '../types/homeassistant';
+import {
+  Entity,
+  EntityFilter,
+  EntitySelector,
+  NumberSelector,
+  SelectSelector,
+  Selector,
+  Service,
+  ServiceField,
+  Services,
+  AreaRegistryEntry,
+  DeviceRegistryEntry,
+  EntityRegistryEntry,
+  FloorRegistryEntry,
+  LabelRegistryEntry,
+} from '../types/homeassistant';
 import { getLogger } from '../utils/logger';
+import { CompletionConfig } from '../utils/config';
+import {
+  parseLines,
+  findParentEntry,
+  getSiblingEntries,
+  getChildEntries,
+  unquote,
+} from '../utils/yaml';
+import {
+  SERVICE_KEYS,
+  SERVICE_DATA_KEYS,
+  TARGET_FIELDS,
+  findService,
+  getServiceFields,
+  hasTarget,
+  formatFieldDocumentation,
+} from '../utils/services';
+import {
+  TEMPLATE_FUNCTIONS,
+  TemplateArgumentKind,
+  TemplateFunction,
+  getTemplateStart,
+  getTemplateCallContext,
+  formatTemplateFunctionDocumentation,
+} from '../utils/jinja';
 
 const logger = getLogger('CompletionProvider');
 
@@ -24,19 +65,72 @@ enum CompletionContext {
   ENTITY_ID = 'entity_id',
   DOMAIN = 'domain',
   SERVICE = 'service',
+  SERVICE_DATA_FIELD = 'service_data_field',
+  SERVICE_DATA_VALUE = 'service_data_value',
+  TEMPLATE_FUNCTION = 'template_function',
+  TEMPLATE_FILTER = 'template_filter',
+  TEMPLATE_ARGUMENT = 'template_argument',
+  TEMPLATE_STATES = 'template_states',
   UNKNOWN = 'unknown',
 }
 
+/**
+ * Position inside the data (or target) mapping of a service call
+ */
+interface ServiceDataContext {
+  context: CompletionContext.SERVICE_DATA_FIELD | CompletionContext.SERVICE_DATA_VALUE;
+  serviceName: string;
+  service: Service;
+  isTarget: boolean; // inside `target:` rather than `data:`
+  fieldName: string | null; // field whose value is being completed
+  existingKeys: string[]; // keys already present in the mapping
+  prefix: string;
+}
+
+/**
+ * Position inside a Jinja template block
+ */
+interface TemplateContext {
+  context:
+    | CompletionContext.TEMPLATE_FUNCTION
+    | CompletionContext.TEMPLATE_FILTER
+    | CompletionContext.TEMPLATE_ARGUMENT
+    | CompletionContext.TEMPLATE_STATES;
+  argumentKind?: TemplateArgumentKind; // kind of the string argument being completed
+  prefix: string;
+}
+
+/**
+ * Default completion limits (no minimum word length, 50 items)
+ */
+const DEFAULT_MIN_CHARS = 0;
+const DEFAULT_MAX_RESULTS = 50;
+
 /**
  * Completion Provider
  */
 export class CompletionProvider {
   private haClient: HomeAssistantClient;
   private cache: Cache;
+  private minChars: number = DEFAULT_MIN_CHARS;
+  private maxResults: number = DEFAULT_MAX_RESULTS;
 
-  constructor(haClient: HomeAssistantClient, cache: Cache) {
+  constructor(
+    haClient: HomeAssistantClient,
+    cache: Cache,
+    options: Partial<CompletionConfig> = {}
+  ) {
     this.haClient = haClient;
     this.cache = cache;
+    this.configure(options);
+  }
+
+  /**
+   * Apply completion settings (minChars, maxResults)
+   */
+  configure(options: Partial<CompletionConfig>): void {
+    this.minChars = options.minChars ?? DEFAULT_MIN_CHARS;
+    this.maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
   }
 
   /**
@@ -55,6 +149,43 @@ export class CompletionProvider {
       const cursorPos = position.position.character;
       const textBeforeCursor = currentLine.substring(0, cursorPos);
 
+      // Inside {{ }} / {% %} the text is Jinja, not YAML
+      const offset = document.offsetAt(position.position);
+      const templateStart = getTemplateStart(fullText, offset);
+      if (templateStart !== null) {
+        const templateContext = this.detectTemplateContext(
+          fullText.substring(templateStart, offset)
+        );
+        logger.debug('Completion requested', {
+          context: templateContext?.context || CompletionContext.UNKNOWN,
+          prefix: templateContext?.prefix,
+        });
+        return templateContext ? this.completeTemplate(templateContext) : [];
+      }
+
+      // Service data fields and values take precedence over plain tokens
+      const dataContext = await this.detectServiceDataContext(
+        lines,
+        position.position.line,
+        textBeforeCursor
+      );
+      if (dataContext) {
+        logger.debug('Completion requested', {
+          context: dataContext.context,
+          service: dataContext.serviceName,
+          field: dataContext.fieldName,
+          prefix: dataContext.prefix,
+        });
+
+        const items =
+          dataContext.context === CompletionContext.SERVICE_DATA_FIELD
+            ? this.completeServiceDataField(dataContext)
+            : await this.completeServiceDataValue(dataContext);
+        if (items) {
+          return items;
+        }
+      }
+
       // Detect completion context
       const context = this.detectContext(textBeforeCursor);
       const prefix = this.extractPrefix(textBeforeCursor);
@@ -71,7 +202,8 @@ export class CompletionProvider {
           return this.completeEntityId(prefix);
 
         case CompletionContext.DOMAIN:
-          return this.completeDomain(prefix);
+          // Bare words only complete once they are long enough
+          return prefix.length < this.minChars ? [] : this.completeDomain(prefix);
 
         case CompletionContext.SERVICE:
           return this.completeService(prefix);
@@ -113,6 +245,660 @@ export class CompletionProvider {
     return CompletionContext.DOMAIN;
   }
 
+  /**
+   * Detect completion context from the template text before the cursor
+   */
+  private detectTemplateContext(templateText: string): TemplateContext | null {
+    // String argument of a function call: states('sensor.te
+    const call = getTemplateCallContext(templateText);
+    if (call && call.inString) {
+      const prefix = call.argumentText.replace(/^['"]/, '');
+      const fn = TEMPLATE_FUNCTIONS[call.name];
+      if (!fn) {
+        return { context: CompletionContext.TEMPLATE_ARGUMENT, prefix };
+      }
+
+      // As a filter the first parameter of a function is the piped value
+      const shift = call.isFilter && fn.functionCall !== false ? 1 : 0;
+      const parameter = fn.parameters[call.argumentIndex + shift];
+
+      return {
+        context: CompletionContext.TEMPLATE_ARGUMENT,
+        argumentKind: parameter?.kind,
+        prefix,
+      };
+    }
+
+    // Any other string literal: entity IDs are still the likely content
+    const stringMatch = templateText.match(/(['"])([^'"]*)$/);
+    if (stringMatch && this.isInString(templateText)) {
+      return { context: CompletionContext.TEMPLATE_ARGUMENT, prefix: stringMatch[2] };
+    }
+
+    // Attribute access on the states object: states.sensor.te
+    const statesMatch = templateText.match(/\bstates\.([\w.]*)$/);
+    if (statesMatch) {
+      return { context: CompletionContext.TEMPLATE_STATES, prefix: statesMatch[1] };
+    }
+
+    const filterMatch = templateText.match(/\|\s*(\w*)$/);
+    if (filterMatch) {
+      return { context: CompletionContext.TEMPLATE_FILTER, prefix: filterMatch[1] };
+    }
+
+    const identifierMatch = templateText.match(/(?:^|[^\w.])(\w*)$/);
+    if (identifierMatch) {
+      return { context: CompletionContext.TEMPLATE_FUNCTION, prefix: identifierMatch[1] };
+    }
+
+    return null;
+  }
+
+  /**
+   * Check whether the end of a template text is inside a string literal
+   */
+  private isInString(templateText: string): boolean {
+    let quote: string | null = null;
+    for (const char of templateText) {
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      }
+    }
+    return quote !== null;
+  }
+
+  /**
+   * Complete inside a Jinja template block
+   */
+  private async completeTemplate(templateContext: TemplateContext): Promise<CompletionItem[]> {
+    const { prefix } = templateContext;
+
+    switch (templateContext.context) {
+      case CompletionContext.TEMPLATE_FUNCTION:
+        return prefix.length < this.minChars ? [] : this.completeTemplateFunctions(prefix, false);
+
+      case CompletionContext.TEMPLATE_FILTER:
+        return this.completeTemplateFunctions(prefix, true);
+
+      case CompletionContext.TEMPLATE_STATES:
+        return prefix.includes('.')
+          ? this.completeStatesObject(prefix)
+          : this.completeDomain(prefix);
+
+      default:
+        return this.completeTemplateArgument(templateContext.argumentKind, prefix);
+    }
+  }
+
+  /**
+   * Complete a string argument of a template function by its kind
+   */
+  private async completeTemplateArgument(
+    kind: TemplateArgumentKind | undefined,
+    prefix: string
+  ): Promise<CompletionItem[]> {
+    switch (kind) {
+      case 'entity':
+        return this.completeEntityId(prefix);
+
+      case 'area':
+        return this.completeRegistry<AreaRegistryEntry>(
+          CacheKeys.AREAS, () => this.haClient.getAreaRegistry(),
+          (a) => [a.area_id, a.name], prefix
+        );
+
+      case 'device':
+        return this.completeRegistry<DeviceRegistryEntry>(
+          CacheKeys.DEVICES, () => this.haClient.getDeviceRegistry(),
+          (d) => [d.id, d.name_by_user || d.name || d.id], prefix
+        );
+
+      case 'floor':
+        return this.completeRegistry<FloorRegistryEntry>(
+          CacheKeys.FLOORS, () => this.haClient.getFloorRegistry(),
+          (f) => [f.floor_id, f.name], prefix
+        );
+
+      case 'label':
+        return this.completeRegistry<LabelRegistryEntry>(
+          CacheKeys.LABELS, () => this.haClient.getLabelRegistry(),
+          (l) => [l.label_id, l.name], prefix
+        );
+
+      case 'value':
+        return [];
+
+      default:
+        // Unknown function or plain string: only offer entity IDs once a domain is typed
+        return prefix.includes('.') ? this.completeEntityId(prefix) : [];
+    }
+  }
+
+  /**
+   * Complete template function or filter names
+   */
+  private completeTemplateFunctions(prefix: string, asFilter: boolean): CompletionItem[] {
+    const items: CompletionItem[] = [];
+    const prefixLower = prefix.toLowerCase();
+
+    for (const fn of Object.values(TEMPLATE_FUNCTIONS)) {
+      if (asFilter ? !fn.filter : fn.functionCall === false) {
+        continue;
+      }
+      if (prefix && !fn.name.toLowerCase().startsWith(prefixLower)) {
+        continue;
+      }
+
+      items.push({
+        label: fn.name,
+        kind: asFilter ? CompletionItemKind.Method : CompletionItemKind.Function,
+        detail: fn.description,
+        documentation: {
+          kind: MarkupKind.Markdown,
+          value: formatTemplateFunctionDocumentation(fn),
+        },
+        insertText: this.getTemplateFunctionSnippet(fn, asFilter),
+        insertTextFormat: InsertTextFormat.Snippet,
+        sortText: fn.name,
+      });
+    }
+
+    logger.debug(`Template ${asFilter ? 'filter' : 'function'} completion: ${items.length} items`);
+    return items;
+  }
+
+  /**
+   * Build the snippet inserted for a template function or filter
+   */
+  private getTemplateFunctionSnippet(fn: TemplateFunction, asFilter: boolean): string {
+    // As a filter the piped value is the first parameter of a function
+    const parameters = asFilter && fn.functionCall !== false
+      ? fn.parameters.slice(1)
+      : fn.parameters;
+    const required = parameters.filter((p) => !p.optional);
+
+    if (asFilter && required.length === 0) {
+      return fn.name;
+    }
+    if (required.length === 0) {
+      return parameters.length > 0 ? `${fn.name}($1)` : `${fn.name}()`;
+    }
+
+    const args = required.map((p, i) => {
+      const placeholder = `\${${i + 1}:${p.name}}`;
+      return p.kind && p.kind !== 'value' ? `'${placeholder}'` : placeholder;
+    });
+    return `${fn.name}(${args.join(', ')})`;
+  }
+
+  /**
+   * Complete object IDs after `states.<domain>.`
+   */
+  private async completeStatesObject(prefix: string): Promise<CompletionItem[]> {
+    const items = await this.completeEntityId(prefix);
+
+    // Only the object ID follows the dot
+    return items.map((item) => {
+      const objectId = item.label.split('.')[1];
+      return { ...item, insertText: objectId, filterText: objectId };
+    });
+  }
+
+  /**
+   * Detect whether the cursor is on a key or value inside the
+   * `data:`/`target:` mapping of a service call
+   */
+  private async detectServiceDataContext(
+    lines: string[],
+    lineNumber: number,
+    textBeforeCursor: string
+  ): Promise<ServiceDataContext | null> {
+    // "    bright" (field name), "    brightness: 1" (value), "    - light.k" (list value)
+    const keyMatch = textBeforeCursor.match(/^(\s*)(-\s+)?([\w]*)$/);
+    const valueMatch = textBeforeCursor.match(/^(\s*)(-\s+)?([\w]+):\s*(.*)$/);
+    const listItemMatch = textBeforeCursor.match(/^(\s*)-\s+(.*)$/);
+
+    if (!keyMatch && !valueMatch && !listItemMatch) {
+      return null;
+    }
+
+    const entries = parseLines(lines);
+
+    // Resolve the mapping that holds the field
+    let mappingColumn: number;
+    let fieldName: string | null = null;
+    let prefix: string;
+    let context: ServiceDataContext['context'];
+
+    if (valueMatch) {
+      mappingColumn = valueMatch[1].length + (valueMatch[2]?.length || 0);
+      fieldName = valueMatch[3];
+      prefix = unquote(valueMatch[4]);
+      context = CompletionContext.SERVICE_DATA_VALUE;
+    } else if (keyMatch && !keyMatch[2]) {
+      mappingColumn = keyMatch[1].length;
+      prefix = keyMatch[3];
+      context = CompletionContext.SERVICE_DATA_FIELD;
+    } else {
+      // List item value: the parent key is the field
+      const indent = listItemMatch![1].length;
+      const fieldEntry = findParentEntry(entries, lineNumber, indent + 1);
+      if (!fieldEntry || fieldEntry.value !== '') {
+        return null;
+      }
+      mappingColumn = fieldEntry.keyColumn;
+      fieldName = fieldEntry.key;
+      prefix = unquote(listItemMatch![2]);
+      context = CompletionContext.SERVICE_DATA_VALUE;
+    }
+
+    const dataEntry = findParentEntry(entries, lineNumber, mappingColumn);
+    if (
+      !dataEntry ||
+      dataEntry.value !== '' ||
+      (!SERVICE_DATA_KEYS.includes(dataEntry.key!) && dataEntry.key !== 'target')
+    ) {
+      return null;
+    }
+
+    const serviceEntry = getSiblingEntries(entries, dataEntry.line).find((e) =>
+      SERVICE_KEYS.includes(e.key!)
+    );
+    if (!serviceEntry) {
+      return null;
+    }
+
+    const serviceName = unquote(serviceEntry.value);
+    let services: Services;
+    try {
+      services = await this.getServices();
+    } catch (error) {
+      logger.debug('Service data completion unavailable', error);
+      return null;
+    }
+
+    const service = findService(services, serviceName);
+    if (!service) {
+      return null;
+    }
+
+    const existingKeys = getChildEntries(entries, dataEntry.line)
+      .filter((e) => e.line !== lineNumber && e.key !== null)
+      .map((e) => e.key as string);
+
+    return {
+      context,
+      serviceName,
+      service,
+      isTarget: dataEntry.key === 'target',
+      fieldName,
+      existingKeys,
+      prefix,
+    };
+  }
+
+  /**
+   * Complete field names of a service data (or target) mapping
+   */
+  private completeServiceDataField(dataContext: ServiceDataContext): CompletionItem[] {
+    const { service, serviceName, existingKeys, prefix } = dataContext;
+    const items: CompletionItem[] = [];
+    const prefixLower = prefix.toLowerCase();
+
+    const fields: [string, ServiceField][] = dataContext.isTarget
+      ? []
+      : Object.entries(getServiceFields(service));
+
+    // Target keys are accepted in both target and data mappings
+    if (hasTarget(service)) {
+      for (const targetField of TARGET_FIELDS) {
+        const targetType = targetField.replace('_id', '');
+        fields.push([
+          targetField,
+          { description: `Target ${targetType}(s) of the service call` },
+        ]);
+      }
+    }
+
+    for (const [fieldName, field] of fields) {
+      if (existingKeys.includes(fieldName)) {
+        continue;
+      }
+      if (prefix && !fieldName.toLowerCase().startsWith(prefixLower)) {
+        continue;
+      }
+
+      const placeholder = this.getFieldPlaceholder(field);
+      items.push({
+        label: fieldName,
+        kind: CompletionItemKind.Field,
+        detail: `${field.name || fieldName}${field.required ? ' (required)' : ''}`,
+        documentation: {
+          kind: MarkupKind.Markdown,
+          value: formatFieldDocumentation(serviceName, fieldName, field),
+        },
+        insertText: placeholder !== null
+          ? `${fieldName}: \${1:${this.escapeSnippet(placeholder)}}`
+          : `${fieldName}: $0`,
+        insertTextFormat: InsertTextFormat.Snippet,
+        // Required fields first
+        sortText: `${field.required ? '0' : '1'}_${fieldName}`,
+      });
+    }
+
+    logger.debug(`Service data field completion: ${items.length} items for ${serviceName}`);
+    return items;
+  }
+
+  /**
+   * Complete the value of a service data field from its selector
+   */
+  private async completeServiceDataValue(
+    dataContext: ServiceDataContext
+  ): Promise<CompletionItem[] | null> {
+    const { service, fieldName, prefix } = dataContext;
+    if (!fieldName) {
+      return null;
+    }
+
+    let selector: Selector | undefined;
+    if (TARGET_FIELDS.includes(fieldName) && hasTarget(service)) {
+      selector = this.getTargetSelector(fieldName, service);
+    } else if (!dataContext.isTarget) {
+      selector = getServiceFields(service)[fieldName]?.selector;
+    }
+
+    if (!selector) {
+      return null;
+    }
+
+    // Selectors have a single key, the selector type (options may be null)
+    const [selectorType] = Object.keys(selector);
+
+    switch (selectorType) {
+      case 'select':
+        return this.completeSelectOptions(selector.select || {}, prefix);
+
+      case 'boolean':
+        return this.filterValues(['true', 'false'], prefix, CompletionItemKind.Value);
+
+      case 'number':
+        return this.completeNumber(
+          selector.number || {},
+          getServiceFields(service)[fieldName],
+          prefix
+        );
+
+      case 'entity':
+        return this.completeEntityIdFiltered(prefix, this.getEntityFilters(selector.entity || {}));
+
+      case 'area':
+        return this.completeRegistry<AreaRegistryEntry>(
+          CacheKeys.AREAS, () => this.haClient.getAreaRegistry(),
+          (a) => [a.area_id, a.name], prefix
+        );
+
+      case 'device':
+        return this.completeRegistry<DeviceRegistryEntry>(
+          CacheKeys.DEVICES, () => this.haClient.getDeviceRegistry(),
+          (d) => [d.id, d.name_by_user || d.name || d.id], prefix
+        );
+
+      case 'floor':
+        return this.completeRegistry<FloorRegistryEntry>(
+          CacheKeys.FLOORS, () => this.haClient.getFloorRegistry(),
+          (f) => [f.floor_id, f.name], prefix
+        );
+
+      case 'label':
+        return this.completeRegistry<LabelRegistryEntry>(
+          CacheKeys.LABELS, () => this.haClient.getLabelRegistry(),
+          (l) => [l.label_id, l.name], prefix
+        );
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Build a selector for a target key from the service's target filter
+   */
+  private getTargetSelector(fieldName: string, service: Service): Selector {
+    switch (fieldName) {
+      case 'entity_id': {
+        // target.entity is a filter object or a list of filter objects
+        const entityTarget = service.target?.entity;
+        return { entity: { filter: entityTarget || [] } };
+      }
+      case 'device_id':
+        return { device: {} };
+      case 'area_id':
+        return { area: {} };
+      case 'floor_id':
+        return { floor: {} };
+      default:
+        return { label: {} };
+    }
+  }
+
+  /**
+   * Normalize entity selector options into a list of filters
+   */
+  private getEntityFilters(options: EntitySelector): EntityFilter[] {
+    if (options.filter) {
+      return Array.isArray(options.filter) ? options.filter : [options.filter];
+    }
+    if (options.domain || options.device_class || options.integration) {
+      return [
+        {
+          integration: options.integration,
+          domain: options.domain,
+          device_class: options.device_class,
+        },
+      ];
+    }
+    return [];
+  }
+
+  /**
+   * Complete entity IDs matching any of the given filters
+   */
+  private async completeEntityIdFiltered(
+    prefix: string,
+    filters: EntityFilter[]
+  ): Promise<CompletionItem[]> {
+    const toList = (value?: string | string[]) =>
+      value === undefined ? null : Array.isArray(value) ? value : [value];
+
+    // The integration of an entity is the platform in the entity registry
+    const platforms = new Map<string, string>();
+    if (filters.some((filter) => filter.integration)) {
+      for (const entry of await this.getEntityRegistry()) {
+        platforms.set(entry.entity_id, entry.platform);
+      }
+    }
+
+    const matchesFilter = (entity: Entity) => {
+      if (filters.length === 0) {
+        return true;
+      }
+      const [domain] = entity.entity_id.split('.');
+      return filters.some((filter) => {
+        const domains = toList(filter.domain);
+        const deviceClasses = toList(filter.device_class);
+        if (filter.integration && platforms.get(entity.entity_id) !== filter.integration) {
+          return false;
+        }
+        if (domains && !domains.includes(domain)) {
+          return false;
+        }
+        if (deviceClasses && !deviceClasses.includes(entity.attributes?.device_class)) {
+          return false;
+        }
+        return true;
+      });
+    };
+
+    const entities = await this.getEntities();
+    const prefixLower = prefix.toLowerCase();
+    const items: CompletionItem[] = [];
+
+    for (const entity of entities) {
+      if (!entity || !entity.entity_id || !matchesFilter(entity)) {
+        continue;
+      }
+      if (prefix && !entity.entity_id.toLowerCase().startsWith(prefixLower)) {
+        continue;
+      }
+      items.push(this.createEntityItem(entity));
+    }
+
+    logger.debug(`Filtered entity completion: ${items.length} items for prefix "${prefix}"`);
+    return items.slice(0, this.maxResults);
+  }
+
+  /**
+   * Complete options of a select selector
+   */
+  private completeSelectOptions(options: SelectSelector, prefix: string): CompletionItem[] {
+    const items: CompletionItem[] = [];
+    const prefixLower = prefix.toLowerCase();
+
+    for (const option of options.options || []) {
+      // Options are plain strings or { value, label } objects
+      const value = typeof option === 'object' ? String(option.value) : String(option);
+      const label = typeof option === 'object' ? option.label : undefined;
+
+      if (prefix && !value.toLowerCase().startsWith(prefixLower)) {
+        continue;
+      }
+
+      items.push({
+        label: value,
+        kind: CompletionItemKind.EnumMember,
+        detail: label,
+        insertText: value,
+      });
+    }
+
+    return items;
+  }
+
+  /**
+   * Complete a number selector with its bounds and default
+   */
+  private completeNumber(
+    options: NumberSelector,
+    field: ServiceField | undefined,
+    prefix: string
+  ): CompletionItem[] {
+    const unit = options.unit_of_measurement ? ` ${options.unit_of_measurement}` : '';
+    const range = `${options.min ?? '-∞'}–${options.max ?? '∞'}${unit}`;
+    const values: [string, string][] = [];
+
+    if (field?.default !== undefined) {
+      values.push([String(field.default), `Default (range ${range})`]);
+    }
+    if (options.min !== undefined) {
+      values.push([String(options.min), `Minimum (range ${range})`]);
+    }
+    if (options.max !== undefined) {
+      values.push([String(options.max), `Maximum (range ${range})`]);
+    }
+
+    const seen = new Set<string>();
+    return values
+      .filter(([value]) => {
+        if (seen.has(value) || (prefix && !value.startsWith(prefix))) {
+          return false;
+        }
+        seen.add(value);
+        return true;
+      })
+      .map(([value, detail]) => ({
+        label: value,
+        kind: CompletionItemKind.Value,
+        detail,
+        insertText: value,
+      }));
+  }
+
+  /**
+   * Complete registry IDs (areas, devices, floors, labels)
+   */
+  private async completeRegistry<T>(
+    key: string,
+    fetchFn: () => Promise<T[]>,
+    describe: (entry: T) => [string, string],
+    prefix: string
+  ): Promise<CompletionItem[]> {
+    let entries: T[];
+    try {
+      entries = await this.cache.getOrFetch(key, fetchFn, 600); // 10 minutes TTL
+    } catch (error) {
+      logger.debug(`Registry completion unavailable: ${key}`, error);
+      return [];
+    }
+
+    const prefixLower = prefix.toLowerCase();
+    const items: CompletionItem[] = [];
+
+    for (const entry of entries) {
+      const [id, name] = describe(entry);
+      if (
+        prefix &&
+        !id.toLowerCase().startsWith(prefixLower) &&
+        !name.toLowerCase().startsWith(prefixLower)
+      ) {
+        continue;
+      }
+
+      items.push({
+        label: id,
+        kind: CompletionItemKind.Reference,
+        detail: name,
+        filterText: `${id} ${name}`,
+        insertText: id,
+      });
+    }
+
+    return items.slice(0, this.maxResults);
+  }
+
+  /**
+   * Complete a fixed list of values
+   */
+  private filterValues(
+    values: string[],
+    prefix: string,
+    kind: CompletionItemKind
+  ): CompletionItem[] {
+    return values
+      .filter((value) => !prefix || value.startsWith(prefix.toLowerCase()))
+      .map((value) => ({ label: value, kind, insertText: value }));
+  }
+
+  /**
+   * Get the value inserted for a field: its default, else its example
+   */
+  private getFieldPlaceholder(field: ServiceField): string | null {
+    const value = field.default !== undefined ? field.default : field.example;
+    if (value === undefined || value === null) {
+      return null;
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  /**
+   * Escape snippet syntax characters in placeholder text
+   */
+  private escapeSnippet(text: string): string {
+    return text.replace(/[\\$}]/g, (char) => `\\${char}`);
+  }
+
   /**
    * Extract the prefix for filtering
    */
@@ -170,25 +956,11 @@ export class CompletionProvider {
         }
       }
 
-      const friendlyName = entity.attributes?.friendly_name || entity.entity_id;
-      const state = entity.state || 'unknown';
-      const unit = entity.attributes?.unit_of_measurement || '';
-
-      items.push({
-        label: entity.entity_id,
-        kind: CompletionItemKind.Value,
-        detail: `${friendlyName} (${state}${unit ? ' ' + unit : ''})`,
-        documentation: {
-          kind: MarkupKind.Markdown,
-          value: this.formatEntityDocumentation(entity),
-        },
-        insertText: entity.entity_id,
-        sortText: entity.entity_id,
-      });
+      items.push(this.createEntityItem(entity));
     }
 
     logger.debug(`Entity completion: ${items.length} items matched for prefix "${prefix}"`);
-    return items.slice(0, 50); // Limit to 50 items
+    return items.slice(0, this.maxResults);
   }
 
   /**
@@ -279,20 +1051,35 @@ export class CompletionProvider {
     }
 
     logger.debug(`Service completion: ${items.length} items for prefix "${prefix}"`);
-    return items.slice(0, 50); // Limit to 50 items
+    return items.slice(0, this.maxResults);
   }
 
   /**
    * Get entities from cache or Home Assistant
    */
   private async getEntities(): Promise<Entity[]> {
-    return this.cache.getOrFetch(
-      CacheKeys.ENTITIES,
-      () => this.haClient.getStates(),
-      300 // 5 minutes TTL
+    // Entity states use the default TTL (cache.ttl setting)
+    return this.cache.getOrFetch(CacheKeys.ENTITIES, () =>
+      this.haClient.getStates()
     );
   }
 
+  /**
+   * Get the entity registry from cache or Home Assistant (empty when unavailable)
+   */
+  private async getEntityRegistry(): Promise<EntityRegistryEntry[]> {
+    try {
+      return await this.cache.getOrFetch(
+        CacheKeys.ENTITY_REGISTRY,
+        () => this.haClient.getEntityRegistry(),
+        600 // 10 minutes TTL
+      );
+    } catch (error) {
+      logger.debug('Entity registry unavailable for integration filters', error);
+      return [];
+    }
+  }
+
   /**
    * Get services from cache or Home Assistant
    */
@@ -304,6 +1091,27 @@ export class CompletionProvider {
     );
   }
 
+  /**
+   * Create a completion item for an entity
+   */
+  private createEntityItem(entity: Entity): CompletionItem {
+    const friendlyName = entity.attributes?.friendly_name || entity.entity_id;
+    const state = entity.state || 'unknown';
+    const unit = entity.attributes?.unit_of_measurement || '';
+
+    return {
+      label: entity.entity_id,
+      kind: CompletionItemKind.Value,
+      detail: `${friendlyName} (${state}${unit ? ' ' + unit : ''})`,
+      documentation: {
+        kind: MarkupKind.Markdown,
+        value: this.formatEntityDocumentation(entity),
+      },
+      insertText: entity.entity_id,
+      sortText: entity.entity_id,
+    };
+  }
+
   /**
    * Format entity documentation
    */
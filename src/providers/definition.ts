@@ -0,0 +1,250 @@
+/**
+ * Definition Provider
+ * Resolves !include, !include_dir_* and !secret tags to files and secrets
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  Location,
+  Range,
+  TextDocumentPositionParams,
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getLogger } from '../utils/logger';
+import { uriToPath, pathToUri } from '../utils/uri';
+import { unquote } from '../utils/yaml';
+
+const logger = getLogger('DefinitionProvider');
+
+/**
+ * YAML tags that reference other files or secrets (longest first)
+ */
+const TAG_PATTERN =
+  /(!include_dir_merge_named|!include_dir_merge_list|!include_dir_named|!include_dir_list|!include|!secret)\s+("[^"]*"|'[^']*'|[^\s#,\]}]+)/;
+
+/**
+ * Name of the file holding !secret values
+ */
+const SECRETS_FILE = 'secrets.yaml';
+
+/**
+ * Start of a file, used as the target range for included files
+ */
+const FILE_START: Range = {
+  start: { line: 0, character: 0 },
+  end: { line: 0, character: 0 },
+};
+
+/**
+ * Definition Provider
+ */
+export class DefinitionProvider {
+  private getWorkspaceFolders: () => string[];
+
+  constructor(getWorkspaceFolders: () => string[]) {
+    this.getWorkspaceFolders = getWorkspaceFolders;
+  }
+
+  /**
+   * Provide definition locations
+   */
+  provideDefinition(
+    document: TextDocument,
+    position: TextDocumentPositionParams
+  ): Location[] | null {
+    try {
+      const documentPath = uriToPath(document.uri);
+      if (!documentPath) {
+        return null;
+      }
+
+      const line = document.getText({
+        start: { line: position.position.line, character: 0 },
+        end: { line: position.position.line + 1, character: 0 },
+      });
+
+      const tag = this.extractTag(line, position.position.character);
+      if (!tag) {
+        return null;
+      }
+
+      logger.debug(`Definition requested for: ${tag.name} ${tag.argument}`);
+
+      const baseDir = path.dirname(documentPath);
+
+      if (tag.name === '!secret') {
+        return this.resolveSecret(baseDir, tag.argument);
+      }
+
+      if (tag.name === '!include') {
+        const filePath = this.resolvePath(baseDir, tag.argument, 'file');
+        return filePath ? [Location.create(pathToUri(filePath), FILE_START)] : null;
+      }
+
+      // !include_dir_* tags
+      const dirPath = this.resolvePath(baseDir, tag.argument, 'directory');
+      if (!dirPath) {
+        return null;
+      }
+
+      const files = this.findYamlFiles(dirPath);
+      return files.length > 0
+        ? files.map((file) => Location.create(pathToUri(file), FILE_START))
+        : null;
+    } catch (error) {
+      logger.error('Definition provider error', error);
+      return null;
+    }
+  }
+
+  /**
+   * Extract the tag and its argument at the cursor position
+   */
+  private extractTag(
+    line: string,
+    cursorPos: number
+  ): { name: string; argument: string } | null {
+    const tagPattern = new RegExp(TAG_PATTERN.source, 'g');
+    let match;
+
+    while ((match = tagPattern.exec(line)) !== null) {
+      const start = match.index;
+      const end = start + match[0].length;
+
+      // Check if cursor is on the tag or its argument
+      if (cursorPos >= start && cursorPos <= end) {
+        return { name: match[1], argument: unquote(match[2]) };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve a path relative to the document, falling back to workspace folders
+   */
+  private resolvePath(
+    baseDir: string,
+    target: string,
+    kind: 'file' | 'directory'
+  ): string | null {
+    const candidates = path.isAbsolute(target)
+      ? [target]
+      : [
+          path.resolve(baseDir, target),
+          ...this.getWorkspaceFolders().map((folder) => path.resolve(folder, target)),
+        ];
+
+    for (const candidate of candidates) {
+      try {
+        const stat = fs.statSync(candidate);
+        if (kind === 'file' ? stat.isFile() : stat.isDirectory()) {
+          return candidate;
+        }
+      } catch {
+        // Try the next candidate
+      }
+    }
+
+    logger.debug(`Could not resolve ${kind}: ${target}`);
+    return null;
+  }
+
+  /**
+   * Find YAML files in a directory the way Home Assistant loads them
+   * (recursive, skipping hidden files and directories)
+   */
+  private findYamlFiles(dirPath: string): string[] {
+    const files: string[] = [];
+
+    const walk = (dir: string) => {
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+
+      for (const entry of entries) {
+        if (entry.name.startsWith('.')) {
+          continue;
+        }
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          walk(fullPath);
+        } else if (entry.isFile() && /\.ya?ml$/i.test(entry.name)) {
+          files.push(fullPath);
+        }
+      }
+    };
+
+    walk(dirPath);
+    return files.sort();
+  }
+
+  /**
+   * Resolve a secret to its key in the nearest secrets.yaml
+   */
+  private resolveSecret(baseDir: string, key: string): Location[] | null {
+    for (const secretsPath of this.findSecretsFiles(baseDir)) {
+      let content: string;
+      try {
+        content = fs.readFileSync(secretsPath, 'utf8');
+      } catch {
+        continue;
+      }
+
+      const lines = content.split('\n');
+      for (let lineNumber = 0; lineNumber < lines.length; lineNumber++) {
+        const match = lines[lineNumber].match(/^(["']?)([^"':#]+)\1\s*:/);
+        if (match && match[2].trim() === key) {
+          const character = match[1].length;
+          return [
+            Location.create(pathToUri(secretsPath), {
+              start: { line: lineNumber, character },
+              end: { line: lineNumber, character: character + key.length },
+            }),
+          ];
+        }
+      }
+    }
+
+    logger.debug(`Secret not found: ${key}`);
+    return null;
+  }
+
+  /**
+   * List secrets.yaml files from the document directory up to its workspace
+   * folder (nearest first), like Home Assistant's secret lookup
+   */
+  private findSecretsFiles(baseDir: string): string[] {
+    const root = this.getWorkspaceFolders()
+      .filter((folder) => this.isInside(baseDir, folder))
+      .sort((a, b) => b.length - a.length)[0];
+
+    const files: string[] = [];
+
+    for (let dir = baseDir; ; dir = path.dirname(dir)) {
+      const candidate = path.join(dir, SECRETS_FILE);
+      if (fs.existsSync(candidate)) {
+        files.push(candidate);
+      }
+
+      // Stop at the workspace folder or the file system root
+      if ((root && path.resolve(dir) === path.resolve(root)) || path.dirname(dir) === dir) {
+        break;
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Check whether a path is inside (or equal to) a folder
+   */
+  private isInside(filePath: string, folder: string): boolean {
+    const relative = path.relative(folder, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+}
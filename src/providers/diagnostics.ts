@@ -0,0 +1,358 @@
+/**
+ * Diagnostics Provider
+ * Reports references to entities that do not exist in Home Assistant
+ */
+
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { HomeAssistantClient } from '../ha-client';
+import { Cache, CacheKeys } from '../cache';
+import { Entity, Service, Services } from '../types/homeassistant';
+import { getLogger } from '../utils/logger';
+import {
+  YamlEntry,
+  parseLines,
+  getSiblingEntries,
+  getChildEntries,
+  stripComment,
+  unquote,
+} from '../utils/yaml';
+import {
+  SERVICE_KEYS,
+  SERVICE_DATA_KEYS,
+  TARGET_FIELDS,
+  findService,
+  getServiceFields,
+  hasTarget,
+} from '../utils/services';
+import { isEntityReference } from '../utils/entities';
+
+const logger = getLogger('DiagnosticsProvider');
+
+/**
+ * Diagnostic source reported to the client
+ */
+export const DIAGNOSTIC_SOURCE = 'homeassistant';
+
+/**
+ * Diagnostic codes emitted by this provider
+ */
+export enum DiagnosticCode {
+  UNKNOWN_ENTITY = 'unknown-entity',
+  UNKNOWN_SERVICE = 'unknown-service',
+  MISSING_REQUIRED_FIELD = 'missing-required-field',
+  UNKNOWN_SERVICE_FIELD = 'unknown-service-field',
+}
+
+/**
+ * Languages and file extensions that are checked
+ */
+const SUPPORTED_LANGUAGES = ['yaml', 'yaml.homeassistant', 'python'];
+const SUPPORTED_EXTENSIONS = ['.yaml', '.yml', '.py'];
+
+/**
+ * Full service name pattern (domain.service)
+ */
+const SERVICE_NAME_PATTERN = /^[a-z_][a-z0-9_]*\.[a-z0-9_]+$/;
+
+/**
+ * Diagnostics Provider
+ */
+export class DiagnosticsProvider {
+  private haClient: HomeAssistantClient;
+  private cache: Cache;
+
+  constructor(haClient: HomeAssistantClient, cache: Cache) {
+    this.haClient = haClient;
+    this.cache = cache;
+  }
+
+  /**
+   * Check whether a document should be validated
+   */
+  isSupported(document: TextDocument): boolean {
+    if (SUPPORTED_LANGUAGES.includes(document.languageId)) {
+      return true;
+    }
+    const uri = document.uri.toLowerCase();
+    return SUPPORTED_EXTENSIONS.some((ext) => uri.endsWith(ext));
+  }
+
+  /**
+   * Check whether a document is a YAML file
+   */
+  private isYaml(document: TextDocument): boolean {
+    if (document.languageId.startsWith('yaml')) {
+      return true;
+    }
+    return /\.ya?ml$/i.test(document.uri);
+  }
+
+  /**
+   * Provide diagnostics for a document
+   */
+  async provideDiagnostics(document: TextDocument): Promise<Diagnostic[]> {
+    if (!this.isSupported(document)) {
+      return [];
+    }
+
+    let entities: Entity[];
+    let services: Services;
+    try {
+      entities = await this.getEntities();
+      services = await this.getServices();
+    } catch {
+      // Without the entity list every reference would be reported, so skip
+      logger.debug('Skipping diagnostics, Home Assistant data unavailable', {
+        uri: document.uri,
+      });
+      return [];
+    }
+
+    const diagnostics: Diagnostic[] = [];
+
+    if (entities && entities.length > 0) {
+      diagnostics.push(...this.validateEntityIds(document, entities, services));
+    }
+
+    if (services && Object.keys(services).length > 0 && this.isYaml(document)) {
+      diagnostics.push(...this.validateServiceCalls(document, services));
+    }
+
+    logger.debug(`Diagnostics: ${diagnostics.length} issues in ${document.uri}`);
+    return diagnostics;
+  }
+
+  /**
+   * Report entity IDs whose domain is known but which do not exist
+   */
+  private validateEntityIds(
+    document: TextDocument,
+    entities: Entity[],
+    services: Services
+  ): Diagnostic[] {
+    const entityIds = new Set<string>();
+    const domains = new Set<string>();
+    for (const entity of entities) {
+      if (!entity || !entity.entity_id) {
+        continue;
+      }
+      entityIds.add(entity.entity_id);
+      domains.add(entity.entity_id.split('.')[0]);
+    }
+
+    const diagnostics: Diagnostic[] = [];
+    const lines = document.getText().split('\n');
+
+    for (let lineNumber = 0; lineNumber < lines.length; lineNumber++) {
+      const line = stripComment(lines[lineNumber]);
+
+      // Entity ID pattern: domain.object_id not embedded in a longer dotted path
+      const entityIdPattern = /(?<![\w.])([a-z_][a-z0-9_]*)\.([a-z0-9_]+)(?![\w.(])/g;
+      let match;
+
+      while ((match = entityIdPattern.exec(line)) !== null) {
+        const [entityId, domain] = match;
+
+        // Only report tokens that look like entities of a domain HA knows
+        if (!domains.has(domain) || entityIds.has(entityId)) {
+          continue;
+        }
+
+        // Service names are checked against the service list instead;
+        // also skips !include sensor.yaml, !secret light.key
+        if (!isEntityReference(line, match.index, entityId, services)) {
+          continue;
+        }
+
+        diagnostics.push(
+          this.createDiagnostic(
+            lineNumber,
+            match.index,
+            match.index + entityId.length,
+            `Unknown entity: ${entityId}`,
+            DiagnosticCode.UNKNOWN_ENTITY,
+            { entityId }
+          )
+        );
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Report unknown services, missing required fields and unknown data keys
+   */
+  private validateServiceCalls(document: TextDocument, services: Services): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const entries = parseLines(document.getText().split('\n'));
+
+    for (const entry of entries) {
+      if (!entry || entry.key === null || !SERVICE_KEYS.includes(entry.key)) {
+        continue;
+      }
+
+      const serviceName = unquote(entry.value);
+      if (!SERVICE_NAME_PATTERN.test(serviceName)) {
+        // Empty values, templates and non-service values (e.g. "action: toggle")
+        continue;
+      }
+
+      const service = findService(services, serviceName);
+      if (!service) {
+        diagnostics.push(
+          this.createDiagnostic(
+            entry.line,
+            entry.valueColumn,
+            entry.valueColumn + entry.value.length,
+            `Unknown service: ${serviceName}`,
+            DiagnosticCode.UNKNOWN_SERVICE,
+            { service: serviceName }
+          )
+        );
+        continue;
+      }
+
+      const siblings = getSiblingEntries(entries, entry.line);
+      const dataEntry = siblings.find((e) => SERVICE_DATA_KEYS.includes(e.key!)) || null;
+
+      // Templated or inline data cannot be checked line by line
+      if ((dataEntry && dataEntry.value !== '') || siblings.some((e) => e.key === 'data_template')) {
+        continue;
+      }
+
+      const dataKeys = dataEntry ? getChildEntries(entries, dataEntry.line) : [];
+      diagnostics.push(
+        ...this.validateServiceData(serviceName, service, entry, siblings, dataKeys)
+      );
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Validate the data keys of a single service call
+   */
+  private validateServiceData(
+    serviceName: string,
+    service: Service,
+    serviceEntry: YamlEntry,
+    siblings: YamlEntry[],
+    dataKeys: YamlEntry[]
+  ): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const fields = getServiceFields(service);
+    const acceptsTarget = hasTarget(service);
+    const targetEntry = siblings.find((e) => e.key === 'target');
+    const provided = new Set(
+      dataKeys.filter((e) => e.key !== null).map((e) => e.key as string)
+    );
+
+    // Missing required fields
+    const missing = Object.entries(fields)
+      .filter(([fieldName, field]) => field.required && !provided.has(fieldName))
+      .map(([fieldName]) => fieldName);
+
+    if (missing.length > 0) {
+      diagnostics.push(
+        this.createDiagnostic(
+          serviceEntry.line,
+          serviceEntry.valueColumn,
+          serviceEntry.valueColumn + serviceEntry.value.length,
+          `Service ${serviceName} is missing required field${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}`,
+          DiagnosticCode.MISSING_REQUIRED_FIELD,
+          { service: serviceName, fields: missing }
+        )
+      );
+    }
+
+    // Services without field metadata may accept arbitrary data (e.g. python_script)
+    if (Object.keys(fields).length === 0 && !acceptsTarget) {
+      return diagnostics;
+    }
+
+    for (const dataKey of dataKeys) {
+      if (dataKey.key === null || fields[dataKey.key]) {
+        continue;
+      }
+      if (acceptsTarget && TARGET_FIELDS.includes(dataKey.key)) {
+        continue;
+      }
+
+      diagnostics.push(
+        this.createDiagnostic(
+          dataKey.line,
+          dataKey.keyColumn,
+          dataKey.keyColumn + dataKey.key.length,
+          `Service ${serviceName} does not accept field '${dataKey.key}'`,
+          DiagnosticCode.UNKNOWN_SERVICE_FIELD,
+          { service: serviceName, field: dataKey.key }
+        )
+      );
+    }
+
+    if (targetEntry && !acceptsTarget) {
+      diagnostics.push(
+        this.createDiagnostic(
+          targetEntry.line,
+          targetEntry.keyColumn,
+          targetEntry.keyColumn + 'target'.length,
+          `Service ${serviceName} does not accept a target`,
+          DiagnosticCode.UNKNOWN_SERVICE_FIELD,
+          { service: serviceName, field: 'target' }
+        )
+      );
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Create a single-line warning diagnostic
+   */
+  private createDiagnostic(
+    line: number,
+    startCharacter: number,
+    endCharacter: number,
+    message: string,
+    code: DiagnosticCode,
+    data?: Record<string, unknown>
+  ): Diagnostic {
+    return {
+      severity: DiagnosticSeverity.Warning,
+      range: {
+        start: { line, character: startCharacter },
+        end: { line, character: endCharacter },
+      },
+      message,
+      source: DIAGNOSTIC_SOURCE,
+      code,
+      data,
+    };
+  }
+
+  /**
+   * Get entities from cache or Home Assistant
+   */
+  private async getEntities(): Promise<Entity[]> {
+    // Entity states use the default TTL (cache.ttl setting)
+    return this.cache.getOrFetch(CacheKeys.ENTITIES, () =>
+      this.haClient.getStates()
+    );
+  }
+
+  /**
+   * Get services from cache or Home Assistant
+   */
+  private async getServices(): Promise<Services> {
+    return this.cache.getOrFetch(
+      CacheKeys.SERVICES,
+      () => this.haClient.getServices(),
+      600 // 10 minutes TTL
+    );
+  }
+}
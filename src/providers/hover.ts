@@ -1,6 +1,7 @@
 /**
  * Hover Provider
- * Displays entity information on hover
+ * Displays entity, service, domain and registry information, template
+ * function docs and template previews on hover
  */
 
 import {
@@ -11,11 +12,54 @@ import {
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { HomeAssistantClient } from '../ha-client';
 import { Cache, CacheKeys } from '../cache';
-import { Entity } from '../types/homeassistant';
+import {
+  AreaRegistryEntry,
+  DeviceRegistryEntry,
+  Entity,
+  EntityRegistryEntry,
+  LabelRegistryEntry,
+  RenderTemplateResult,
+  Service,
+  Services,
+} from '../types/homeassistant';
 import { getLogger } from '../utils/logger';
+import { extractEntityIdAt, formatState, isFileOrTagValue } from '../utils/entities';
+import { parseLine, parseLines, findParentEntry, unquote } from '../utils/yaml';
+import { SERVICE_KEYS, findService, getServiceFields, hasTarget } from '../utils/services';
+import {
+  isInsideTemplate,
+  getTemplateFunctionAt,
+  getTemplateTextAt,
+  formatTemplateFunctionDocumentation,
+} from '../utils/jinja';
 
 const logger = getLogger('HoverProvider');
 
+/**
+ * Registry kinds whose IDs are hovered in `area_id:`, `device_id:` and `label_id:`
+ */
+type RegistryKind = 'area' | 'device' | 'label';
+
+const REGISTRY_FIELDS: Record<string, RegistryKind> = {
+  area_id: 'area',
+  device_id: 'device',
+  label_id: 'label',
+};
+
+/**
+ * Member entities listed in registry hovers
+ */
+const MAX_MEMBERS = 10;
+
+/**
+ * YAML value (or key) under the cursor
+ */
+interface YamlField {
+  key: string; // key of the value, or of the list the value belongs to
+  onKey: boolean; // cursor is on the key itself
+  isTopLevel: boolean; // key of an integration block in configuration.yaml
+}
+
 /**
  * Hover Provider
  */
@@ -44,17 +88,47 @@ export class HoverProvider {
 
       const cursorPos = position.position.character;
 
+      // Template functions and filters are documented without a connection
+      const inTemplate = isInsideTemplate(document.getText(), document.offsetAt(position.position));
+      if (inTemplate) {
+        const templateFunction = getTemplateFunctionAt(line, cursorPos);
+        if (templateFunction) {
+          return {
+            contents: {
+              kind: MarkupKind.Markdown,
+              value: formatTemplateFunctionDocumentation(templateFunction.fn),
+            },
+            range: {
+              start: { line: position.position.line, character: templateFunction.start },
+              end: { line: position.position.line, character: templateFunction.end },
+            },
+          };
+        }
+      }
+
+      // Services, domains and registry IDs are recognised by their YAML key
+      if (!inTemplate && this.isYaml(document)) {
+        const fieldHover = await this.provideFieldHover(document, position, line);
+        if (fieldHover) {
+          return fieldHover;
+        }
+      }
+
       // Extract entity ID at cursor position
       const entityId = this.extractEntityId(line, cursorPos);
 
       if (!entityId) {
-        return null;
+        // Anywhere else in a template, preview its rendered result
+        return inTemplate ? await this.provideTemplatePreview(document, position) : null;
       }
 
       logger.debug(`Hover requested for: ${entityId}`);
 
-      // Check if client is connected
-      if (!this.haClient.isConnected()) {
+      // Get entity information (from the offline snapshot when disconnected)
+      let entity: Entity | null;
+      try {
+        entity = await this.getEntity(entityId);
+      } catch {
         return {
           contents: {
             kind: MarkupKind.Markdown,
@@ -63,10 +137,13 @@ export class HoverProvider {
         };
       }
 
-      // Get entity information
-      const entity = await this.getEntity(entityId);
-
       if (!entity) {
+        // Services look like entity IDs (e.g. perform_action: light.turn_on in dashboards)
+        const serviceHover = await this.provideServiceHover(entityId).catch(() => null);
+        if (serviceHover) {
+          return serviceHover;
+        }
+
         return {
           contents: {
             kind: MarkupKind.Markdown,
@@ -81,7 +158,7 @@ export class HoverProvider {
       return {
         contents: {
           kind: MarkupKind.Markdown,
-          value: content,
+          value: this.addSnapshotNote(content, CacheKeys.ENTITIES),
         },
       };
     } catch (error) {
@@ -91,19 +168,171 @@ export class HoverProvider {
   }
 
   /**
-   * Extract entity ID from line at cursor position
+   * Render the template at the cursor and show its result and listeners
    */
-  private extractEntityId(line: string, cursorPos: number): string | null {
-    // Entity ID pattern: domain.entity_name (e.g., sensor.temperature)
-    const entityIdPattern = /\b([a-z_]+\.[a-z0-9_]+)\b/gi;
-    let match;
+  private async provideTemplatePreview(
+    document: TextDocument,
+    position: TextDocumentPositionParams
+  ): Promise<Hover | null> {
+    if (!this.haClient.isConnected()) {
+      return null;
+    }
 
-    while ((match = entityIdPattern.exec(line)) !== null) {
-      const start = match.index;
-      const end = start + match[0].length;
+    const template = getTemplateTextAt(
+      document.getText(),
+      document.offsetAt(position.position),
+      this.isYaml(document)
+    );
+    if (!template) {
+      return null;
+    }
+
+    logger.debug('Template preview requested', { length: template.length });
+
+    // Repeated hovers over an unchanged document reuse the rendered preview
+    const content = await this.cache.getOrFetch(
+      CacheKeys.TEMPLATE_PREVIEW(document.uri, document.version, template),
+      () => this.renderTemplatePreview(template),
+      10 // 10 seconds TTL, results follow entity states
+    );
+
+    return {
+      contents: {
+        kind: MarkupKind.Markdown,
+        value: content,
+      },
+    };
+  }
+
+  /**
+   * Render a template, formatting errors as part of the preview
+   */
+  private async renderTemplatePreview(template: string): Promise<string> {
+    try {
+      const rendered = await this.haClient.renderTemplate(template);
+      return this.formatTemplatePreview(rendered);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return `❌ **Template error**\n\n\`\`\`text\n${message}\n\`\`\``;
+    }
+  }
+
+  /**
+   * Format a rendered template for hover display
+   */
+  private formatTemplatePreview(rendered: RenderTemplateResult): string {
+    const result =
+      typeof rendered.result === 'string'
+        ? rendered.result
+        : JSON.stringify(rendered.result, null, 2);
+
+    let content = `### Template Result\n\n\`\`\`text\n${result}\n\`\`\`\n\n`;
+
+    const listeners = rendered.listeners;
+    if (listeners) {
+      const sources: string[] = [];
+      if (listeners.all) {
+        sources.push('all state changes');
+      }
+      if (listeners.entities.length > 0) {
+        sources.push(listeners.entities.map((e) => `\`${e}\``).join(', '));
+      }
+      if (listeners.domains.length > 0) {
+        sources.push(`domains ${listeners.domains.map((d) => `\`${d}\``).join(', ')}`);
+      }
+      if (listeners.time) {
+        sources.push('time');
+      }
+      content += `**Listens to:** ${sources.length > 0 ? sources.join(' · ') : 'nothing (static)'}\n\n`;
+    }
+
+    for (const warning of rendered.warnings || []) {
+      content += `⚠️ ${warning}\n\n`;
+    }
+
+    return content;
+  }
 
-      // Check if cursor is within this entity ID
-      if (cursorPos >= start && cursorPos <= end) {
+  /**
+   * Hover the value of a service, domain or registry ID key
+   */
+  private async provideFieldHover(
+    document: TextDocument,
+    position: TextDocumentPositionParams,
+    line: string
+  ): Promise<Hover | null> {
+    const cursorPos = position.position.character;
+    const field = this.getYamlField(document, position.position.line, cursorPos);
+    if (!field) {
+      return null;
+    }
+
+    try {
+      if (!field.onKey && SERVICE_KEYS.includes(field.key)) {
+        const token = extractEntityIdAt(line, cursorPos);
+        return token ? await this.provideServiceHover(token.entityId, true) : null;
+      }
+
+      if (!field.onKey && REGISTRY_FIELDS[field.key]) {
+        const word = this.getWordAt(line, cursorPos, /[\w-]+/g);
+        return word ? await this.provideRegistryHover(REGISTRY_FIELDS[field.key], word) : null;
+      }
+    } catch {
+      return {
+        contents: {
+          kind: MarkupKind.Markdown,
+          value: '⚠️ Not connected to Home Assistant',
+        },
+      };
+    }
+
+    // Integration blocks (light:, sensor:) and domain filters (domain: light)
+    if ((field.onKey && field.isTopLevel) || (!field.onKey && field.key === 'domain')) {
+      const word = this.getWordAt(line, cursorPos, /[a-z0-9_]+/g);
+      return word ? await this.provideDomainHover(word).catch(() => null) : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the YAML key the cursor is on, or whose value it is in
+   */
+  private getYamlField(
+    document: TextDocument,
+    lineNumber: number,
+    cursorPos: number
+  ): YamlField | null {
+    const lines = document.getText().split('\n');
+    const entry = parseLine(lines[lineNumber] || '', lineNumber);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.key !== null) {
+      const key = unquote(entry.key);
+      if (cursorPos >= entry.keyColumn && cursorPos <= entry.keyColumn + entry.key.length) {
+        return { key, onKey: true, isTopLevel: entry.indent === 0 && !entry.isListItem };
+      }
+      return cursorPos >= entry.valueColumn && entry.value !== ''
+        ? { key, onKey: false, isTopLevel: false }
+        : null;
+    }
+
+    // Block list item: the value belongs to the parent key
+    const parent = findParentEntry(parseLines(lines), lineNumber, entry.keyColumn);
+    return parent ? { key: unquote(parent.key!), onKey: false, isTopLevel: false } : null;
+  }
+
+  /**
+   * Find the word matching a pattern at the cursor
+   */
+  private getWordAt(line: string, cursorPos: number, pattern: RegExp): string | null {
+    let match;
+    pattern.lastIndex = 0;
+
+    while ((match = pattern.exec(line)) !== null) {
+      if (cursorPos >= match.index && cursorPos <= match.index + match[0].length) {
         return match[0];
       }
     }
@@ -111,17 +340,327 @@ export class HoverProvider {
     return null;
   }
 
+  /**
+   * Show the description and fields of a service
+   * (unknown services are only reported where a service is expected)
+   */
+  private async provideServiceHover(
+    serviceName: string,
+    reportMissing: boolean = false
+  ): Promise<Hover | null> {
+    const service = findService(await this.getServices(), serviceName);
+    if (!service) {
+      return reportMissing
+        ? {
+            contents: {
+              kind: MarkupKind.Markdown,
+              value: `❌ Service \`${serviceName}\` not found in Home Assistant`,
+            },
+          }
+        : null;
+    }
+
+    return {
+      contents: {
+        kind: MarkupKind.Markdown,
+        value: this.addSnapshotNote(
+          this.formatServiceHover(serviceName, service),
+          CacheKeys.SERVICES
+        ),
+      },
+    };
+  }
+
+  /**
+   * Show the entity count and services of a domain
+   */
+  private async provideDomainHover(domain: string): Promise<Hover | null> {
+    const services = await this.getServices();
+    const entities = await this.getEntities().catch(() => [] as Entity[]);
+    const domainEntities = entities.filter((e) => e.entity_id.startsWith(`${domain}.`));
+    const domainServices = Object.entries(services[domain] || {});
+
+    if (domainEntities.length === 0 && domainServices.length === 0) {
+      return null;
+    }
+
+    let content = `## ${domain}\n\n`;
+    content += `**Domain:** \`${domain}\`\n\n`;
+    content += `**Entities:** ${domainEntities.length}`;
+
+    const unavailable = domainEntities.filter((e) => e.state === 'unavailable').length;
+    if (unavailable > 0) {
+      content += ` (${unavailable} unavailable)`;
+    }
+    content += '\n\n';
+
+    if (domainServices.length > 0) {
+      content += `### Services\n\n`;
+      for (const [name, service] of domainServices) {
+        content += `- \`${domain}.${name}\`${service.name ? ` — ${service.name}` : ''}\n`;
+      }
+    }
+
+    return {
+      contents: {
+        kind: MarkupKind.Markdown,
+        value: this.addSnapshotNote(content, CacheKeys.SERVICES),
+      },
+    };
+  }
+
+  /**
+   * Show the registry record of an area, device or label with its member entities
+   */
+  private async provideRegistryHover(kind: RegistryKind, id: string): Promise<Hover | null> {
+    const [registry, devices] = await Promise.all([
+      this.getRegistry<EntityRegistryEntry>(CacheKeys.ENTITY_REGISTRY, () =>
+        this.haClient.getEntityRegistry()
+      ),
+      this.getRegistry<DeviceRegistryEntry>(CacheKeys.DEVICES, () =>
+        this.haClient.getDeviceRegistry()
+      ),
+    ]);
+    const deviceMap = new Map(devices.map((device) => [device.id, device]));
+
+    let content: string | null;
+    let members: EntityRegistryEntry[];
+    let cacheKey: string;
+
+    if (kind === 'area') {
+      const areas = await this.getRegistry<AreaRegistryEntry>(CacheKeys.AREAS, () =>
+        this.haClient.getAreaRegistry()
+      );
+      const area = areas.find((candidate) => candidate.area_id === id);
+      content = area ? this.formatAreaHover(area) : null;
+      // Entities without their own area are in the area of their device
+      members = registry.filter(
+        (entry) =>
+          entry.area_id === id ||
+          (!entry.area_id &&
+            !!entry.device_id &&
+            deviceMap.get(entry.device_id)?.area_id === id)
+      );
+      cacheKey = CacheKeys.AREAS;
+    } else if (kind === 'device') {
+      const device = deviceMap.get(id);
+      content = device ? this.formatDeviceHover(device) : null;
+      members = registry.filter((entry) => entry.device_id === id);
+      cacheKey = CacheKeys.DEVICES;
+    } else {
+      const labels = await this.getRegistry<LabelRegistryEntry>(CacheKeys.LABELS, () =>
+        this.haClient.getLabelRegistry()
+      );
+      const label = labels.find((candidate) => candidate.label_id === id);
+      content = label ? this.formatLabelHover(label) : null;
+      members = registry.filter((entry) => entry.labels?.includes(id));
+      cacheKey = CacheKeys.LABELS;
+    }
+
+    if (content === null) {
+      const title = kind.charAt(0).toUpperCase() + kind.slice(1);
+      return {
+        contents: {
+          kind: MarkupKind.Markdown,
+          value: `❌ ${title} \`${id}\` not found in Home Assistant`,
+        },
+      };
+    }
+
+    content += await this.formatMemberEntities(members);
+
+    return {
+      contents: {
+        kind: MarkupKind.Markdown,
+        value: this.addSnapshotNote(content, cacheKey),
+      },
+    };
+  }
+
+  /**
+   * Format service information for hover display
+   */
+  private formatServiceHover(serviceName: string, service: Service): string {
+    let content = `## ${service.name || serviceName}\n\n`;
+    content += `**Service:** \`${serviceName}\`\n\n`;
+
+    if (service.description) {
+      content += `${service.description}\n\n`;
+    }
+
+    if (hasTarget(service)) {
+      content += `**Target:** entities, devices, areas, floors or labels\n\n`;
+    }
+
+    if (service.response) {
+      content += `**Response:** ${service.response.optional ? 'optional' : 'required'}\n\n`;
+    }
+
+    const fields = Object.entries(getServiceFields(service));
+    if (fields.length > 0) {
+      content += `### Fields\n\n`;
+      for (const [name, field] of fields) {
+        const required = field.required ? ' *(required)*' : '';
+        const selector = field.selector ? ` \`${Object.keys(field.selector).join(', ')}\`` : '';
+        const description = field.description ? ` — ${field.description}` : '';
+        content += `- **${name}**${required}${selector}${description}\n`;
+      }
+    }
+
+    return content;
+  }
+
+  /**
+   * Format an area registry record for hover display
+   */
+  private formatAreaHover(area: AreaRegistryEntry): string {
+    let content = `## ${area.name}\n\n`;
+    content += `**Area ID:** \`${area.area_id}\`\n\n`;
+
+    if (area.floor_id) {
+      content += `**Floor:** \`${area.floor_id}\`\n\n`;
+    }
+    if (area.aliases && area.aliases.length > 0) {
+      content += `**Aliases:** ${area.aliases.join(', ')}\n\n`;
+    }
+    if (area.labels && area.labels.length > 0) {
+      content += `**Labels:** ${area.labels.map((l) => `\`${l}\``).join(', ')}\n\n`;
+    }
+
+    return content;
+  }
+
+  /**
+   * Format a device registry record for hover display
+   */
+  private formatDeviceHover(device: DeviceRegistryEntry): string {
+    let content = `## ${device.name_by_user || device.name || device.id}\n\n`;
+    content += `**Device ID:** \`${device.id}\`\n\n`;
+
+    const model = [device.manufacturer, device.model].filter(Boolean).join(' ');
+    if (model) {
+      content += `**Model:** ${model}\n\n`;
+    }
+    if (device.area_id) {
+      content += `**Area:** \`${device.area_id}\`\n\n`;
+    }
+    if (device.disabled_by) {
+      content += `**Disabled by:** ${device.disabled_by}\n\n`;
+    }
+
+    return content;
+  }
+
+  /**
+   * Format a label registry record for hover display
+   */
+  private formatLabelHover(label: LabelRegistryEntry): string {
+    let content = `## ${label.name}\n\n`;
+    content += `**Label ID:** \`${label.label_id}\`\n\n`;
+
+    if (label.description) {
+      content += `${label.description}\n\n`;
+    }
+    if (label.color) {
+      content += `**Color:** ${label.color}\n\n`;
+    }
+
+    return content;
+  }
+
+  /**
+   * Format the entities of an area, device or label with their current state
+   */
+  private async formatMemberEntities(members: EntityRegistryEntry[]): Promise<string> {
+    if (members.length === 0) {
+      return '*No entities*\n';
+    }
+
+    const entities = await this.getEntities().catch(() => [] as Entity[]);
+    const entityMap = new Map(entities.map((entity) => [entity.entity_id, entity]));
+
+    let content = `### Entities (${members.length})\n\n`;
+    for (const member of members.slice(0, MAX_MEMBERS)) {
+      const entity = entityMap.get(member.entity_id);
+      content += `- \`${member.entity_id}\``;
+      if (entity) {
+        const name = entity.attributes.friendly_name || member.entity_id;
+        content += ` — ${name} (\`${formatState(entity)}\`)`;
+      }
+      content += '\n';
+    }
+    if (members.length > MAX_MEMBERS) {
+      content += `\n*+${members.length - MAX_MEMBERS} more entities*\n`;
+    }
+
+    return content;
+  }
+
+  /**
+   * Mark content served from the offline snapshot
+   */
+  private addSnapshotNote(content: string, key: string): string {
+    const snapshotTime = this.cache.getSnapshotTime(key);
+    return snapshotTime
+      ? `${content}\n\n---\n\n*📦 Offline snapshot from ${snapshotTime.toLocaleString()}*`
+      : content;
+  }
+
+  /**
+   * Check whether a document is a YAML file
+   */
+  private isYaml(document: TextDocument): boolean {
+    if (document.languageId.startsWith('yaml')) {
+      return true;
+    }
+    return /\.ya?ml$/i.test(document.uri);
+  }
+
+  /**
+   * Extract entity ID from line at cursor position
+   */
+  private extractEntityId(line: string, cursorPos: number): string | null {
+    const match = extractEntityIdAt(line, cursorPos);
+    if (!match || isFileOrTagValue(line, match.start, match.entityId)) {
+      return null;
+    }
+    return match.entityId;
+  }
+
   /**
    * Get entity from cache or Home Assistant
    */
   private async getEntity(entityId: string): Promise<Entity | null> {
-    const entities = await this.cache.getOrFetch<Entity[]>(
-      CacheKeys.ENTITIES,
-      () => this.haClient.getStates(),
-      300 // 5 minutes TTL
+    const entities = await this.getEntities();
+    return entities.find((e) => e.entity_id === entityId) || null;
+  }
+
+  /**
+   * Get entities from cache or Home Assistant
+   */
+  private async getEntities(): Promise<Entity[]> {
+    // Entity states use the default TTL (cache.ttl setting)
+    return this.cache.getOrFetch<Entity[]>(CacheKeys.ENTITIES, () =>
+      this.haClient.getStates()
     );
+  }
 
-    return entities.find((e) => e.entity_id === entityId) || null;
+  /**
+   * Get services from cache or Home Assistant
+   */
+  private async getServices(): Promise<Services> {
+    return this.cache.getOrFetch(
+      CacheKeys.SERVICES,
+      () => this.haClient.getServices(),
+      600 // 10 minutes TTL
+    );
+  }
+
+  /**
+   * Get a registry (areas, devices, labels, entities) from cache or Home Assistant
+   */
+  private async getRegistry<T>(key: string, fetchFn: () => Promise<T[]>): Promise<T[]> {
+    return this.cache.getOrFetch(key, fetchFn, 600); // 10 minutes TTL
   }
 
   /**
@@ -130,14 +669,13 @@ export class HoverProvider {
   private formatEntityHover(entity: Entity): string {
     const friendlyName = entity.attributes.friendly_name || entity.entity_id;
     const [domain] = entity.entity_id.split('.');
-    const unit = entity.attributes.unit_of_measurement || '';
     const state = entity.state;
 
     let content = `## ${friendlyName}\n\n`;
 
     // State section
     const stateIcon = state === 'unavailable' ? '⚠️' : '✓';
-    content += `**State:** ${stateIcon} \`${state}${unit ? ' ' + unit : ''}\`\n\n`;
+    content += `**State:** ${stateIcon} \`${formatState(entity)}\`\n\n`;
 
     // Basic info
     content += `**Entity ID:** \`${entity.entity_id}\`\n\n`;
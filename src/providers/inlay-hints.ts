@@ -0,0 +1,107 @@
+/**
+ * Inlay Hints Provider
+ * Shows the current state of entities next to their IDs
+ */
+
+import { InlayHint, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { HomeAssistantClient } from '../ha-client';
+import { Cache, CacheKeys } from '../cache';
+import { Entity } from '../types/homeassistant';
+import { getLogger } from '../utils/logger';
+import { formatState, isEntityReference } from '../utils/entities';
+import { stripComment } from '../utils/yaml';
+
+const logger = getLogger('InlayHintsProvider');
+
+/**
+ * Entity ID, optionally reached through the template `states.` object
+ * (not embedded in a longer dotted path and not a function call)
+ */
+const ENTITY_ID_PATTERN = /(?<![\w.])(?:states\.)?([a-z_][a-z0-9_]*\.[a-z0-9_]+)(?![\w(])/g;
+
+/**
+ * Longer states (e.g. text sensors) are shortened to keep lines readable
+ */
+const MAX_STATE_LENGTH = 30;
+
+/**
+ * Inlay Hints Provider
+ */
+export class InlayHintsProvider {
+  private haClient: HomeAssistantClient;
+  private cache: Cache;
+
+  constructor(haClient: HomeAssistantClient, cache: Cache) {
+    this.haClient = haClient;
+    this.cache = cache;
+  }
+
+  /**
+   * Provide state hints for the entity IDs in the visible range
+   */
+  async provideInlayHints(document: TextDocument, range: Range): Promise<InlayHint[]> {
+    let entities: Entity[];
+    try {
+      entities = await this.getEntities();
+    } catch (error) {
+      logger.debug('No entity states for inlay hints', error);
+      return [];
+    }
+
+    const entityMap = new Map<string, Entity>();
+    for (const entity of entities) {
+      if (entity?.entity_id) {
+        entityMap.set(entity.entity_id, entity);
+      }
+    }
+
+    const hints: InlayHint[] = [];
+    const lines = document.getText().split('\n');
+    const lastLine = Math.min(range.end.line, lines.length - 1);
+
+    for (let lineNumber = range.start.line; lineNumber <= lastLine; lineNumber++) {
+      const line = stripComment(lines[lineNumber]);
+      ENTITY_ID_PATTERN.lastIndex = 0;
+      let match;
+
+      while ((match = ENTITY_ID_PATTERN.exec(line)) !== null) {
+        const entityId = match[1];
+        const entity = entityMap.get(entityId);
+        const start = match.index + match[0].length - entityId.length;
+        if (!entity || !isEntityReference(line, start, entityId)) {
+          continue;
+        }
+
+        hints.push({
+          position: { line: lineNumber, character: match.index + match[0].length },
+          label: `▸ ${this.formatHint(entity)}`,
+          paddingLeft: true,
+          tooltip: entity.attributes?.friendly_name || undefined,
+        });
+      }
+    }
+
+    return hints;
+  }
+
+  /**
+   * Format the state and unit of an entity for a hint
+   */
+  private formatHint(entity: Entity): string {
+    const state = formatState(entity);
+    return state.length > MAX_STATE_LENGTH
+      ? `${state.substring(0, MAX_STATE_LENGTH - 1)}…`
+      : state;
+  }
+
+  /**
+   * Get entities from cache or Home Assistant
+   */
+  private async getEntities(): Promise<Entity[]> {
+    // Entity states use the default TTL (cache.ttl setting)
+    return this.cache.getOrFetch(CacheKeys.ENTITIES, () =>
+      this.haClient.getStates()
+    );
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * References Provider
+ * Finds and renames entity ID references across the workspace
+ */
+
+import {
+  Location,
+  Range,
+  TextDocumentPositionParams,
+  TextEdit,
+  WorkspaceEdit,
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { WorkspaceIndex } from '../workspace-index';
+import { Services } from '../types/homeassistant';
+import { getLogger } from '../utils/logger';
+import {
+  extractEntityIdAt,
+  isEntityId,
+  isEntityReference,
+  createEntityReferencePattern,
+} from '../utils/entities';
+
+const logger = getLogger('ReferencesProvider');
+
+/**
+ * References Provider
+ */
+export class ReferencesProvider {
+  private index: WorkspaceIndex;
+  private getServices: (uri: string) => Services | null;
+
+  /**
+   * @param getServices - Known services for a document, so that service names
+   *   like light.turn_on are not mistaken for entity IDs
+   */
+  constructor(index: WorkspaceIndex, getServices: (uri: string) => Services | null = () => null) {
+    this.index = index;
+    this.getServices = getServices;
+  }
+
+  /**
+   * Provide all references to the entity ID at the cursor
+   */
+  provideReferences(
+    document: TextDocument,
+    position: TextDocumentPositionParams
+  ): Location[] {
+    const target = this.getEntityIdAt(document, position);
+    if (!target) {
+      return [];
+    }
+
+    const locations = this.findReferences(target.entityId);
+    logger.debug(`References for ${target.entityId}: ${locations.length} locations`);
+    return locations;
+  }
+
+  /**
+   * Check that the cursor is on a renameable entity ID
+   */
+  prepareRename(
+    document: TextDocument,
+    position: TextDocumentPositionParams
+  ): { range: Range; placeholder: string } | null {
+    const target = this.getEntityIdAt(document, position);
+    if (!target) {
+      return null;
+    }
+
+    return {
+      range: target.range,
+      placeholder: target.entityId,
+    };
+  }
+
+  /**
+   * Build the workspace edit renaming the entity ID at the cursor
+   */
+  provideRenameEdits(
+    document: TextDocument,
+    position: TextDocumentPositionParams,
+    newName: string
+  ): WorkspaceEdit | null {
+    const target = this.getEntityIdAt(document, position);
+    if (!target) {
+      return null;
+    }
+
+    const newEntityId = this.normalizeNewName(target.entityId, newName);
+
+    const changes: { [uri: string]: TextEdit[] } = {};
+    for (const location of this.findReferences(target.entityId)) {
+      if (!changes[location.uri]) {
+        changes[location.uri] = [];
+      }
+      changes[location.uri].push(TextEdit.replace(location.range, newEntityId));
+    }
+
+    logger.info(`Renaming ${target.entityId} to ${newEntityId} in ${Object.keys(changes).length} files`);
+    return { changes };
+  }
+
+  /**
+   * Validate a new name; a bare object ID keeps the current domain
+   */
+  normalizeNewName(entityId: string, newName: string): string {
+    const [domain] = entityId.split('.');
+    const newEntityId = newName.includes('.') ? newName.trim() : `${domain}.${newName.trim()}`;
+
+    if (!isEntityId(newEntityId)) {
+      throw new Error(`Invalid entity ID: ${newEntityId}`);
+    }
+
+    if (newEntityId.split('.')[0] !== domain) {
+      throw new Error(`Entity ID must stay in the ${domain} domain`);
+    }
+
+    return newEntityId;
+  }
+
+  /**
+   * Find every reference to an entity ID in the workspace
+   */
+  findReferences(entityId: string): Location[] {
+    const locations: Location[] = [];
+
+    for (const file of this.index.getFiles()) {
+      // Cheap check before splitting the file into lines
+      if (!file.text.includes(entityId)) {
+        continue;
+      }
+
+      const services = this.getServices(file.uri);
+      const lines = file.text.split('\n');
+      for (let lineNumber = 0; lineNumber < lines.length; lineNumber++) {
+        const line = lines[lineNumber];
+        const pattern = createEntityReferencePattern(entityId);
+        let match;
+        while ((match = pattern.exec(line)) !== null) {
+          if (!isEntityReference(line, match.index, entityId, services)) {
+            continue;
+          }
+          locations.push(
+            Location.create(file.uri, {
+              start: { line: lineNumber, character: match.index },
+              end: { line: lineNumber, character: match.index + entityId.length },
+            })
+          );
+        }
+      }
+    }
+
+    return locations;
+  }
+
+  /**
+   * Get the entity ID at the cursor with its range
+   */
+  private getEntityIdAt(
+    document: TextDocument,
+    position: TextDocumentPositionParams
+  ): { entityId: string; range: Range } | null {
+    const line = document.getText({
+      start: { line: position.position.line, character: 0 },
+      end: { line: position.position.line + 1, character: 0 },
+    });
+
+    const match = extractEntityIdAt(line, position.position.character);
+    if (!match || !isEntityId(match.entityId)) {
+      return null;
+    }
+
+    const services = this.getServices(document.uri);
+    if (!isEntityReference(line, match.start, match.entityId, services)) {
+      return null;
+    }
+
+    return {
+      entityId: match.entityId,
+      range: {
+        start: { line: position.position.line, character: match.start },
+        end: { line: position.position.line, character: match.end },
+      },
+    };
+  }
+}
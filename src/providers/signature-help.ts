@@ -0,0 +1,269 @@
+/**
+ * Signature Help Provider
+ * Shows the fields of a service while editing its `data:` and the
+ * parameters of template functions while typing their arguments
+ */
+
+import {
+  MarkupKind,
+  ParameterInformation,
+  SignatureHelp,
+  SignatureInformation,
+  TextDocumentPositionParams,
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { HomeAssistantClient } from '../ha-client';
+import { Cache, CacheKeys } from '../cache';
+import { Services } from '../types/homeassistant';
+import { getLogger } from '../utils/logger';
+import {
+  YamlEntry,
+  parseLines,
+  getSiblingEntries,
+  getChildEntries,
+  findParentEntry,
+  unquote,
+} from '../utils/yaml';
+import {
+  SERVICE_KEYS,
+  SERVICE_DATA_KEYS,
+  findService,
+  getServiceFields,
+  formatFieldDocumentation,
+} from '../utils/services';
+import {
+  TEMPLATE_FUNCTIONS,
+  TemplateParameter,
+  getTemplateStart,
+  getTemplateCallContext,
+} from '../utils/jinja';
+
+const logger = getLogger('SignatureHelpProvider');
+
+/**
+ * Template argument kinds described in parameter documentation
+ */
+const KIND_DESCRIPTIONS: Record<string, string> = {
+  entity: 'Entity ID',
+  area: 'Area name or ID',
+  device: 'Device ID',
+  floor: 'Floor name or ID',
+  label: 'Label name or ID',
+};
+
+/**
+ * Signature Help Provider
+ */
+export class SignatureHelpProvider {
+  private haClient: HomeAssistantClient;
+  private cache: Cache;
+
+  constructor(haClient: HomeAssistantClient, cache: Cache) {
+    this.haClient = haClient;
+    this.cache = cache;
+  }
+
+  /**
+   * Provide signature help at the cursor position
+   */
+  async provideSignatureHelp(
+    document: TextDocument,
+    position: TextDocumentPositionParams
+  ): Promise<SignatureHelp | null> {
+    const fullText = document.getText();
+
+    // Inside {{ }} / {% %} the text is Jinja, not YAML
+    const offset = document.offsetAt(position.position);
+    const templateStart = getTemplateStart(fullText, offset);
+    if (templateStart !== null) {
+      return this.provideTemplateSignature(fullText.substring(templateStart, offset));
+    }
+
+    return this.provideServiceSignature(fullText.split('\n'), position);
+  }
+
+  /**
+   * Signature of the template function call surrounding the cursor
+   */
+  private provideTemplateSignature(templateText: string): SignatureHelp | null {
+    const call = getTemplateCallContext(templateText);
+    const fn = call ? TEMPLATE_FUNCTIONS[call.name] : undefined;
+    if (!call || !fn) {
+      return null;
+    }
+
+    // As a filter, the first parameter is the piped value
+    const isFilter = call.isFilter && fn.filter === true;
+    const parameters =
+      isFilter && fn.functionCall !== false ? fn.parameters.slice(1) : fn.parameters;
+    const prefix = isFilter ? `value | ${fn.name}(` : `${fn.name}(`;
+
+    const signature = this.createSignature(
+      prefix,
+      parameters.map((parameter) => ({
+        label: parameter.optional ? `${parameter.name}?` : parameter.name,
+        documentation: this.describeTemplateParameter(parameter),
+      })),
+      fn.returns ? `) → ${fn.returns}` : ')'
+    );
+    signature.documentation = { kind: MarkupKind.Markdown, value: fn.description };
+
+    return {
+      signatures: [signature],
+      activeSignature: 0,
+      activeParameter: call.argumentIndex,
+    };
+  }
+
+  /**
+   * Signature of the service whose `data:` mapping contains the cursor
+   */
+  private async provideServiceSignature(
+    lines: string[],
+    position: TextDocumentPositionParams
+  ): Promise<SignatureHelp | null> {
+    const lineNumber = position.position.line;
+    const textBeforeCursor = (lines[lineNumber] || '').substring(0, position.position.character);
+    const entries = parseLines(lines);
+    const current = entries[lineNumber];
+
+    let dataEntry: YamlEntry | null = null;
+    let fieldName: string | null = null;
+    let column = 0;
+
+    if (current && current.key !== null && SERVICE_DATA_KEYS.includes(current.key)) {
+      // "data:" itself, before any field is written
+      dataEntry = current;
+    } else if (current) {
+      fieldName = current.key;
+      column = current.keyColumn;
+    } else if (textBeforeCursor.trim() === '') {
+      // Blank line: the cursor column decides which mapping it belongs to
+      column = textBeforeCursor.length;
+    } else {
+      return null;
+    }
+
+    // Walk up from nested values (lists, mappings) to the field of the data mapping
+    let line = lineNumber;
+    while (!dataEntry) {
+      const parent = findParentEntry(entries, line, column);
+      if (!parent) {
+        return null;
+      }
+      if (SERVICE_DATA_KEYS.includes(parent.key!)) {
+        dataEntry = parent;
+      } else {
+        fieldName = parent.key;
+        line = parent.line;
+        column = parent.keyColumn;
+      }
+    }
+
+    if (dataEntry.value !== '') {
+      return null;
+    }
+
+    const serviceEntry = getSiblingEntries(entries, dataEntry.line).find((e) =>
+      SERVICE_KEYS.includes(e.key!)
+    );
+    if (!serviceEntry) {
+      return null;
+    }
+
+    const serviceName = unquote(serviceEntry.value);
+    let services: Services;
+    try {
+      services = await this.getServices();
+    } catch (error) {
+      logger.debug('Service signature help unavailable', error);
+      return null;
+    }
+
+    const service = findService(services, serviceName);
+    if (!service) {
+      return null;
+    }
+
+    const fields = Object.entries(getServiceFields(service));
+    if (fields.length === 0) {
+      return null;
+    }
+
+    const signature = this.createSignature(
+      `${serviceName}(`,
+      fields.map(([name, field]) => ({
+        label: field.required ? name : `${name}?`,
+        documentation: formatFieldDocumentation(serviceName, name, field),
+      })),
+      ')'
+    );
+    if (service.description) {
+      signature.documentation = { kind: MarkupKind.Markdown, value: service.description };
+    }
+
+    // Without a field under the cursor, point at the first one still missing
+    let activeParameter = fields.findIndex(([name]) => name === fieldName);
+    if (activeParameter === -1) {
+      const existingKeys = getChildEntries(entries, dataEntry.line).map((e) => e.key);
+      activeParameter = Math.max(
+        0,
+        fields.findIndex(([name]) => !existingKeys.includes(name))
+      );
+    }
+
+    return {
+      signatures: [signature],
+      activeSignature: 0,
+      activeParameter,
+    };
+  }
+
+  /**
+   * Build a signature, locating each parameter by its offsets in the label
+   * (names may repeat, e.g. distance(entity_or_coordinates, entity_or_coordinates?))
+   */
+  private createSignature(
+    prefix: string,
+    parameters: { label: string; documentation: string }[],
+    suffix: string
+  ): SignatureInformation {
+    let label = prefix;
+    const parameterInfos: ParameterInformation[] = [];
+
+    parameters.forEach((parameter, index) => {
+      if (index > 0) {
+        label += ', ';
+      }
+      parameterInfos.push({
+        label: [label.length, label.length + parameter.label.length],
+        documentation: { kind: MarkupKind.Markdown, value: parameter.documentation },
+      });
+      label += parameter.label;
+    });
+
+    return { label: label + suffix, parameters: parameterInfos };
+  }
+
+  /**
+   * Describe a template function parameter
+   */
+  private describeTemplateParameter(parameter: TemplateParameter): string {
+    let doc = `**${parameter.name}**${parameter.optional ? ' *(optional)*' : ''}`;
+    if (parameter.kind && KIND_DESCRIPTIONS[parameter.kind]) {
+      doc += `\n\n${KIND_DESCRIPTIONS[parameter.kind]}`;
+    }
+    return doc;
+  }
+
+  /**
+   * Get services from cache or Home Assistant
+   */
+  private async getServices(): Promise<Services> {
+    return this.cache.getOrFetch(
+      CacheKeys.SERVICES,
+      () => this.haClient.getServices(),
+      600 // 10 minutes TTL
+    );
+  }
+}
@@ -0,0 +1,649 @@
+/**
+ * Document Symbols Provider
+ * Outlines automations, scripts, template entities, packages and dashboards
+ */
+
+import { DocumentSymbol, SymbolKind } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getLogger } from '../utils/logger';
+import { Definition, parseDefinitions } from '../utils/definitions';
+import {
+  YamlEntry,
+  parseLines,
+  getBlockEnd,
+  getChildEntries,
+  getSiblingEntries,
+  unquote,
+} from '../utils/yaml';
+
+const logger = getLogger('SymbolsProvider');
+
+/**
+ * Entity domains that can be defined under `template:`
+ */
+const TEMPLATE_DOMAINS = [
+  'sensor',
+  'binary_sensor',
+  'number',
+  'select',
+  'button',
+  'image',
+  'weather',
+  'switch',
+  'light',
+  'cover',
+  'fan',
+  'lock',
+  'alarm_control_panel',
+  'vacuum',
+  'event',
+  'update',
+];
+
+/**
+ * Automation sections and the symbol kind of their steps
+ * (both the current plural and the legacy singular keys)
+ */
+const AUTOMATION_SECTIONS: { keys: string[]; kind: SymbolKind; step: StepType }[] = [
+  { keys: ['triggers', 'trigger'], kind: SymbolKind.Event, step: 'trigger' },
+  { keys: ['conditions', 'condition'], kind: SymbolKind.Boolean, step: 'condition' },
+  { keys: ['actions', 'action'], kind: SymbolKind.Method, step: 'action' },
+];
+
+/**
+ * Actions identified by their first key rather than a service
+ */
+const ACTION_KEYS = [
+  'choose',
+  'if',
+  'repeat',
+  'parallel',
+  'sequence',
+  'delay',
+  'wait_template',
+  'wait_for_trigger',
+  'event',
+  'scene',
+  'variables',
+  'stop',
+  'condition',
+];
+
+type StepType = 'trigger' | 'condition' | 'action';
+
+/**
+ * Parsed document shared by the symbol builders
+ */
+interface SymbolContext {
+  lines: string[];
+  entries: (YamlEntry | null)[];
+  definitions: Map<number, Definition>; // automations and scripts by first line
+}
+
+/**
+ * Document Symbols Provider
+ */
+export class SymbolsProvider {
+  /**
+   * Provide the outline of a YAML document
+   */
+  provideDocumentSymbols(document: TextDocument): DocumentSymbol[] {
+    if (!this.isYaml(document)) {
+      return [];
+    }
+
+    try {
+      const text = document.getText();
+      const lines = text.split(/\r?\n/);
+      const definitions = new Map(
+        parseDefinitions(text).map((definition) => [definition.range.start.line, definition])
+      );
+      const context: SymbolContext = { lines, entries: parseLines(lines), definitions };
+
+      const first = context.entries.find((entry): entry is YamlEntry => entry !== null);
+      if (!first) {
+        return [];
+      }
+
+      // Included files are either a list (automations.yaml) or a mapping
+      if (first.isListItem) {
+        const items = context.entries.filter(
+          (entry): entry is YamlEntry =>
+            entry !== null && entry.isListItem && entry.indent === first.indent
+        );
+        return this.listSymbols(context, items);
+      }
+
+      const keys = context.entries.filter(
+        (entry): entry is YamlEntry =>
+          entry !== null &&
+          entry.key !== null &&
+          !entry.isListItem &&
+          entry.keyColumn === first.keyColumn
+      );
+      return this.mappingSymbols(context, keys);
+    } catch (error) {
+      logger.error('Document symbols error', error);
+      return [];
+    }
+  }
+
+  /**
+   * Symbols for the items of a top-level list, recognised by their keys
+   */
+  private listSymbols(context: SymbolContext, items: YamlEntry[]): DocumentSymbol[] {
+    return items
+      .map((item, index) => {
+        const keys = this.getItemKeys(context, item);
+        if (context.definitions.get(item.line)?.domain === 'automation') {
+          return [this.automationSymbol(context, item, keys, index)];
+        }
+        if (keys.some((key) => TEMPLATE_DOMAINS.includes(key.key!))) {
+          return this.templateSymbols(context, keys);
+        }
+        if (this.findKey(keys, 'cards', 'type')) {
+          return [this.cardSymbol(context, item, keys)];
+        }
+        return [];
+      })
+      .reduce((all, symbols) => all.concat(symbols), []);
+  }
+
+  /**
+   * Symbols for the keys of a mapping (configuration.yaml, packages, scripts.yaml)
+   */
+  private mappingSymbols(context: SymbolContext, keys: YamlEntry[]): DocumentSymbol[] {
+    return keys.map((entry) => {
+      const domain = entry.key!.split(' ')[0];
+      const children = this.getChildKeys(context, entry);
+
+      switch (domain) {
+        case 'automation':
+          return this.createSymbol(
+            context,
+            entry.key!,
+            SymbolKind.Module,
+            entry,
+            this.getBlockEndLine(context, entry),
+            this.getChildItems(context, entry).map((item, index) =>
+              this.automationSymbol(context, item, this.getItemKeys(context, item), index)
+            ),
+            entry.value || undefined
+          );
+
+        case 'script':
+          return this.createSymbol(
+            context,
+            entry.key!,
+            SymbolKind.Module,
+            entry,
+            this.getBlockEndLine(context, entry),
+            children.map((script) => this.scriptSymbol(context, script)),
+            entry.value || undefined
+          );
+
+        case 'template':
+          return this.createSymbol(
+            context,
+            entry.key!,
+            SymbolKind.Module,
+            entry,
+            this.getBlockEndLine(context, entry),
+            this.getChildItems(context, entry)
+              .map((item) => this.templateSymbols(context, this.getItemKeys(context, item)))
+              .reduce((all, symbols) => all.concat(symbols), []),
+            entry.value || undefined
+          );
+
+        case 'homeassistant':
+          return this.createSymbol(
+            context,
+            entry.key!,
+            SymbolKind.Module,
+            entry,
+            this.getBlockEndLine(context, entry),
+            children
+              .filter((child) => child.key === 'packages')
+              .map((packages) => this.packagesSymbol(context, packages))
+          );
+
+        case 'views':
+          return this.createSymbol(
+            context,
+            entry.key!,
+            SymbolKind.Array,
+            entry,
+            this.getBlockEndLine(context, entry),
+            this.getChildItems(context, entry).map((view, index) =>
+              this.viewSymbol(context, view, index)
+            )
+          );
+
+        default:
+          // scripts.yaml: every key is a script
+          if (context.definitions.get(entry.line)?.domain === 'script') {
+            return this.scriptSymbol(context, entry);
+          }
+          return this.createSymbol(
+            context,
+            entry.key!,
+            SymbolKind.Module,
+            entry,
+            this.getBlockEndLine(context, entry),
+            [],
+            entry.value || undefined
+          );
+      }
+    });
+  }
+
+  /**
+   * An automation with its triggers, conditions and actions
+   */
+  private automationSymbol(
+    context: SymbolContext,
+    item: YamlEntry,
+    keys: YamlEntry[],
+    index: number
+  ): DocumentSymbol {
+    const definition = context.definitions.get(item.line);
+    const alias = this.findKey(keys, 'alias');
+    const id = this.findKey(keys, 'id');
+    const name = definition ? definition.name : `Automation ${index + 1}`;
+
+    const children: DocumentSymbol[] = [];
+    for (const section of AUTOMATION_SECTIONS) {
+      const entry = this.findKey(keys, ...section.keys);
+      if (entry) {
+        children.push(this.sectionSymbol(context, entry, section.kind, section.step));
+      }
+    }
+
+    return this.createSymbol(
+      context,
+      name,
+      SymbolKind.Event,
+      item,
+      this.getItemEndLine(context, item),
+      children,
+      alias && id ? `id: ${unquote(id.value)}` : undefined
+    );
+  }
+
+  /**
+   * A script with its sequence
+   */
+  private scriptSymbol(context: SymbolContext, entry: YamlEntry): DocumentSymbol {
+    const definition = context.definitions.get(entry.line);
+    const sequence = this.findKey(this.getChildKeys(context, entry), 'sequence');
+
+    return this.createSymbol(
+      context,
+      entry.key!,
+      SymbolKind.Function,
+      entry,
+      this.getBlockEndLine(context, entry),
+      sequence ? [this.sectionSymbol(context, sequence, SymbolKind.Method, 'action')] : [],
+      definition && definition.name !== entry.key ? definition.name : undefined
+    );
+  }
+
+  /**
+   * A triggers/conditions/actions section and its steps
+   */
+  private sectionSymbol(
+    context: SymbolContext,
+    entry: YamlEntry,
+    kind: SymbolKind,
+    step: StepType
+  ): DocumentSymbol {
+    const steps = this.getChildItems(context, entry).map((item) =>
+      this.createSymbol(
+        context,
+        this.describeStep(this.getItemKeys(context, item), item, step),
+        kind,
+        item,
+        this.getItemEndLine(context, item)
+      )
+    );
+
+    return this.createSymbol(
+      context,
+      entry.key!,
+      SymbolKind.Array,
+      entry,
+      this.getBlockEndLine(context, entry),
+      steps
+    );
+  }
+
+  /**
+   * Name a trigger, condition or action after its alias or type
+   */
+  private describeStep(keys: YamlEntry[], item: YamlEntry, step: StepType): string {
+    const alias = this.findKey(keys, 'alias');
+    if (alias) {
+      return unquote(alias.value);
+    }
+
+    // Shorthand template conditions are plain strings
+    if (keys.length === 0) {
+      return step === 'condition' ? 'template' : unquote(item.value) || step;
+    }
+
+    if (step === 'trigger') {
+      const type = this.findKey(keys, 'trigger', 'platform');
+      const entityId = this.findKey(keys, 'entity_id');
+      const name = type ? unquote(type.value) : 'trigger';
+      return entityId?.value ? `${name}: ${unquote(entityId.value)}` : name;
+    }
+
+    if (step === 'condition') {
+      const type = this.findKey(keys, 'condition');
+      return type ? unquote(type.value) : keys[0].key!;
+    }
+
+    const service = this.findKey(keys, 'action', 'service');
+    if (service) {
+      return unquote(service.value);
+    }
+    const type = keys.find((key) => ACTION_KEYS.includes(key.key!));
+    if (type) {
+      return type.key === 'condition' && type.value
+        ? `condition: ${unquote(type.value)}`
+        : type.key!;
+    }
+    return keys[0].key!;
+  }
+
+  /**
+   * Template entities defined in one item of `template:`
+   */
+  private templateSymbols(context: SymbolContext, keys: YamlEntry[]): DocumentSymbol[] {
+    const symbols: DocumentSymbol[] = [];
+
+    for (const domainEntry of keys) {
+      const domain = domainEntry.key!;
+      if (!TEMPLATE_DOMAINS.includes(domain)) {
+        continue;
+      }
+
+      const items = this.getChildItems(context, domainEntry);
+      // A single entity may be written as a mapping instead of a list
+      const definitions = items.length > 0 ? items : [domainEntry];
+
+      for (const definition of definitions) {
+        const entityKeys =
+          definition === domainEntry
+            ? this.getChildKeys(context, definition)
+            : this.getItemKeys(context, definition);
+        const name = this.findKey(entityKeys, 'name') || this.findKey(entityKeys, 'unique_id');
+
+        symbols.push(
+          this.createSymbol(
+            context,
+            name ? unquote(name.value) : domain,
+            SymbolKind.Variable,
+            definition,
+            definition === domainEntry
+              ? this.getBlockEndLine(context, definition)
+              : this.getItemEndLine(context, definition),
+            [],
+            `template ${domain}`
+          )
+        );
+      }
+    }
+
+    return symbols;
+  }
+
+  /**
+   * The packages of `homeassistant: packages:`, each outlined like a config file
+   */
+  private packagesSymbol(context: SymbolContext, entry: YamlEntry): DocumentSymbol {
+    const packages = this.getChildKeys(context, entry).map((pkg) =>
+      this.createSymbol(
+        context,
+        pkg.key!,
+        SymbolKind.Package,
+        pkg,
+        this.getBlockEndLine(context, pkg),
+        this.mappingSymbols(context, this.getChildKeys(context, pkg)),
+        pkg.value || undefined
+      )
+    );
+
+    return this.createSymbol(
+      context,
+      entry.key!,
+      SymbolKind.Namespace,
+      entry,
+      this.getBlockEndLine(context, entry),
+      packages,
+      entry.value || undefined
+    );
+  }
+
+  /**
+   * A dashboard view with its sections and cards
+   */
+  private viewSymbol(context: SymbolContext, view: YamlEntry, index: number): DocumentSymbol {
+    const keys = this.getItemKeys(context, view);
+    const title = this.findKey(keys, 'title') || this.findKey(keys, 'path');
+    const children: DocumentSymbol[] = [];
+
+    const sections = this.findKey(keys, 'sections');
+    if (sections) {
+      this.getChildItems(context, sections).forEach((section, sectionIndex) => {
+        const sectionKeys = this.getItemKeys(context, section);
+        const sectionTitle = this.findKey(sectionKeys, 'title');
+        children.push(
+          this.createSymbol(
+            context,
+            sectionTitle ? unquote(sectionTitle.value) : `Section ${sectionIndex + 1}`,
+            SymbolKind.Namespace,
+            section,
+            this.getItemEndLine(context, section),
+            this.cardSymbols(context, sectionKeys)
+          )
+        );
+      });
+    }
+    children.push(...this.cardSymbols(context, keys));
+
+    return this.createSymbol(
+      context,
+      title ? unquote(title.value) : `View ${index + 1}`,
+      SymbolKind.Class,
+      view,
+      this.getItemEndLine(context, view),
+      children
+    );
+  }
+
+  /**
+   * The cards listed under `cards:` (and a nested `card:`) of a view or card
+   */
+  private cardSymbols(context: SymbolContext, keys: YamlEntry[]): DocumentSymbol[] {
+    const symbols: DocumentSymbol[] = [];
+
+    const cards = this.findKey(keys, 'cards');
+    if (cards) {
+      for (const card of this.getChildItems(context, cards)) {
+        symbols.push(this.cardSymbol(context, card, this.getItemKeys(context, card)));
+      }
+    }
+
+    const card = this.findKey(keys, 'card');
+    if (card) {
+      const cardKeys = this.getChildKeys(context, card);
+      symbols.push(
+        this.createSymbol(
+          context,
+          this.describeCard(cardKeys),
+          SymbolKind.Object,
+          card,
+          this.getBlockEndLine(context, card),
+          this.cardSymbols(context, cardKeys)
+        )
+      );
+    }
+
+    return symbols;
+  }
+
+  /**
+   * A card and the cards nested in it (stacks, grids, conditional cards)
+   */
+  private cardSymbol(context: SymbolContext, card: YamlEntry, keys: YamlEntry[]): DocumentSymbol {
+    const title = this.findKey(keys, 'title');
+    const type = this.findKey(keys, 'type');
+
+    return this.createSymbol(
+      context,
+      this.describeCard(keys),
+      SymbolKind.Object,
+      card,
+      this.getItemEndLine(context, card),
+      this.cardSymbols(context, keys),
+      title && type ? unquote(type.value) : undefined
+    );
+  }
+
+  /**
+   * Name a card after its title or type
+   */
+  private describeCard(keys: YamlEntry[]): string {
+    const title = this.findKey(keys, 'title') || this.findKey(keys, 'type');
+    return title ? unquote(title.value) : 'card';
+  }
+
+  /**
+   * Create a symbol spanning lines start..endLine of an entry
+   */
+  private createSymbol(
+    context: SymbolContext,
+    name: string,
+    kind: SymbolKind,
+    entry: YamlEntry,
+    endLine: number,
+    children: DocumentSymbol[] = [],
+    detail?: string
+  ): DocumentSymbol {
+    const lineText = context.lines[entry.line];
+    const selectionEnd = Math.max(entry.keyColumn, lineText.trimEnd().length);
+
+    return {
+      // Clients reject empty names
+      name: name || entry.key || 'item',
+      detail,
+      kind,
+      range: {
+        start: { line: entry.line, character: entry.indent },
+        end: { line: endLine, character: context.lines[endLine].length },
+      },
+      selectionRange: {
+        start: { line: entry.line, character: entry.keyColumn },
+        end: { line: entry.line, character: selectionEnd },
+      },
+      children,
+    };
+  }
+
+  /**
+   * Keys of the mapping that forms a list item (including the item's first line)
+   */
+  private getItemKeys(context: SymbolContext, item: YamlEntry): YamlEntry[] {
+    return getSiblingEntries(context.entries, item.line);
+  }
+
+  /**
+   * Keys of the mapping nested under a key
+   */
+  private getChildKeys(context: SymbolContext, entry: YamlEntry): YamlEntry[] {
+    const children = getChildEntries(context.entries, entry.line);
+    if (children.length === 0 || children[0].isListItem) {
+      return [];
+    }
+    return children.filter((child) => child.key !== null && !child.isListItem);
+  }
+
+  /**
+   * Items of the sequence nested under a key
+   */
+  private getChildItems(context: SymbolContext, entry: YamlEntry): YamlEntry[] {
+    const end = getBlockEnd(context.entries, entry.line);
+    let column: number | null = null;
+    const items: YamlEntry[] = [];
+
+    for (let i = entry.line + 1; i < end; i++) {
+      const child = context.entries[i];
+      if (!child) continue;
+      if (column === null) {
+        if (!child.isListItem) {
+          return [];
+        }
+        column = child.indent;
+      }
+      if (child.isListItem && child.indent === column) {
+        items.push(child);
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Last line of a list item
+   */
+  private getItemEndLine(context: SymbolContext, item: YamlEntry): number {
+    let end = item.line;
+    for (let i = item.line + 1; i < context.entries.length; i++) {
+      const entry = context.entries[i];
+      if (!entry) continue;
+      if (entry.indent <= item.indent) {
+        break;
+      }
+      end = i;
+    }
+    return end;
+  }
+
+  /**
+   * Last non-blank line of a key's block
+   */
+  private getBlockEndLine(context: SymbolContext, entry: YamlEntry): number {
+    const end = getBlockEnd(context.entries, entry.line);
+    for (let i = end - 1; i > entry.line; i--) {
+      if (context.entries[i]) {
+        return i;
+      }
+    }
+    return entry.line;
+  }
+
+  /**
+   * Find the first key with one of the given names
+   */
+  private findKey(keys: YamlEntry[], ...names: string[]): YamlEntry | undefined {
+    for (const name of names) {
+      const entry = keys.find((key) => key.key === name);
+      if (entry) {
+        return entry;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Check whether a document is YAML
+   */
+  private isYaml(document: TextDocument): boolean {
+    return (
+      document.languageId.startsWith('yaml') ||
+      document.uri.endsWith('.yaml') ||
+      document.uri.endsWith('.yml')
+    );
+  }
+}
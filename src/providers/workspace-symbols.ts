@@ -0,0 +1,198 @@
+/**
+ * Workspace Symbols Provider
+ * Searches automations, scripts and scenes defined in the workspace and the
+ * live entities of Home Assistant
+ */
+
+import { Location, Range, SymbolInformation, SymbolKind } from 'vscode-languageserver';
+import { WorkspaceIndex, WorkspaceFile } from '../workspace-index';
+import { Entity, EntityRegistryEntry } from '../types/homeassistant';
+import { getLogger } from '../utils/logger';
+import {
+  Definition,
+  DefinitionDomain,
+  parseDefinitions,
+  resolveEntityId,
+} from '../utils/definitions';
+
+const logger = getLogger('WorkspaceSymbolsProvider');
+
+/**
+ * Upper bound on returned symbols, clients filter further while typing
+ */
+const MAX_RESULTS = 200;
+
+/**
+ * Symbol kind per defined domain
+ */
+const DEFINITION_KINDS: Record<DefinitionDomain, SymbolKind> = {
+  automation: SymbolKind.Event,
+  script: SymbolKind.Function,
+  scene: SymbolKind.Object,
+};
+
+/**
+ * Entity ID reference, optionally through the template `states.` object
+ */
+const ENTITY_REFERENCE_PATTERN = /(?<![\w.])(states\.)?([a-z_][a-z0-9_]*\.[a-z0-9_]+)(?!\w)/g;
+
+/**
+ * Definitions and first entity references parsed from one file, reused
+ * while its text is unchanged
+ */
+interface ParsedFile {
+  text: string;
+  definitions: Definition[];
+  references: Map<string, Range>;
+}
+
+/**
+ * Link to an entity in Home Assistant, for entities the workspace never mentions
+ */
+export type EntityUriResolver = (entityId: string) => string | null;
+
+/**
+ * Workspace Symbols Provider
+ */
+export class WorkspaceSymbolsProvider {
+  private index: WorkspaceIndex;
+  private parsed: Map<string, ParsedFile> = new Map();
+
+  constructor(index: WorkspaceIndex) {
+    this.index = index;
+  }
+
+  /**
+   * Find definitions and live entities whose entity ID or name contains the query
+   */
+  provideWorkspaceSymbols(
+    query: string,
+    entities: Entity[],
+    registry: EntityRegistryEntry[],
+    getEntityUri: EntityUriResolver = () => null
+  ): SymbolInformation[] {
+    const needle = query.trim().toLowerCase();
+    const matches = (...values: string[]) =>
+      values.some((value) => value.toLowerCase().includes(needle));
+
+    const files = this.index.getFiles();
+    const symbols: SymbolInformation[] = [];
+    const defined = new Set<string>();
+
+    // Forget files that left the workspace
+    const uris = new Set(files.map((file) => file.uri));
+    for (const uri of this.parsed.keys()) {
+      if (!uris.has(uri)) {
+        this.parsed.delete(uri);
+      }
+    }
+
+    // First reference of every entity ID, in file order
+    const references = new Map<string, Location>();
+
+    for (const file of files) {
+      const parsed = this.getParsedFile(file);
+      for (const [entityId, range] of parsed.references) {
+        if (!references.has(entityId)) {
+          references.set(entityId, Location.create(file.uri, range));
+        }
+      }
+
+      for (const definition of parsed.definitions) {
+        const entityId = resolveEntityId(definition, registry);
+        defined.add(entityId);
+        if (symbols.length < MAX_RESULTS && matches(entityId, definition.name)) {
+          symbols.push(
+            SymbolInformation.create(
+              entityId,
+              DEFINITION_KINDS[definition.domain],
+              definition.range,
+              file.uri,
+              definition.name
+            )
+          );
+        }
+      }
+    }
+
+    // Live entities are located at their first use in the workspace, or else
+    // link to Home Assistant (listed after the ones used in the workspace)
+    const unreferenced: SymbolInformation[] = [];
+    for (const entity of entities) {
+      if (symbols.length + unreferenced.length >= MAX_RESULTS) {
+        break;
+      }
+
+      const friendlyName = entity.attributes?.friendly_name || '';
+      if (defined.has(entity.entity_id) || !matches(entity.entity_id, friendlyName)) {
+        continue;
+      }
+
+      const reference = references.get(entity.entity_id);
+      const uri = reference ? null : getEntityUri(entity.entity_id);
+      if (!reference && !uri) {
+        continue;
+      }
+
+      (reference ? symbols : unreferenced).push({
+        name: entity.entity_id,
+        kind: SymbolKind.Variable,
+        location: reference || Location.create(uri!, Range.create(0, 0, 0, 0)),
+        containerName: friendlyName || undefined,
+      });
+    }
+    symbols.push(...unreferenced);
+
+    logger.debug(`Workspace symbols for "${query}": ${symbols.length} results`);
+    return symbols;
+  }
+
+  /**
+   * Get the definitions and references of a file, parsing it only when its text changed
+   */
+  private getParsedFile(file: WorkspaceFile): ParsedFile {
+    const cached = this.parsed.get(file.uri);
+    if (cached && cached.text === file.text) {
+      return cached;
+    }
+
+    let definitions: Definition[] = [];
+    if (/\.ya?ml$/i.test(file.uri)) {
+      try {
+        definitions = parseDefinitions(file.text);
+      } catch (error) {
+        logger.warn(`Failed to index ${file.uri}`, error);
+      }
+    }
+
+    const parsed = { text: file.text, definitions, references: this.findReferences(file.text) };
+    this.parsed.set(file.uri, parsed);
+    return parsed;
+  }
+
+  /**
+   * Find the first reference to each entity ID-like token of a file
+   */
+  private findReferences(text: string): Map<string, Range> {
+    const references = new Map<string, Range>();
+    const lines = text.split('\n');
+
+    for (let lineNumber = 0; lineNumber < lines.length; lineNumber++) {
+      ENTITY_REFERENCE_PATTERN.lastIndex = 0;
+      let match;
+      while ((match = ENTITY_REFERENCE_PATTERN.exec(lines[lineNumber])) !== null) {
+        const entityId = match[2];
+        if (references.has(entityId)) {
+          continue;
+        }
+        const start = match.index + (match[1]?.length || 0);
+        references.set(
+          entityId,
+          Range.create(lineNumber, start, lineNumber, start + entityId.length)
+        );
+      }
+    }
+
+    return references;
+  }
+}
@@ -12,23 +12,44 @@ import {
   InitializeResult,
   TextDocumentSyncKind,
   ExecuteCommandParams,
+  ResponseError,
+  LSPErrorCodes,
+  DidChangeConfigurationNotification,
+  DidChangeWatchedFilesNotification,
+  FileChangeType,
+  CodeActionKind,
+  CodeLensRefreshRequest,
 } from 'vscode-languageserver/node';
 
+import * as fs from 'fs';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { HomeAssistantClient } from './ha-client';
-import { Cache, getCache } from './cache';
-import { CommandHandler } from './commands';
-import { CompletionProvider } from './providers/completion';
-import { HoverProvider } from './providers/hover';
-
-// Server configuration interface
-interface ServerConfig {
-  homeassistant: {
-    host: string;
-    token: string;
-    timeout?: number;
-  };
-}
+import { ConnectionState } from './ha-client';
+import {
+  HomeAssistantInstance,
+  InstanceOptions,
+  syncInstances,
+  resolveInstance,
+  extractInstanceArgument,
+} from './instance';
+import { StatusNotification } from './status';
+import { DefinitionProvider } from './providers/definition';
+import { ReferencesProvider } from './providers/references';
+import { SymbolsProvider } from './providers/symbols';
+import { WorkspaceSymbolsProvider } from './providers/workspace-symbols';
+import { CommandResult } from './commands';
+import { WorkspaceIndex, WATCH_PATTERN } from './workspace-index';
+import { CacheKeys } from './cache';
+import { Entity, EntityRegistryEntry, Services } from './types/homeassistant';
+import { uriToPath } from './utils/uri';
+import { extractEntityIds } from './utils/entities';
+import {
+  ServerConfig,
+  ConfigUpdate,
+  InstanceConfig,
+  getConfigManager,
+  getWebUrl,
+} from './utils/config';
+import { getLogger } from './utils/logger';
 
 // Create a connection for the server using Node's IPC as a transport
 const connection = createConnection(ProposedFeatures.all);
@@ -36,19 +57,65 @@ const connection = createConnection(ProposedFeatures.all);
 // Create a text document manager
 const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
 
-// Server configuration
-let serverConfig: ServerConfig | null = null;
+// Server messages go through the logger so tokens are redacted
+const logger = getLogger('Server');
+getLogger().setConnection(connection);
+
+// Server configuration (defaults, client settings and environment overrides)
+const configManager = getConfigManager();
+
+// Settings sections pulled through workspace/configuration
+const CONFIGURATION_SECTIONS = [
+  'homeassistant',
+  'instances',
+  'cache',
+  'diagnostics',
+  'completion',
+  'logging',
+];
+
+// Configuration changes are applied one after another
+let configurationQueue: Promise<void> = Promise.resolve();
 
 // Server state
 let hasConfigurationCapability = false;
+let hasConfigurationDynamicRegistration = false;
 let hasWorkspaceFolderCapability = false;
+let hasWorkDoneProgressCapability = false;
+let hasWatchedFilesDynamicRegistration = false;
+let hasInlayHintRefreshSupport = false;
+let hasCodeLensRefreshSupport = false;
+
+// Workspace folder paths, used to resolve !include and !secret references
+let workspaceFolders: string[] = [];
+
+// Home Assistant instances (client, cache, command handler and providers each),
+// in configuration order
+const instances: Map<string, HomeAssistantInstance> = new Map();
+
+// File-based providers work without a Home Assistant connection
+const workspaceIndex = new WorkspaceIndex(() => workspaceFolders, () => documents.all());
+const definitionProvider = new DefinitionProvider(() => workspaceFolders);
+const referencesProvider = new ReferencesProvider(
+  workspaceIndex,
+  (uri) => getInstance(uri)?.cache.get<Services>(CacheKeys.SERVICES) ?? null
+);
+const symbolsProvider = new SymbolsProvider();
+const workspaceSymbolsProvider = new WorkspaceSymbolsProvider(workspaceIndex);
+
+// Token files watched for changes
+const watchedTokenFiles: Set<string> = new Set();
+const TOKEN_FILE_POLL_INTERVAL = 2000; // 2 seconds
+
+// Pending debounced diagnostics runs, keyed by document URI
+const pendingDiagnostics: Map<string, NodeJS.Timeout> = new Map();
 
-// Initialize Home Assistant client, cache, command handler, and providers
-let haClient: HomeAssistantClient | null = null;
-let cache: Cache | null = null;
-let commandHandler: CommandHandler | null = null;
-let completionProvider: CompletionProvider | null = null;
-let hoverProvider: HoverProvider | null = null;
+// Entity IDs mentioned in open documents, recomputed when a document's version changes
+const documentEntityIds: Map<string, { version: number; entityIds: Set<string> }> = new Map();
+
+// Pending inlay hint and code lens refreshes, at most one per interval while states change
+const pendingRefreshes: Map<'inlayHint' | 'codeLens', NodeJS.Timeout> = new Map();
+const REFRESH_INTERVAL = 1000; // 1 second
 
 /**
  * Initialize the LSP server
@@ -60,28 +127,37 @@ connection.onInitialize((params: InitializeParams) => {
   hasConfigurationCapability = !!(
     capabilities.workspace && !!capabilities.workspace.configuration
   );
+  hasConfigurationDynamicRegistration = !!(
+    capabilities.workspace?.didChangeConfiguration?.dynamicRegistration
+  );
   hasWorkspaceFolderCapability = !!(
     capabilities.workspace && !!capabilities.workspace.workspaceFolders
   );
+  hasWorkDoneProgressCapability = !!capabilities.window?.workDoneProgress;
+  hasWatchedFilesDynamicRegistration = !!(
+    capabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration
+  );
+  hasInlayHintRefreshSupport = !!capabilities.workspace?.inlayHint?.refreshSupport;
+  hasCodeLensRefreshSupport = !!capabilities.workspace?.codeLens?.refreshSupport;
 
-  // Extract configuration from initialization options
-  if (params.initializationOptions) {
-    serverConfig = params.initializationOptions as ServerConfig;
-    connection.console.log(
-      `Configuration received via initializationOptions:`
-    );
-    connection.console.log(
-      `  - host: ${serverConfig?.homeassistant?.host ? serverConfig.homeassistant.host : 'MISSING'}`
-    );
-    connection.console.log(
-      `  - token: ${serverConfig?.homeassistant?.token ? '***PROVIDED***' : 'MISSING'}`
-    );
-    connection.console.log(
-      `  - timeout: ${serverConfig?.homeassistant?.timeout || 'default (5000ms)'}`
-    );
-  } else {
-    connection.console.warn('No initializationOptions provided by client');
+  // Remember workspace folders (fall back to the root URI for older clients)
+  if (params.workspaceFolders && params.workspaceFolders.length > 0) {
+    workspaceFolders = params.workspaceFolders
+      .map((folder) => uriToPath(folder.uri))
+      .filter((folder): folder is string => folder !== null);
+  } else if (params.rootUri) {
+    const rootPath = uriToPath(params.rootUri);
+    workspaceFolders = rootPath ? [rootPath] : [];
+  }
+
+  // Load configuration from initialization options (environment variables take precedence);
+  // token commands run in the background instead of delaying the initialize response
+  if (!params.initializationOptions) {
+    logger.warn('No initializationOptions provided by client');
   }
+  configurationQueue = configurationQueue.then(() =>
+    loadConfiguration(params.initializationOptions)
+  );
 
   const result: InitializeResult = {
     capabilities: {
@@ -93,6 +169,32 @@ connection.onInitialize((params: InitializeParams) => {
       },
       // Enable hover provider
       hoverProvider: true,
+      // Enable service field and template function signatures
+      signatureHelpProvider: {
+        triggerCharacters: ['(', ',', ':'],
+        retriggerCharacters: [' '],
+      },
+      // Enable definition provider (!include, !secret)
+      definitionProvider: true,
+      // Enable workspace-wide entity ID references and rename
+      referencesProvider: true,
+      renameProvider: capabilities.textDocument?.rename?.prepareSupport
+        ? { prepareProvider: true }
+        : true,
+      // Enable outline of automations, scripts, templates, packages and dashboards
+      documentSymbolProvider: true,
+      // Enable search for automations, scripts, scenes and entities
+      workspaceSymbolProvider: true,
+      // Enable quick fixes for unknown entity IDs
+      codeActionProvider: {
+        codeActionKinds: [CodeActionKind.QuickFix],
+      },
+      // Enable entity states shown next to entity IDs
+      inlayHintProvider: true,
+      // Enable run, trigger and toggle lenses on automations and scripts
+      codeLensProvider: {
+        resolveProvider: false,
+      },
       // Enable execute command provider
       executeCommandProvider: {
         commands: [
@@ -105,7 +207,16 @@ connection.onInitialize((params: InitializeParams) => {
           'homeassistant.listEntities',
           'homeassistant.listServices',
           'homeassistant.listAreas',
+          'homeassistant.listDevices',
+          'homeassistant.listFloors',
+          'homeassistant.listLabels',
           'homeassistant.callService',
+          'homeassistant.renameEntity',
+          'homeassistant.renderTemplate',
+          'homeassistant.triggerAutomation',
+          'homeassistant.toggleAutomation',
+          'homeassistant.runScript',
+          'homeassistant.listInstances',
         ],
       },
     },
@@ -127,73 +238,497 @@ connection.onInitialize((params: InitializeParams) => {
  * Server initialized - setup connections
  */
 connection.onInitialized(async () => {
+  // Wait for the initialization options to be loaded
+  await configurationQueue;
+
   if (hasConfigurationCapability) {
     // Configuration changes will be handled via onDidChangeConfiguration
-    connection.console.log('Client supports configuration capability');
+    logger.info('Client supports configuration capability');
+  }
+
+  // Pull-model clients only notify about changes to registered sections
+  if (hasConfigurationDynamicRegistration) {
+    connection.client
+      .register(DidChangeConfigurationNotification.type, { section: CONFIGURATION_SECTIONS })
+      .catch((error) => {
+        logger.error(`Failed to register for configuration changes: ${error}`);
+      });
+  }
+
+  // Keep the workspace index up to date from file-watch notifications
+  if (hasWatchedFilesDynamicRegistration) {
+    connection.client
+      .register(DidChangeWatchedFilesNotification.type, {
+        watchers: [{ globPattern: WATCH_PATTERN }],
+      })
+      .then(() => workspaceIndex.setWatched(true))
+      .catch((error) => {
+        logger.error(`Failed to register file watchers: ${error}`);
+      });
   }
 
   // Note: workspace folder change notifications are handled via capability declaration
   // in onInitialize, not through dynamic registration here, to avoid triggering
   // registerCapability when the client has dynamicRegistration set to false
+  if (hasWorkspaceFolderCapability) {
+    connection.workspace.onDidChangeWorkspaceFolders((event) => {
+      const removed = event.removed.map((folder) => uriToPath(folder.uri));
+      const added = event.added
+        .map((folder) => uriToPath(folder.uri))
+        .filter((folder): folder is string => folder !== null);
+
+      workspaceFolders = [
+        ...workspaceFolders.filter((folder) => !removed.includes(folder)),
+        ...added,
+      ];
+      workspaceIndex.invalidate();
+      logger.info(`Workspace folders changed: ${workspaceFolders.join(', ')}`);
+    });
+  }
+
+  // Workspace settings take precedence over initialization options
+  if (hasConfigurationCapability) {
+    await pullConfiguration();
+  }
 
   // Validate configuration
-  if (!serverConfig?.homeassistant?.host || !serverConfig?.homeassistant?.token) {
+  if (!configManager.isLoaded()) {
     // Log error but DO NOT show UI prompts (blocks Neovim)
-    connection.console.error(
-      'Missing required configuration: homeassistant.host and homeassistant.token'
+    logger.error(
+      'Missing required configuration: homeassistant.host and homeassistant.token (or instances)'
     );
-    connection.console.error(
+    logger.error(
       'Please provide configuration via initializationOptions or workspace settings'
     );
-    return; // Exit early without initializing
+    return; // Providers are initialized once a valid configuration arrives
+  }
+
+  await applyInstanceConfig();
+});
+
+/**
+ * Load the configuration from initialization options
+ */
+async function loadConfiguration(initializationOptions: unknown): Promise<void> {
+  try {
+    await configManager.load(initializationOptions);
+    applyConfig();
+
+    logger.info('Configuration loaded:');
+    for (const hass of configManager.getInstanceConfigs()) {
+      const tokenSource = hass.tokenFile
+        ? `from ${hass.tokenFile}`
+        : hass.tokenCommand
+          ? 'from tokenCommand'
+          : '***PROVIDED***';
+      logger.info(
+        `  - ${hass.name}: host ${hass.host}, token ${tokenSource}, ` +
+          `timeout ${hass.timeout ? `${hass.timeout}ms` : 'default (30000ms)'}`
+      );
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Invalid configuration: ${errorMsg}`);
   }
+}
+
+/**
+ * Handle file-watch notifications
+ */
+connection.onDidChangeWatchedFiles((params) => {
+  for (const change of params.changes) {
+    const filePath = uriToPath(change.uri);
+    if (!filePath) {
+      continue;
+    }
+
+    // Created and deleted files change the file list, edits only the contents
+    if (change.type === FileChangeType.Changed) {
+      workspaceIndex.invalidateFile(filePath);
+    } else {
+      workspaceIndex.invalidate(filePath);
+    }
+  }
+});
+
+/**
+ * Handle configuration changes
+ */
+connection.onDidChangeConfiguration((change) => {
+  // Changes are applied in order so a slow reconnect cannot overtake a newer one
+  configurationQueue = configurationQueue.then(async () => {
+    if (hasConfigurationCapability) {
+      // Pull model: the notification only signals that settings changed
+      await pullConfiguration();
+    } else if (change.settings && typeof change.settings === 'object') {
+      await updateConfiguration(change.settings);
+    }
+
+    if (configManager.isLoaded()) {
+      await applyInstanceConfig();
+    }
+  });
+});
 
-  // Initialize Home Assistant client and services
+/**
+ * Request the server's settings sections from the client
+ */
+async function pullConfiguration(): Promise<void> {
   try {
-    haClient = new HomeAssistantClient();
-    cache = getCache();
-    commandHandler = new CommandHandler(haClient, cache);
-
-    // Connect to Home Assistant
-    await haClient.connect(
-      serverConfig.homeassistant.host,
-      serverConfig.homeassistant.token
+    const values = await connection.workspace.getConfiguration(
+      CONFIGURATION_SECTIONS.map((section) => ({ section }))
     );
 
-    connection.console.log('Home Assistant LSP Server initialized successfully');
-    connection.console.log(`Connected to Home Assistant at ${serverConfig.homeassistant.host}`);
+    // Clients return null for sections they do not know
+    const settings: Record<string, unknown> = {};
+    CONFIGURATION_SECTIONS.forEach((section, index) => {
+      if (values[index] && typeof values[index] === 'object') {
+        settings[section] = values[index];
+      }
+    });
 
-    // Initialize providers
-    completionProvider = new CompletionProvider(haClient, cache);
-    hoverProvider = new HoverProvider(haClient, cache);
+    if (Object.keys(settings).length > 0) {
+      await updateConfiguration(settings);
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to pull workspace configuration: ${errorMsg}`);
+  }
+}
+
+/**
+ * Merge new settings into the configuration and apply the local ones
+ */
+async function updateConfiguration(settings: ConfigUpdate): Promise<void> {
+  try {
+    if (configManager.isLoaded()) {
+      await configManager.update(settings);
+    } else {
+      await configManager.load(settings, 'workspace');
+    }
+    applyConfig();
+    logger.info('Configuration updated');
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Invalid configuration update: ${errorMsg}`);
+  }
+}
 
-    connection.console.log('LSP providers initialized');
+/**
+ * Start, stop or reconnect instances to match the configuration
+ */
+async function applyInstanceConfig(): Promise<void> {
+  watchTokenFiles();
+
+  const created = await syncInstances(
+    instances,
+    configManager.getInstanceConfigs(),
+    getInstanceOptions(),
+    createInstance
+  );
+  await Promise.all(created.map(startInstance));
+}
+
+/**
+ * Follow the configured token files, reconnecting when a token changes
+ */
+function watchTokenFiles(): void {
+  const tokenFiles = new Set(configManager.isLoaded() ? configManager.getTokenFiles() : []);
+
+  for (const file of watchedTokenFiles) {
+    if (!tokenFiles.has(file)) {
+      fs.unwatchFile(file);
+      watchedTokenFiles.delete(file);
+    }
+  }
+
+  for (const file of tokenFiles) {
+    if (watchedTokenFiles.has(file)) {
+      continue;
+    }
+
+    // Polling also notices files that are replaced rather than rewritten
+    fs.watchFile(file, { interval: TOKEN_FILE_POLL_INTERVAL, persistent: false }, () => {
+      configurationQueue = configurationQueue.then(reloadTokens);
+    });
+    watchedTokenFiles.add(file);
+  }
+}
+
+/**
+ * Read token files again and reconnect instances whose token changed
+ */
+async function reloadTokens(): Promise<void> {
+  try {
+    if (await configManager.refreshTokens()) {
+      logger.info('Token changed, reconnecting to Home Assistant');
+      await applyInstanceConfig();
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to reload token: ${errorMsg}`);
+  }
+}
+
+/**
+ * Create an instance and follow its connection
+ */
+function createInstance(config: InstanceConfig): HomeAssistantInstance {
+  const instance = new HomeAssistantInstance(config, getInstanceOptions());
+
+  instance.client.on('error', (error: Error) => {
+    logger.error(
+      `Home Assistant connection error (${instance.name}): ${error.message}`
+    );
+  });
+  instance.client.on('auth_failed', (message: string) => {
+    logger.error(
+      `Home Assistant ${instance.name} rejected the access token (${message}); ` +
+        'reconnecting once the token or connection settings change'
+    );
+  });
+  instance.client.on('reconnecting', (attempt: number, delay: number) => {
+    logger.info(
+      `Reconnecting to Home Assistant ${instance.name} (attempt ${attempt}) in ${delay}ms`
+    );
+  });
+  instance.client.on('state', (state: ConnectionState) => {
+    if (state !== ConnectionState.CONNECTED) {
+      return;
+    }
+
+    // Validate the instance's open documents again once entity data is available
+    for (const document of documents.all()) {
+      if (getInstance(document.uri) === instance) {
+        scheduleDiagnostics(document, 0);
+      }
+    }
+
+    // Load metadata in the background, never holding up the editor
+    preloadInstance(instance);
+    scheduleRefresh('inlayHint');
+    scheduleRefresh('codeLens');
+  });
+
+  // Show changed states of entities referenced in open documents
+  instance.entityStore.on('entities:changed', (entityIds: string[]) => {
+    const shown = documents.all().some((document) => {
+      if (getInstance(document.uri) !== instance) {
+        return false;
+      }
+      const mentioned = getDocumentEntityIds(document);
+      return entityIds.some((entityId) => mentioned.has(entityId));
+    });
+    if (shown) {
+      scheduleRefresh('inlayHint');
+    }
+
+    // Lenses show whether automations are enabled and when they last ran
+    if (entityIds.some((entityId) => /^(automation|script)\./.test(entityId))) {
+      scheduleRefresh('codeLens');
+    }
+  });
+
+  // Keep the editor's statusline current
+  instance.status.on('status', (params) => {
+    connection.sendNotification(StatusNotification, params);
+  });
+
+  logger.info(`LSP providers initialized for ${instance.name}`);
+  return instance;
+}
+
+/**
+ * Connect an instance to Home Assistant
+ */
+async function startInstance(instance: HomeAssistantInstance): Promise<void> {
+  const { host } = instance.getConfig();
+
+  try {
+    await instance.start();
+
+    logger.info('Home Assistant LSP Server initialized successfully');
+    logger.info(`Connected to Home Assistant ${instance.name} at ${host}`);
     // NO UI prompts - silent initialization for better Neovim integration
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
-    connection.console.error(`Failed to connect to Home Assistant: ${errorMsg}`);
+    logger.error(`Failed to connect to Home Assistant ${instance.name}: ${errorMsg}`);
     // Log error but DO NOT show UI prompts
   }
-});
+}
 
 /**
- * Handle configuration changes
+ * Load an instance's entities, services and registries, reporting progress
+ * to clients that support work done progress
  */
-connection.onDidChangeConfiguration((change) => {
-  if (change.settings?.homeassistant) {
-    serverConfig = {
-      homeassistant: change.settings.homeassistant,
-    };
-    connection.console.log('Configuration updated');
+async function preloadInstance(instance: HomeAssistantInstance): Promise<void> {
+  try {
+    const progress = hasWorkDoneProgressCapability
+      ? await connection.window.createWorkDoneProgress()
+      : null;
+    progress?.begin(`Home Assistant (${instance.name})`, 0, 'Loading entities and services');
+
+    await instance.preload((label, done, total) => {
+      progress?.report(Math.round((done / total) * 100), `Loaded ${label} (${done}/${total})`);
+    });
+
+    progress?.done();
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to load Home Assistant data (${instance.name}): ${errorMsg}`);
   }
-});
+}
+
+/**
+ * Disconnect every instance (resolves once their snapshots are written)
+ */
+async function stopInstances(): Promise<void> {
+  const stopping = Array.from(instances.values()).map((instance) => instance.stop());
+  instances.clear();
+  await Promise.all(stopping);
+}
+
+/**
+ * Get the instance a document belongs to
+ */
+function getInstance(uri: string): HomeAssistantInstance | null {
+  return resolveInstance(Array.from(instances.values()), uriToPath(uri), workspaceFolders);
+}
+
+/**
+ * Get the entity IDs mentioned in an open document
+ */
+function getDocumentEntityIds(document: TextDocument): Set<string> {
+  const cached = documentEntityIds.get(document.uri);
+  if (cached && cached.version === document.version) {
+    return cached.entityIds;
+  }
+
+  const entityIds = extractEntityIds(document.getText());
+  documentEntityIds.set(document.uri, { version: document.version, entityIds });
+  return entityIds;
+}
+
+/**
+ * Get the instance used when none is named (the first unscoped one)
+ */
+function getDefaultInstance(): HomeAssistantInstance | null {
+  return resolveInstance(Array.from(instances.values()), null, workspaceFolders);
+}
+
+/**
+ * Apply logging, cache and completion settings to the running server
+ */
+function applyConfig(): void {
+  const logging = configManager.getLoggingConfig();
+  const rootLogger = getLogger();
+  rootLogger.setLevel(logging.level);
+  rootLogger.setFile(logging.file);
+
+  for (const instance of instances.values()) {
+    instance.configure(getInstanceOptions());
+  }
+}
+
+/**
+ * Get the server-wide settings shared by every instance
+ */
+function getInstanceOptions(): InstanceOptions {
+  return {
+    cache: configManager.getCacheConfig(),
+    completion: configManager.getCompletionConfig(),
+  };
+}
+
+/**
+ * Schedule a debounced diagnostics run for a document
+ */
+function scheduleDiagnostics(document: TextDocument, delay?: number): void {
+  if (instances.size === 0) {
+    return;
+  }
+
+  const diagnosticsConfig = configManager.getDiagnosticsConfig();
+  if (!diagnosticsConfig.enabled) {
+    return;
+  }
+
+  const uri = document.uri;
+  const pending = pendingDiagnostics.get(uri);
+  if (pending) {
+    clearTimeout(pending);
+  }
+
+  const debounce = delay ?? diagnosticsConfig.debounce;
+
+  pendingDiagnostics.set(
+    uri,
+    setTimeout(() => {
+      pendingDiagnostics.delete(uri);
+      validateDocument(uri);
+    }, debounce)
+  );
+}
+
+/**
+ * Ask the client to request inlay hints or code lenses again, throttled
+ * while states change
+ */
+function scheduleRefresh(kind: 'inlayHint' | 'codeLens'): void {
+  const supported = kind === 'inlayHint' ? hasInlayHintRefreshSupport : hasCodeLensRefreshSupport;
+  if (!supported || pendingRefreshes.has(kind)) {
+    return;
+  }
+
+  pendingRefreshes.set(
+    kind,
+    setTimeout(() => {
+      pendingRefreshes.delete(kind);
+      const refresh =
+        kind === 'inlayHint'
+          ? connection.languages.inlayHint.refresh()
+          : connection.sendRequest(CodeLensRefreshRequest.type);
+      refresh.catch((error) => {
+        logger.error(`Failed to refresh ${kind}: ${error}`);
+      });
+    }, REFRESH_INTERVAL)
+  );
+}
+
+/**
+ * Compute and publish diagnostics for the current version of a document
+ */
+async function validateDocument(uri: string): Promise<void> {
+  const document = documents.get(uri);
+  const instance = getInstance(uri);
+  if (!document || !instance) {
+    return;
+  }
+
+  try {
+    const version = document.version;
+    const diagnostics = await instance.diagnosticsProvider.provideDiagnostics(document);
+
+    // Drop results for documents that were closed or edited in the meantime
+    const current = documents.get(uri);
+    if (!current || current.version !== version) {
+      return;
+    }
+
+    connection.sendDiagnostics({ uri, version, diagnostics });
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Diagnostics error: ${errorMsg}`);
+  }
+}
 
 /**
  * Completion handler
  */
 connection.onCompletion(async (params) => {
-  if (!completionProvider) {
-    connection.console.warn('Completion provider not initialized');
+  const instance = getInstance(params.textDocument.uri);
+  if (!instance) {
+    logger.warn('Completion provider not initialized');
     return [];
   }
 
@@ -203,10 +738,10 @@ connection.onCompletion(async (params) => {
   }
 
   try {
-    return await completionProvider.provideCompletionItems(document, params);
+    return await instance.completionProvider.provideCompletionItems(document, params);
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
-    connection.console.error(`Completion error: ${errorMsg}`);
+    logger.error(`Completion error: ${errorMsg}`);
     return [];
   }
 });
@@ -215,49 +750,287 @@ connection.onCompletion(async (params) => {
  * Hover handler
  */
 connection.onHover(async (params) => {
-  if (!hoverProvider) {
-    connection.console.warn('Hover provider not initialized');
+  const instance = getInstance(params.textDocument.uri);
+  if (!instance) {
+    logger.warn('Hover provider not initialized');
+    return null;
+  }
+
+  const document = documents.get(params.textDocument.uri);
+  if (!document) {
     return null;
   }
 
+  try {
+    return await instance.hoverProvider.provideHover(document, params);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Hover error: ${errorMsg}`);
+    return null;
+  }
+});
+
+/**
+ * Signature help handler
+ */
+connection.onSignatureHelp(async (params) => {
+  const instance = getInstance(params.textDocument.uri);
+  if (!instance) {
+    return null;
+  }
+
+  const document = documents.get(params.textDocument.uri);
+  if (!document) {
+    return null;
+  }
+
+  try {
+    return await instance.signatureHelpProvider.provideSignatureHelp(document, params);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Signature help error: ${errorMsg}`);
+    return null;
+  }
+});
+
+/**
+ * Code action handler
+ */
+connection.onCodeAction(async (params) => {
+  const instance = getInstance(params.textDocument.uri);
+  if (!instance) {
+    return [];
+  }
+
+  const document = documents.get(params.textDocument.uri);
+  if (!document) {
+    return [];
+  }
+
+  try {
+    return await instance.codeActionsProvider.provideCodeActions(document, params);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Code action error: ${errorMsg}`);
+    return [];
+  }
+});
+
+/**
+ * Inlay hint handler
+ */
+connection.languages.inlayHint.on(async (params) => {
+  const instance = getInstance(params.textDocument.uri);
+  if (!instance) {
+    return [];
+  }
+
+  const document = documents.get(params.textDocument.uri);
+  if (!document) {
+    return [];
+  }
+
+  try {
+    return await instance.inlayHintsProvider.provideInlayHints(document, params.range);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Inlay hint error: ${errorMsg}`);
+    return [];
+  }
+});
+
+/**
+ * Code lens handler
+ */
+connection.onCodeLens(async (params) => {
+  const instance = getInstance(params.textDocument.uri);
+  if (!instance) {
+    return [];
+  }
+
+  const document = documents.get(params.textDocument.uri);
+  if (!document) {
+    return [];
+  }
+
+  try {
+    const lenses = await instance.codeLensProvider.provideCodeLenses(document);
+
+    // Lens commands run against the instance the document belongs to
+    for (const lens of lenses) {
+      lens.command?.arguments?.push({ instance: instance.name });
+    }
+    return lenses;
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Code lens error: ${errorMsg}`);
+    return [];
+  }
+});
+
+/**
+ * Definition handler
+ */
+connection.onDefinition((params) => {
   const document = documents.get(params.textDocument.uri);
   if (!document) {
     return null;
   }
 
   try {
-    return await hoverProvider.provideHover(document, params);
+    return definitionProvider.provideDefinition(document, params);
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
-    connection.console.error(`Hover error: ${errorMsg}`);
+    logger.error(`Definition error: ${errorMsg}`);
     return null;
   }
 });
 
+/**
+ * References handler
+ */
+connection.onReferences((params) => {
+  const document = documents.get(params.textDocument.uri);
+  if (!document) {
+    return [];
+  }
+
+  try {
+    return referencesProvider.provideReferences(document, params);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`References error: ${errorMsg}`);
+    return [];
+  }
+});
+
+/**
+ * Document symbols handler
+ */
+connection.onDocumentSymbol((params) => {
+  const document = documents.get(params.textDocument.uri);
+  if (!document) {
+    return [];
+  }
+
+  try {
+    return symbolsProvider.provideDocumentSymbols(document);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Document symbols error: ${errorMsg}`);
+    return [];
+  }
+});
+
+/**
+ * Workspace symbols handler
+ */
+connection.onWorkspaceSymbol((params) => {
+  try {
+    // Cached states and registries of every instance, without fetching
+    const entities: Entity[] = [];
+    const registry: EntityRegistryEntry[] = [];
+    const webUrls = new Map<string, string | null>();
+    for (const instance of instances.values()) {
+      const states = instance.cache.get<Entity[]>(CacheKeys.ENTITIES) || [];
+      const webUrl = getWebUrl(instance.getConfig().host);
+      for (const entity of states) {
+        if (!webUrls.has(entity.entity_id)) {
+          webUrls.set(entity.entity_id, webUrl);
+        }
+      }
+      entities.push(...states);
+      registry.push(
+        ...(instance.cache.get<EntityRegistryEntry[]>(CacheKeys.ENTITY_REGISTRY) || [])
+      );
+    }
+
+    // Entities the workspace never mentions link to their history in Home Assistant
+    return workspaceSymbolsProvider.provideWorkspaceSymbols(
+      params.query,
+      entities,
+      registry,
+      (entityId) => {
+        const webUrl = webUrls.get(entityId);
+        return webUrl ? `${webUrl}/history?entity_id=${encodeURIComponent(entityId)}` : null;
+      }
+    );
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Workspace symbols error: ${errorMsg}`);
+    return [];
+  }
+});
+
+/**
+ * Prepare rename handler
+ */
+connection.onPrepareRename((params) => {
+  const document = documents.get(params.textDocument.uri);
+  if (!document) {
+    return null;
+  }
+
+  return referencesProvider.prepareRename(document, params);
+});
+
+/**
+ * Rename handler
+ */
+connection.onRenameRequest((params) => {
+  const document = documents.get(params.textDocument.uri);
+  if (!document) {
+    return null;
+  }
+
+  try {
+    return referencesProvider.provideRenameEdits(document, params, params.newName);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Rename error: ${errorMsg}`);
+    // Surface validation errors (e.g. an invalid new entity ID) to the editor
+    return new ResponseError(LSPErrorCodes.RequestFailed, errorMsg);
+  }
+});
+
 /**
  * Execute command handler
  */
 connection.onExecuteCommand(async (params: ExecuteCommandParams) => {
   try {
-    connection.console.log(`Execute command: ${params.command}`);
+    logger.info(`Execute command: ${params.command}`);
 
-    if (!commandHandler) {
+    if (instances.size === 0) {
       return {
         success: false,
         error: 'Command handler not initialized',
       };
     }
 
-    const result = await commandHandler.executeCommand(
-      params.command,
-      params.arguments
-    );
+    if (params.command === 'homeassistant.listInstances') {
+      return listInstances();
+    }
+
+    // A trailing { instance: name } argument selects the instance
+    const { instance: name, args } = extractInstanceArgument(params.arguments);
+    const instance = name ? instances.get(name) : getDefaultInstance();
+    if (!instance) {
+      return {
+        success: false,
+        error: name
+          ? `Unknown Home Assistant instance: ${name}`
+          : 'No default Home Assistant instance is configured (every instance has folders ' +
+            'or patterns); pass { "instance": "<name>" } as the last argument',
+      };
+    }
 
-    connection.console.log(`Command result: ${JSON.stringify(result)}`);
+    const result = await instance.commandHandler.executeCommand(params.command, args);
+
+    logger.info(`Command result: ${JSON.stringify(result)}`);
     return result;
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
-    connection.console.error(`Command execution error: ${errorMsg}`);
+    logger.error(`Command execution error: ${errorMsg}`);
     return {
       success: false,
       error: errorMsg,
@@ -265,56 +1038,97 @@ connection.onExecuteCommand(async (params: ExecuteCommandParams) => {
   }
 });
 
+/**
+ * List the configured instances and their connection state
+ */
+function listInstances(): CommandResult {
+  const defaultInstance = getDefaultInstance();
+
+  return {
+    success: true,
+    data: Array.from(instances.values()).map((instance) => ({
+      ...instance.getStatus(),
+      default: instance === defaultInstance,
+    })),
+  };
+}
+
 /**
  * Document opened event
  */
 documents.onDidOpen(async (event) => {
-  connection.console.log(
+  logger.info(
     `Document opened: ${event.document.uri} (${event.document.languageId})`
   );
 });
 
 /**
- * Document changed event
+ * Document changed event (also fired when a document is opened)
  */
 documents.onDidChangeContent(async (event) => {
-  connection.console.log(`Document changed: ${event.document.uri}`);
+  logger.info(`Document changed: ${event.document.uri}`);
+  scheduleDiagnostics(event.document);
 });
 
 /**
  * Document closed event
  */
 documents.onDidClose((event) => {
-  connection.console.log(`Document closed: ${event.document.uri}`);
+  logger.info(`Document closed: ${event.document.uri}`);
+
+  const pending = pendingDiagnostics.get(event.document.uri);
+  if (pending) {
+    clearTimeout(pending);
+    pendingDiagnostics.delete(event.document.uri);
+  }
+
+  documentEntityIds.delete(event.document.uri);
+
+  // Clear diagnostics for the closed document
+  connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
 });
 
 /**
  * Graceful shutdown handler
  */
-connection.onShutdown(() => {
-  connection.console.log('Server shutting down...');
+connection.onShutdown(async () => {
+  logger.info('Server shutting down...');
   
-  // Cleanup: disconnect Home Assistant client
-  if (haClient) {
-    haClient.disconnect();
+  // Cleanup: cancel pending diagnostics runs
+  for (const pending of pendingDiagnostics.values()) {
+    clearTimeout(pending);
   }
-  
-  // Cleanup: destroy cache
-  if (cache) {
-    cache.destroy();
+  pendingDiagnostics.clear();
+
+  // Cleanup: cancel pending inlay hint and code lens refreshes
+  for (const pending of pendingRefreshes.values()) {
+    clearTimeout(pending);
   }
+  pendingRefreshes.clear();
+
+  // Cleanup: stop live entity updates, disconnect, save snapshots and destroy caches
+  await stopInstances();
+
+  // Cleanup: stop watching token files
+  for (const file of watchedTokenFiles) {
+    fs.unwatchFile(file);
+  }
+  watchedTokenFiles.clear();
+
+  // Cleanup: close the log file
+  getLogger().setFile();
 });
 
 /**
  * Exit handler
  */
 connection.onExit(() => {
-  connection.console.log('Server exited');
+  logger.info('Server exited');
 });
 
 // Export configuration accessor for other modules
 export function getConfig(): ServerConfig | null {
-  return serverConfig;
+  return configManager.isLoaded() ? configManager.getConfig() : null;
 }
 
 export { connection, documents };
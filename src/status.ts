@@ -0,0 +1,200 @@
+/**
+ * Connection Status
+ * Summarises the connection of an instance for the editor statusline
+ */
+
+import { EventEmitter } from 'events';
+import { NotificationType } from 'vscode-languageserver';
+import { HomeAssistantClient, ConnectionState } from './ha-client';
+import { Cache } from './cache';
+
+/**
+ * Connection states reported to the editor
+ */
+export type StatusState =
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'authFailed'
+  | 'disconnected';
+
+/**
+ * Parameters of the homeassistant/status notification
+ */
+export interface StatusParams {
+  instance: string;
+  state: StatusState;
+  message: string; // ready to show in a statusline
+  retryIn?: number; // milliseconds until the next reconnect attempt
+  snapshotTime?: string; // ISO time of the offline snapshot in use
+}
+
+/**
+ * Custom notification sent whenever the status of an instance changes
+ */
+export const StatusNotification = new NotificationType<StatusParams>('homeassistant/status');
+
+/**
+ * Status tracker, emits 'status' with StatusParams on every change
+ */
+export class StatusTracker extends EventEmitter {
+  private name: string;
+  private haClient: HomeAssistantClient;
+  private cache: Cache;
+  private state: StatusState = 'disconnected';
+  private retryIn: number | null = null;
+  private snapshotTime: Date | null = null;
+  private lastStatus: string | null = null;
+  private stateListener: (state: ConnectionState) => void;
+  private reconnectingListener: (attempt: number, delay: number) => void;
+  private authFailedListener: () => void;
+  private snapshotListener: (key: string) => void;
+
+  constructor(name: string, haClient: HomeAssistantClient, cache: Cache) {
+    super();
+    this.name = name;
+    this.haClient = haClient;
+    this.cache = cache;
+
+    this.stateListener = (state: ConnectionState) => this.handleState(state);
+
+    this.reconnectingListener = (_attempt: number, delay: number) => {
+      // A rejected token stays the reported problem
+      if (this.state !== 'authFailed') {
+        this.state = 'reconnecting';
+      }
+      this.retryIn = delay;
+      this.update();
+    };
+
+    this.authFailedListener = () => {
+      // The client stops retrying until the token changes
+      this.state = 'authFailed';
+      this.retryIn = null;
+      this.update();
+    };
+
+    this.snapshotListener = (key: string) => {
+      if (this.haClient.isConnected()) {
+        return;
+      }
+      this.snapshotTime = this.cache.getSnapshotTime(key);
+      this.update();
+    };
+  }
+
+  /**
+   * Start following the client and cache
+   */
+  start(): void {
+    this.haClient.on('state', this.stateListener);
+    this.haClient.on('reconnecting', this.reconnectingListener);
+    this.haClient.on('auth_failed', this.authFailedListener);
+    this.cache.on('cache:snapshot', this.snapshotListener);
+  }
+
+  /**
+   * Stop following the client and cache
+   */
+  stop(): void {
+    this.haClient.off('state', this.stateListener);
+    this.haClient.off('reconnecting', this.reconnectingListener);
+    this.haClient.off('auth_failed', this.authFailedListener);
+    this.cache.off('cache:snapshot', this.snapshotListener);
+  }
+
+  /**
+   * Read the current client state (for transitions the client does not emit)
+   */
+  refresh(): void {
+    this.handleState(this.haClient.getState());
+  }
+
+  /**
+   * Get the current status
+   */
+  getStatus(): StatusParams {
+    const status: StatusParams = {
+      instance: this.name,
+      state: this.state,
+      message: this.formatMessage(),
+    };
+
+    if (this.retryIn !== null && this.state === 'reconnecting') {
+      status.retryIn = this.retryIn;
+    }
+    if (this.snapshotTime) {
+      status.snapshotTime = this.snapshotTime.toISOString();
+    }
+
+    return status;
+  }
+
+  /**
+   * Apply a client connection state
+   */
+  private handleState(state: ConnectionState): void {
+    if (state === ConnectionState.CONNECTED) {
+      this.state = 'connected';
+      this.retryIn = null;
+      this.snapshotTime = null;
+    } else if (this.state === 'authFailed') {
+      // Keep reporting the rejected token until a connection succeeds
+      return;
+    } else if (
+      state === ConnectionState.CONNECTING ||
+      state === ConnectionState.AUTHENTICATING
+    ) {
+      this.state = 'connecting';
+    } else {
+      this.state = 'disconnected';
+    }
+
+    this.update();
+  }
+
+  /**
+   * Emit the status if it changed
+   */
+  private update(): void {
+    const status = this.getStatus();
+    const serialized = JSON.stringify(status);
+    if (serialized === this.lastStatus) {
+      return;
+    }
+
+    this.lastStatus = serialized;
+    this.emit('status', status);
+  }
+
+  /**
+   * Format the status for display
+   */
+  private formatMessage(): string {
+    const retry = this.retryIn !== null ? `${Math.ceil(this.retryIn / 1000)}s` : null;
+
+    let message: string;
+    switch (this.state) {
+      case 'connecting':
+        message = 'connecting';
+        break;
+      case 'connected':
+        message = 'connected';
+        break;
+      case 'reconnecting':
+        message = retry ? `reconnecting in ${retry}` : 'reconnecting';
+        break;
+      case 'authFailed':
+        message = 'authentication failed, waiting for a new token';
+        break;
+      default:
+        message = 'disconnected';
+    }
+
+    if (this.snapshotTime) {
+      message += ` (offline snapshot from ${this.snapshotTime.toLocaleString()})`;
+    }
+
+    return `Home Assistant (${this.name}): ${message}`;
+  }
+}
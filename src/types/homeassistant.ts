@@ -15,12 +15,110 @@ export interface Entity {
   };
 }
 
+/**
+ * Entity filter of entity selectors and service targets
+ */
+export interface EntityFilter {
+  integration?: string;
+  domain?: string | string[];
+  device_class?: string | string[];
+  supported_features?: number | number[];
+}
+
+export interface EntitySelector extends EntityFilter {
+  filter?: EntityFilter | EntityFilter[];
+  multiple?: boolean;
+}
+
+export interface NumberSelector {
+  min?: number;
+  max?: number;
+  step?: number | 'any';
+  mode?: 'box' | 'slider';
+  unit_of_measurement?: string;
+}
+
+export interface SelectOption {
+  value: string;
+  label: string;
+}
+
+export interface SelectSelector {
+  options?: (string | SelectOption)[];
+  multiple?: boolean;
+  custom_value?: boolean;
+}
+
+/**
+ * Selector of a service field, keyed by selector type (options are null when unset)
+ */
+export interface Selector {
+  entity?: EntitySelector | null;
+  number?: NumberSelector | null;
+  select?: SelectSelector | null;
+  [type: string]: object | null | undefined;
+}
+
+export interface ServiceField {
+  name?: string;
+  description?: string;
+  required?: boolean;
+  advanced?: boolean;
+  example?: unknown;
+  default?: unknown;
+  selector?: Selector;
+  filter?: { attribute?: Record<string, unknown[]>; supported_features?: number[] };
+  // Collapsible sections group other fields
+  collapsed?: boolean;
+  fields?: Record<string, ServiceField>;
+}
+
+/**
+ * Compressed entity state sent by `subscribe_entities`
+ */
+export interface CompressedState {
+  s: string; // state
+  a: Entity['attributes']; // attributes
+  c: string | { id: string; parent_id: string | null; user_id: string | null }; // context
+  lc: number; // last_changed (unix timestamp in seconds)
+  lu?: number; // last_updated, omitted when equal to last_changed
+}
+
+export interface CompressedStateDiff {
+  '+'?: Partial<CompressedState>;
+  '-'?: { a?: string[] };
+}
+
+export interface EntitiesEvent {
+  a?: Record<string, CompressedState>; // added
+  c?: Record<string, CompressedStateDiff>; // changed
+  r?: string[]; // removed
+}
+
+export interface TemplateListeners {
+  all: boolean; // listens to every state change
+  entities: string[];
+  domains: string[];
+  time: boolean; // re-renders as time passes (now(), utcnow())
+}
+
+export interface RenderTemplateResult {
+  result: unknown;
+  listeners: TemplateListeners;
+  warnings?: string[];
+}
+
 export interface Service {
   domain: string;
   service: string;
   name?: string;
   description?: string;
-  fields?: Record<string, any>;
+  fields?: Record<string, ServiceField>;
+  target?: {
+    entity?: EntityFilter | EntityFilter[];
+    device?: { integration?: string; manufacturer?: string; model?: string }[];
+  } | null;
+  response?: { optional: boolean } | null;
 }
 
 export interface Services {
@@ -29,6 +127,24 @@ export interface Services {
   };
 }
 
+export interface ServiceTarget {
+  entity_id?: string | string[];
+  device_id?: string | string[];
+  area_id?: string | string[];
+  floor_id?: string | string[];
+  label_id?: string | string[];
+}
+
+export interface ServiceCallResult {
+  context: {
+    id: string;
+    parent_id: string | null;
+    user_id: string | null;
+  };
+  // Only present when the call was made with return_response
+  response?: unknown;
+}
+
 export interface Config {
   latitude: number;
   longitude: number;
@@ -44,6 +160,61 @@ export interface Config {
   version: string;
 }
 
+export interface AreaRegistryEntry {
+  area_id: string;
+  name: string;
+  floor_id?: string | null;
+  icon?: string | null;
+  picture?: string | null;
+  aliases?: string[];
+  labels?: string[];
+}
+
+export interface DeviceRegistryEntry {
+  id: string;
+  name: string | null;
+  name_by_user: string | null;
+  manufacturer: string | null;
+  model: string | null;
+  area_id: string | null;
+  labels?: string[];
+  disabled_by?: string | null;
+  entry_type?: string | null;
+  via_device_id?: string | null;
+}
+
+export interface EntityRegistryEntry {
+  id?: string;
+  entity_id: string;
+  unique_id?: string;
+  platform: string;
+  device_id: string | null;
+  area_id: string | null;
+  name: string | null;
+  original_name?: string | null;
+  icon?: string | null;
+  labels?: string[];
+  disabled_by?: string | null;
+  hidden_by?: string | null;
+  entity_category?: string | null;
+}
+
+export interface FloorRegistryEntry {
+  floor_id: string;
+  name: string;
+  level: number | null;
+  icon?: string | null;
+  aliases?: string[];
+}
+
+export interface LabelRegistryEntry {
+  label_id: string;
+  name: string;
+  color?: string | null;
+  icon?: string | null;
+  description?: string | null;
+}
+
 export interface Dashboard {
   id: string;
   url_path: string;
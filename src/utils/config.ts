@@ -3,19 +3,37 @@
  * Load and validate configuration from client
  */
 
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
 import { getLogger } from './logger';
 
 const logger = getLogger('Config');
 
+const execFileAsync = promisify(execFile);
+
 /**
  * Home Assistant configuration
  */
 export interface HomeAssistantConfig {
   host: string;
-  token: string;
+  token: string; // resolved from tokenFile or tokenCommand when those are used
+  tokenFile?: string; // file containing the token
+  tokenCommand?: string; // command printing the token (first line of stdout), run without a shell
   timeout?: number;
 }
 
+/**
+ * A named Home Assistant instance and the workspace files it serves
+ */
+export interface InstanceConfig extends HomeAssistantConfig {
+  name: string;
+  folders?: string[]; // absolute, or relative to the workspace folders
+  patterns?: string[]; // globs matched against workspace-relative paths
+}
+
 /**
  * Cache configuration
  */
@@ -23,6 +41,7 @@ export interface CacheConfig {
   enabled: boolean;
   ttl: number; // in seconds
   maxSize?: number;
+  snapshot?: boolean; // persist Home Assistant metadata for offline use
 }
 
 /**
@@ -54,12 +73,48 @@ export interface LoggingConfig {
  */
 export interface ServerConfig {
   homeassistant: HomeAssistantConfig;
+  instances?: InstanceConfig[];
   cache?: CacheConfig;
   diagnostics?: DiagnosticsConfig;
   completion?: CompletionConfig;
   logging?: LoggingConfig;
 }
 
+/**
+ * Settings update, where every section may be partial (lists are replaced)
+ */
+export type ConfigUpdate = {
+  [K in keyof ServerConfig]?: ServerConfig[K] extends unknown[]
+    ? ServerConfig[K]
+    : Partial<ServerConfig[K]>;
+};
+
+/**
+ * Where settings come from: initialization options and the environment are
+ * set up by the user, workspace settings may come from any cloned repository
+ */
+export type ConfigSource = 'initialization' | 'workspace';
+
+/**
+ * Name of the instance configured through the `homeassistant` section
+ */
+export const DEFAULT_INSTANCE_NAME = 'default';
+
+/**
+ * Settings an instance's token can come from
+ */
+const TOKEN_SOURCES = ['token', 'tokenFile', 'tokenCommand'];
+
+/**
+ * WebSocket API of Home Assistant as seen from a Supervisor add-on
+ */
+export const SUPERVISOR_HOST = 'ws://supervisor/core/websocket';
+
+/**
+ * Maximum run time of a tokenCommand
+ */
+const TOKEN_COMMAND_TIMEOUT = 10000; // 10 seconds
+
 /**
  * Configuration defaults
  */
@@ -67,6 +122,7 @@ const DEFAULT_CONFIG: Partial<ServerConfig> = {
   cache: {
     enabled: true,
     ttl: 300, // 5 minutes
+    snapshot: true,
   },
   diagnostics: {
     enabled: true,
@@ -86,24 +142,31 @@ const DEFAULT_CONFIG: Partial<ServerConfig> = {
  */
 export class ConfigManager {
   private config: ServerConfig | null = null;
+  private tokens: Map<string, string> = new Map(); // resolved tokens by config path
+  private commandTokens: Map<string, string> = new Map(); // tokens by tokenCommand
 
   /**
-   * Load configuration from initialization options
+   * Load configuration from initialization options (or from workspace
+   * settings when the client sent none)
    */
-  load(initializationOptions: any): void {
+  async load(initializationOptions: any, source: ConfigSource = 'initialization'): Promise<void> {
     try {
-      // Start with defaults
-      this.config = {
-        ...DEFAULT_CONFIG,
-        ...initializationOptions,
-      } as ServerConfig;
+      const settings = initializationOptions || {};
+
+      // Start with defaults, merged per section
+      const config = this.merge(
+        { homeassistant: { host: '', token: '' }, ...DEFAULT_CONFIG } as ServerConfig,
+        source === 'workspace' ? this.withoutTokenCommands(settings) : settings
+      );
 
       // Apply environment variable overrides
-      this.applyEnvironmentOverrides();
+      this.applyEnvironmentOverrides(config);
+      this.normalizeHosts(config);
 
-      // Validate configuration
-      this.validate();
+      // Validate configuration and resolve tokens
+      const tokens = await this.validate(config);
 
+      this.setConfig(config, tokens);
       logger.info('Configuration loaded successfully');
     } catch (error) {
       logger.error('Failed to load configuration', error);
@@ -112,87 +175,303 @@ export class ConfigManager {
   }
 
   /**
-   * Apply environment variable overrides
+   * Check whether a valid configuration has been loaded
    */
-  private applyEnvironmentOverrides(): void {
-    if (!this.config) return;
+  isLoaded(): boolean {
+    return this.config !== null;
+  }
 
+  /**
+   * Apply environment variable overrides
+   */
+  private applyEnvironmentOverrides(config: ServerConfig): void {
     // Home Assistant configuration
     if (process.env.HA_HOST) {
-      this.config.homeassistant.host = process.env.HA_HOST;
+      config.homeassistant.host = process.env.HA_HOST;
       logger.debug('Using HA_HOST from environment');
     }
 
     if (process.env.HA_TOKEN) {
-      this.config.homeassistant.token = process.env.HA_TOKEN;
+      config.homeassistant.token = process.env.HA_TOKEN;
+      delete config.homeassistant.tokenFile;
+      delete config.homeassistant.tokenCommand;
       logger.debug('Using HA_TOKEN from environment');
+    } else if (process.env.HA_TOKEN_FILE) {
+      config.homeassistant.token = '';
+      config.homeassistant.tokenFile = process.env.HA_TOKEN_FILE;
+      delete config.homeassistant.tokenCommand;
+      logger.debug('Using HA_TOKEN_FILE from environment');
+    } else if (process.env.HA_TOKEN_COMMAND) {
+      config.homeassistant.token = '';
+      config.homeassistant.tokenCommand = process.env.HA_TOKEN_COMMAND;
+      delete config.homeassistant.tokenFile;
+      logger.debug('Using HA_TOKEN_COMMAND from environment');
     }
 
     if (process.env.HA_TIMEOUT) {
-      this.config.homeassistant.timeout = parseInt(process.env.HA_TIMEOUT, 10);
+      config.homeassistant.timeout = parseInt(process.env.HA_TIMEOUT, 10);
       logger.debug('Using HA_TIMEOUT from environment');
     }
 
+    // Inside a Supervisor add-on (e.g. Studio Code Server), connect through
+    // the Supervisor proxy unless another instance is configured
+    const supervisorToken = process.env.SUPERVISOR_TOKEN;
+    if (supervisorToken) {
+      const hass = config.homeassistant;
+      if (!hass.host && !(Array.isArray(config.instances) && config.instances.length > 0)) {
+        hass.host = SUPERVISOR_HOST;
+        logger.debug('Using the Supervisor API');
+      }
+      if (hass.host === SUPERVISOR_HOST && !hass.token && !hass.tokenFile && !hass.tokenCommand) {
+        hass.token = supervisorToken;
+        logger.debug('Using SUPERVISOR_TOKEN from environment');
+      }
+    }
+
     // Logging configuration
-    if (process.env.LOG_LEVEL && this.config.logging) {
-      this.config.logging.level = process.env.LOG_LEVEL;
+    if (process.env.LOG_LEVEL && config.logging) {
+      config.logging.level = process.env.LOG_LEVEL;
       logger.debug('Using LOG_LEVEL from environment');
     }
   }
 
   /**
-   * Validate configuration
+   * Turn pasted http(s) URLs into WebSocket API URLs for every instance
    */
-  private validate(): void {
-    if (!this.config) {
-      throw new Error('Configuration not loaded');
+  private normalizeHosts(config: ServerConfig): void {
+    if (config.homeassistant?.host) {
+      config.homeassistant.host = normalizeHost(config.homeassistant.host);
     }
 
-    // Validate required fields
-    if (!this.config.homeassistant) {
-      throw new Error('Missing homeassistant configuration');
+    if (Array.isArray(config.instances)) {
+      config.instances = config.instances.map((instance) =>
+        instance && typeof instance.host === 'string'
+          ? { ...instance, host: normalizeHost(instance.host) }
+          : instance
+      );
     }
+  }
 
-    if (!this.config.homeassistant.host) {
-      throw new Error('Missing required configuration: homeassistant.host');
-    }
+  /**
+   * Validate configuration
+   * (returns the tokens of all instances, read from files and commands)
+   */
+  private async validate(config: ServerConfig): Promise<Map<string, string>> {
+    const tokens = new Map<string, string>();
 
-    if (!this.config.homeassistant.token) {
-      throw new Error('Missing required configuration: homeassistant.token');
+    // Validate required fields
+    if (!config.homeassistant) {
+      throw new Error('Missing homeassistant configuration');
     }
 
-    // Validate WebSocket URL format
-    if (
-      !this.config.homeassistant.host.startsWith('ws://') &&
-      !this.config.homeassistant.host.startsWith('wss://')
-    ) {
-      throw new Error(
-        'homeassistant.host must be a WebSocket URL (ws:// or wss://)'
+    // With named instances, the homeassistant section is optional
+    const instances = config.instances || [];
+    if (!Array.isArray(instances)) {
+      throw new Error('instances must be a list');
+    }
+    if (instances.length === 0 || config.homeassistant.host) {
+      tokens.set(
+        'homeassistant',
+        await this.validateConnection(config.homeassistant, 'homeassistant')
       );
     }
 
-    // Validate timeout
-    if (
-      this.config.homeassistant.timeout !== undefined &&
-      this.config.homeassistant.timeout <= 0
-    ) {
-      throw new Error('homeassistant.timeout must be a positive number');
+    // Validate named instances
+    const names = new Set<string>(config.homeassistant.host ? [DEFAULT_INSTANCE_NAME] : []);
+    for (const [index, instance] of instances.entries()) {
+      const prefix = `instances[${index}]`;
+      if (!instance || typeof instance.name !== 'string' || !instance.name) {
+        throw new Error(`Missing required configuration: ${prefix}.name`);
+      }
+      if (names.has(instance.name)) {
+        throw new Error(`Duplicate instance name: ${instance.name}`);
+      }
+      names.add(instance.name);
+
+      tokens.set(prefix, await this.validateConnection(instance, prefix));
+
+      for (const key of ['folders', 'patterns'] as const) {
+        const value = instance[key];
+        if (
+          value !== undefined &&
+          (!Array.isArray(value) || value.some((item) => typeof item !== 'string'))
+        ) {
+          throw new Error(`${prefix}.${key} must be a list of strings`);
+        }
+      }
     }
 
     // Validate cache TTL
-    if (this.config.cache?.ttl !== undefined && this.config.cache.ttl <= 0) {
+    if (config.cache?.ttl !== undefined && config.cache.ttl <= 0) {
       throw new Error('cache.ttl must be a positive number');
     }
 
+    // Validate cache size
+    if (config.cache?.maxSize !== undefined && config.cache.maxSize <= 0) {
+      throw new Error('cache.maxSize must be a positive number');
+    }
+
     // Validate completion minChars
     if (
-      this.config.completion?.minChars !== undefined &&
-      this.config.completion.minChars < 0
+      config.completion?.minChars !== undefined &&
+      config.completion.minChars < 0
     ) {
       throw new Error('completion.minChars must be a non-negative number');
     }
 
+    // Validate completion maxResults
+    if (
+      config.completion?.maxResults !== undefined &&
+      config.completion.maxResults <= 0
+    ) {
+      throw new Error('completion.maxResults must be a positive number');
+    }
+
     logger.debug('Configuration validated successfully');
+    return tokens;
+  }
+
+  /**
+   * Validate the connection settings of an instance and resolve its token
+   */
+  private async validateConnection(
+    config: HomeAssistantConfig,
+    prefix: string
+  ): Promise<string> {
+    if (!config.host) {
+      throw new Error(`Missing required configuration: ${prefix}.host`);
+    }
+
+    // Exactly one token source
+    const sources = [config.token, config.tokenFile, config.tokenCommand].filter(Boolean);
+    if (sources.length === 0) {
+      throw new Error(`Missing required configuration: ${prefix}.token`);
+    }
+    if (sources.length > 1) {
+      throw new Error(`${prefix}: set only one of token, tokenFile and tokenCommand`);
+    }
+
+    // Validate WebSocket URL format
+    if (!config.host.startsWith('ws://') && !config.host.startsWith('wss://')) {
+      throw new Error(`${prefix}.host must be a WebSocket URL (ws:// or wss://)`);
+    }
+
+    // Validate timeout
+    if (config.timeout !== undefined && config.timeout <= 0) {
+      throw new Error(`${prefix}.timeout must be a positive number`);
+    }
+
+    return this.resolveToken(config, prefix);
+  }
+
+  /**
+   * Get the token of an instance from its configured source
+   * (a tokenCommand only runs again when the command changes)
+   */
+  private async resolveToken(config: HomeAssistantConfig, prefix: string): Promise<string> {
+    if (config.token) {
+      return config.token;
+    }
+
+    let token: string;
+    if (config.tokenFile) {
+      try {
+        token = fs.readFileSync(expandHome(config.tokenFile), 'utf8').trim();
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        throw new Error(`Cannot read ${prefix}.tokenFile: ${errorMsg}`);
+      }
+      if (!token) {
+        throw new Error(`${prefix}.tokenFile is empty`);
+      }
+      return token;
+    }
+
+    const command = config.tokenCommand!;
+    const cached = this.commandTokens.get(command);
+    if (cached) {
+      return cached;
+    }
+
+    let argv: string[];
+    try {
+      argv = splitCommand(command);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid ${prefix}.tokenCommand: ${errorMsg}`);
+    }
+    const [file, ...args] = argv;
+    if (!file) {
+      throw new Error(`${prefix}.tokenCommand is empty`);
+    }
+
+    try {
+      const { stdout } = await execFileAsync(file, args, {
+        encoding: 'utf8',
+        timeout: TOKEN_COMMAND_TIMEOUT,
+      });
+      // Password managers print the secret on the first line
+      token = stdout.split('\n')[0].trim();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      throw new Error(`${prefix}.tokenCommand failed: ${errorMsg}`);
+    }
+    if (!token) {
+      throw new Error(`${prefix}.tokenCommand printed no token`);
+    }
+
+    // Redact the token even when this configuration turns out to be invalid
+    logger.addSecret(token);
+    this.commandTokens.set(command, token);
+    return token;
+  }
+
+  /**
+   * Store a validated configuration and its tokens (tokens are redacted from logs)
+   */
+  private setConfig(config: ServerConfig, tokens: Map<string, string>): void {
+    for (const token of tokens.values()) {
+      logger.addSecret(token);
+    }
+
+    this.config = config;
+    this.tokens = tokens;
+
+    // Forget the tokens of commands that are no longer configured
+    const commands = new Set(
+      [config.homeassistant, ...(config.instances || [])].map((hass) => hass?.tokenCommand)
+    );
+    for (const command of this.commandTokens.keys()) {
+      if (!commands.has(command)) {
+        this.commandTokens.delete(command);
+      }
+    }
+  }
+
+  /**
+   * Read token files again
+   * (returns whether a token changed; on errors the previous tokens stay)
+   */
+  async refreshTokens(): Promise<boolean> {
+    const config = this.getConfig();
+    const tokens = await this.validate(config);
+
+    const changed =
+      tokens.size !== this.tokens.size ||
+      Array.from(tokens).some(([key, token]) => this.tokens.get(key) !== token);
+
+    this.setConfig(config, tokens);
+    return changed;
+  }
+
+  /**
+   * Get the token files of all instances, to watch them for changes
+   */
+  getTokenFiles(): string[] {
+    const config = this.getConfig();
+    return [config.homeassistant, ...(config.instances || [])]
+      .filter((hass) => hass.tokenFile && !hass.token)
+      .map((hass) => expandHome(hass.tokenFile!));
   }
 
   /**
@@ -209,7 +488,26 @@ export class ConfigManager {
    * Get Home Assistant configuration
    */
   getHomeAssistantConfig(): HomeAssistantConfig {
-    return this.getConfig().homeassistant;
+    const hass = this.getConfig().homeassistant;
+    return { ...hass, token: this.tokens.get('homeassistant') ?? hass.token };
+  }
+
+  /**
+   * Get every configured instance; the homeassistant section, when set,
+   * comes first as the default instance
+   */
+  getInstanceConfigs(): InstanceConfig[] {
+    const config = this.getConfig();
+    const instances = (config.instances || []).map((instance, index) => ({
+      ...instance,
+      token: this.tokens.get(`instances[${index}]`) ?? instance.token,
+    }));
+
+    if (config.homeassistant.host) {
+      instances.unshift({ ...this.getHomeAssistantConfig(), name: DEFAULT_INSTANCE_NAME });
+    }
+
+    return instances;
   }
 
   /**
@@ -245,25 +543,196 @@ export class ConfigManager {
   }
 
   /**
-   * Update configuration dynamically
+   * Update configuration dynamically from workspace settings
+   * (environment variables keep precedence over client settings)
    */
-  update(updates: Partial<ServerConfig>): void {
+  async update(updates: ConfigUpdate): Promise<void> {
     if (!this.config) {
       throw new Error('Configuration not loaded');
     }
 
-    this.config = {
-      ...this.config,
-      ...updates,
-      homeassistant: {
-        ...this.config.homeassistant,
-        ...updates.homeassistant,
-      },
-    };
+    const config = this.merge(this.config, this.withoutTokenCommands(updates));
+    this.applyEnvironmentOverrides(config);
+    this.normalizeHosts(config);
+    const tokens = await this.validate(config);
 
-    this.validate();
+    this.setConfig(config, tokens);
     logger.info('Configuration updated');
   }
+
+  /**
+   * Drop tokenCommand from workspace settings, where a cloned repository could
+   * use it to run any program. Instances keep a command from the
+   * initialization options unless the settings give them another token source.
+   */
+  private withoutTokenCommands(settings: ConfigUpdate): ConfigUpdate {
+    const ignore = (prefix: string) =>
+      logger.warn(
+        `Ignoring ${prefix}.tokenCommand from workspace settings; ` +
+          'set it in the initialization options or HA_TOKEN_COMMAND'
+      );
+    const result: ConfigUpdate = { ...settings };
+
+    if (result.homeassistant && typeof result.homeassistant === 'object') {
+      if ('tokenCommand' in result.homeassistant) {
+        ignore('homeassistant');
+        result.homeassistant = { ...result.homeassistant };
+        delete result.homeassistant.tokenCommand;
+      }
+    }
+
+    if (Array.isArray(result.instances)) {
+      const current = this.config?.instances || [];
+      result.instances = result.instances.map((instance, index) => {
+        if (!instance || typeof instance !== 'object') {
+          return instance;
+        }
+
+        const safe = { ...instance };
+        if ('tokenCommand' in safe) {
+          ignore(`instances[${index}]`);
+          delete safe.tokenCommand;
+        }
+
+        const previous = current.find((entry) => entry?.name === safe.name);
+        if (previous?.tokenCommand && !safe.token && !safe.tokenFile) {
+          safe.tokenCommand = previous.tokenCommand;
+        }
+        return safe;
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Merge settings into a configuration section by section
+   */
+  private merge(base: ServerConfig, updates: ConfigUpdate): ServerConfig {
+    // Copy each section so overrides never touch the defaults
+    const merged: Record<string, unknown> = {};
+    for (const [section, value] of Object.entries(base)) {
+      merged[section] = Array.isArray(value)
+        ? [...value]
+        : typeof value === 'object' && value !== null
+          ? { ...value }
+          : value;
+    }
+
+    for (const [section, value] of Object.entries(updates)) {
+      if (value === undefined || value === null) {
+        continue;
+      }
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        merged[section] = value;
+        continue;
+      }
+
+      // A new token source replaces the previous one
+      const current = { ...(merged[section] as Record<string, unknown>) };
+      if (TOKEN_SOURCES.some((key) => key in value)) {
+        TOKEN_SOURCES.forEach((key) => delete current[key]);
+      }
+      merged[section] = { ...current, ...value };
+    }
+
+    return merged as unknown as ServerConfig;
+  }
+}
+
+/**
+ * Normalize a Home Assistant URL: `http(s)://host[:port]` (with any path, such
+ * as a pasted dashboard URL) becomes `ws(s)://host[:port]/api/websocket`, and
+ * WebSocket URLs without a path get `/api/websocket`
+ */
+export function normalizeHost(host: string): string {
+  const match = /^(https?|wss?):\/\/([^/?#]+)(\/[^?#]*)?$/i.exec(host.trim());
+  if (!match) {
+    return host;
+  }
+
+  const [, scheme, authority, pathname = ''] = match;
+  const protocol = scheme.toLowerCase().replace(/^http/, 'ws');
+
+  // Keep explicit WebSocket paths, e.g. ws://supervisor/core/websocket
+  const wsPath = pathname.replace(/\/+$/, '');
+  const apiPath = scheme.toLowerCase().startsWith('ws') && wsPath ? wsPath : '/api/websocket';
+
+  return `${protocol}://${authority}${apiPath}`;
+}
+
+/**
+ * Get the frontend URL of a Home Assistant WebSocket URL
+ * (null for the Supervisor, whose API is not reachable from a browser)
+ */
+export function getWebUrl(host: string): string | null {
+  const match = /^(wss?):\/\/([^/?#]+)/i.exec(host.trim());
+  if (!match || host === SUPERVISOR_HOST) {
+    return null;
+  }
+
+  return `${match[1].toLowerCase().replace(/^ws/, 'http')}://${match[2]}`;
+}
+
+/**
+ * Split a command line into arguments the way a shell would for plain
+ * words and quotes, without expanding variables, globs or operators
+ */
+function splitCommand(command: string): string[] {
+  const args: string[] = [];
+  let current: string | null = null;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (quote === "'") {
+      if (char === "'") {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (quote === '"') {
+      // Inside double quotes a backslash only escapes ", \, $ and `
+      if (char === '\\' && i + 1 < command.length && '"\\$`'.includes(command[i + 1])) {
+        current += command[++i];
+      } else if (char === '"') {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (/\s/.test(char)) {
+      if (current !== null) {
+        args.push(current);
+        current = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current = current ?? '';
+    } else if (char === '\\' && i + 1 < command.length) {
+      current = (current ?? '') + command[++i];
+    } else {
+      current = (current ?? '') + char;
+    }
+  }
+
+  if (quote) {
+    throw new Error(`unterminated ${quote} quote`);
+  }
+  if (current !== null) {
+    args.push(current);
+  }
+  return args;
+}
+
+/**
+ * Expand a leading ~ to the home directory
+ */
+function expandHome(filePath: string): string {
+  if (filePath === '~' || filePath.startsWith('~/')) {
+    return path.join(os.homedir(), filePath.slice(1));
+  }
+  return filePath;
 }
 
 // Global configuration manager instance
@@ -0,0 +1,178 @@
+/**
+ * Definition Utilities
+ * Finds the automations, scripts and scenes defined in YAML files and the
+ * entity IDs Home Assistant gives them
+ */
+
+import { Range } from 'vscode-languageserver';
+import { EntityRegistryEntry } from '../types/homeassistant';
+import { slugify } from './entities';
+import { YamlEntry, parseLines, getSiblingEntries, getChildEntries, unquote } from './yaml';
+
+/**
+ * Domains of the entities defined in YAML
+ */
+export type DefinitionDomain = 'automation' | 'script' | 'scene';
+
+/**
+ * An automation, script or scene defined in a YAML file
+ */
+export interface Definition {
+  domain: DefinitionDomain;
+  objectId: string; // object ID Home Assistant derives when not registered
+  uniqueId: string | null; // matched against the entity registry
+  name: string;
+  range: Range; // first line of the definition
+}
+
+/**
+ * Parse the automations, scripts and scenes of a YAML file
+ * (automations.yaml, scripts.yaml, scenes.yaml, configuration.yaml and packages)
+ */
+export function parseDefinitions(text: string): Definition[] {
+  const lines = text.split(/\r?\n/);
+  const entries = parseLines(lines);
+  const definitions: Definition[] = [];
+
+  const first = entries.find((entry): entry is YamlEntry => entry !== null);
+  if (!first || first.key === null) {
+    return definitions;
+  }
+
+  // automations.yaml and scenes.yaml are top-level lists
+  if (first.isListItem) {
+    for (const item of entries) {
+      if (item && item.isListItem && item.indent === first.indent) {
+        addListItem(lines, entries, item, null, definitions);
+      }
+    }
+    return definitions;
+  }
+
+  addMapping(lines, entries, getSiblingEntries(entries, first.line), definitions);
+  return definitions;
+}
+
+/**
+ * Resolve the entity ID of a definition, preferring the entity registry
+ * (which keeps IDs renamed in the UI)
+ */
+export function resolveEntityId(definition: Definition, registry: EntityRegistryEntry[]): string {
+  if (definition.uniqueId) {
+    const registered = registry.find(
+      (entry) =>
+        entry.unique_id === definition.uniqueId &&
+        entry.entity_id.startsWith(`${definition.domain}.`)
+    );
+    if (registered) {
+      return registered.entity_id;
+    }
+  }
+
+  return `${definition.domain}.${definition.objectId}`;
+}
+
+/**
+ * Collect definitions from the keys of a mapping (configuration.yaml,
+ * packages, scripts.yaml)
+ */
+function addMapping(
+  lines: string[],
+  entries: (YamlEntry | null)[],
+  keys: YamlEntry[],
+  definitions: Definition[]
+): void {
+  for (const entry of keys) {
+    const domain = entry.key!.split(' ')[0];
+    const children = getChildEntries(entries, entry.line);
+
+    if (domain === 'automation' || domain === 'scene') {
+      for (const item of children.filter((child) => child.isListItem)) {
+        addListItem(lines, entries, item, domain, definitions);
+      }
+    } else if (domain === 'script') {
+      for (const script of children.filter((child) => !child.isListItem)) {
+        addScript(lines, entries, script, definitions);
+      }
+    } else if (domain === 'homeassistant') {
+      const packages = children.find((child) => child.key === 'packages');
+      const packageKeys = packages ? getChildEntries(entries, packages.line) : [];
+      for (const pkg of packageKeys) {
+        addMapping(lines, entries, getChildEntries(entries, pkg.line), definitions);
+      }
+    } else if (children.some((child) => child.key === 'sequence')) {
+      // scripts.yaml: every key is a script
+      addScript(lines, entries, entry, definitions);
+    }
+  }
+}
+
+/**
+ * Add an automation or scene list item (recognised by its keys when the
+ * domain is not known from the parent key)
+ */
+function addListItem(
+  lines: string[],
+  entries: (YamlEntry | null)[],
+  item: YamlEntry,
+  domain: DefinitionDomain | null,
+  definitions: Definition[]
+): void {
+  const keys = getSiblingEntries(entries, item.line);
+  const value = (key: string) => {
+    const entry = keys.find((candidate) => candidate.key === key);
+    return entry && entry.value ? unquote(entry.value) : null;
+  };
+  const has = (key: string) => keys.some((candidate) => candidate.key === key);
+
+  const isAutomation = has('triggers') || has('trigger');
+  const isScene = has('entities') && value('name') !== null;
+  const resolved = domain || (isAutomation ? 'automation' : isScene ? 'scene' : null);
+  if (!resolved || (resolved === 'automation' && !isAutomation)) {
+    return;
+  }
+
+  const id = value('id');
+  const name = resolved === 'automation' ? value('alias') || id : value('name') || id;
+  if (!name) {
+    return;
+  }
+
+  definitions.push({
+    domain: resolved,
+    objectId: slugify(name),
+    uniqueId: id,
+    name,
+    range: getLineRange(lines, item),
+  });
+}
+
+/**
+ * Add a script defined by its key
+ */
+function addScript(
+  lines: string[],
+  entries: (YamlEntry | null)[],
+  entry: YamlEntry,
+  definitions: Definition[]
+): void {
+  const alias = getChildEntries(entries, entry.line).find((child) => child.key === 'alias');
+
+  definitions.push({
+    domain: 'script',
+    objectId: entry.key!,
+    uniqueId: entry.key!,
+    name: alias && alias.value ? unquote(alias.value) : entry.key!,
+    range: getLineRange(lines, entry),
+  });
+}
+
+/**
+ * Range of a definition's first line
+ */
+function getLineRange(lines: string[], entry: YamlEntry): Range {
+  return {
+    start: { line: entry.line, character: entry.keyColumn },
+    end: { line: entry.line, character: lines[entry.line].trimEnd().length },
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Entity Utilities
+ * Helpers for recognising entity IDs in document text
+ */
+
+import { Entity, Services } from '../types/homeassistant';
+
+/**
+ * Valid entity ID (domain.object_id)
+ */
+const ENTITY_ID_PATTERN = /^[a-z_][a-z0-9_]*\.[a-z0-9_]+$/;
+
+/**
+ * Check whether a string is a valid entity ID
+ */
+export function isEntityId(value: string): boolean {
+  return ENTITY_ID_PATTERN.test(value);
+}
+
+/**
+ * Extract the entity ID-like token at a cursor position in a line
+ */
+export function extractEntityIdAt(
+  line: string,
+  cursorPos: number
+): { entityId: string; start: number; end: number } | null {
+  // Entity ID pattern: domain.entity_name (e.g., sensor.temperature),
+  // optionally reached through the template `states.` object
+  const entityIdPattern = /\b(states\.)?([a-z_]+\.[a-z0-9_]+)\b/gi;
+  let match;
+
+  while ((match = entityIdPattern.exec(line)) !== null) {
+    const start = match.index + (match[1]?.length || 0);
+    const end = start + match[2].length;
+
+    // Check if cursor is within this entity ID
+    if (cursorPos >= start && cursorPos <= end) {
+      return { entityId: match[2], start, end };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Collect the entity ID-like tokens of a text, including `states.` references
+ */
+export function extractEntityIds(text: string): Set<string> {
+  const entityIds = new Set<string>();
+  const entityIdPattern = /(?<![\w.])(?:states\.)?([a-z_][a-z0-9_]*\.[a-z0-9_]+)(?!\w)/g;
+  let match;
+
+  while ((match = entityIdPattern.exec(text)) !== null) {
+    entityIds.add(match[1]);
+  }
+
+  return entityIds;
+}
+
+/**
+ * File names share the domain.object_id shape (e.g. sensor.yaml)
+ */
+const FILE_NAME_PATTERN = /\.ya?ml$/;
+
+/**
+ * Value of a YAML tag before a position (!include, !secret, !input, ...),
+ * optionally preceded by a path (!include ../packages/light.yaml)
+ */
+const TAG_VALUE_PATTERN = /(?:^|[\s:[{,])![\w-]+\s+[^\s,\]}]*$/;
+
+/**
+ * Check whether an entity ID-like token at a position of a line is a file
+ * name or the value of a YAML tag rather than an entity
+ */
+export function isFileOrTagValue(line: string, start: number, token: string): boolean {
+  return FILE_NAME_PATTERN.test(token) || TAG_VALUE_PATTERN.test(line.substring(0, start));
+}
+
+/**
+ * Lines whose value is a service name rather than an entity ID
+ */
+const SERVICE_LINE_PATTERN = /^\s*(-\s+)?(action|service|perform_action)\s*:/;
+
+/**
+ * Check whether an entity ID-like token at a position of a line refers to an
+ * entity, rather than a service (action: light.turn_on), a file or a tag value
+ */
+export function isEntityReference(
+  line: string,
+  start: number,
+  token: string,
+  services?: Services | null
+): boolean {
+  if (SERVICE_LINE_PATTERN.test(line)) {
+    return false;
+  }
+
+  const [domain, objectId] = token.split('.');
+  if (services?.[domain]?.[objectId]) {
+    return false;
+  }
+
+  return !isFileOrTagValue(line, start, token);
+}
+
+/**
+ * Build a pattern matching references to an entity ID, including the
+ * `states.domain.object_id` form used in templates
+ */
+export function createEntityReferencePattern(entityId: string): RegExp {
+  const escaped = entityId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?:(?<=\\bstates\\.)|(?<![\\w.]))${escaped}(?![\\w])`, 'g');
+}
+
+/**
+ * Convert a name into an object ID the way Home Assistant does
+ * (e.g. "Porch lights at sunset" -> "porch_lights_at_sunset")
+ */
+export function slugify(text: string): string {
+  const slug = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // strip accents
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return slug || 'unknown';
+}
+
+/**
+ * Format an entity state with its unit (e.g. "12.4 °C")
+ */
+export function formatState(entity: Entity): string {
+  const unit = entity.attributes?.unit_of_measurement || '';
+  return `${entity.state}${unit ? ' ' + unit : ''}`;
+}
@@ -0,0 +1,53 @@
+/**
+ * Glob Utilities
+ * Minimal glob matching for workspace-relative paths
+ */
+
+/**
+ * Convert a glob pattern to a regular expression
+ * (supports `**`, `*`, `?` and `{a,b}` alternatives)
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        i++;
+        // `**/` matches any number of directories, a trailing `**` anything
+        if (pattern[i + 1] === '/') {
+          i++;
+          source += '(?:.*/)?';
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a relative path matches a glob pattern
+ */
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(relativePath.replace(/\\/g, '/'));
+}
@@ -0,0 +1,372 @@
+/**
+ * Jinja Utilities
+ * Home Assistant template functions and template region detection
+ */
+
+import { parseLine, parseLines, findParentEntry, unquote } from './yaml';
+
+/**
+ * Kind of value a template function argument refers to
+ */
+export type TemplateArgumentKind = 'entity' | 'area' | 'device' | 'floor' | 'label' | 'value';
+
+/**
+ * Template function parameter
+ */
+export interface TemplateParameter {
+  name: string;
+  kind?: TemplateArgumentKind;
+  optional?: boolean;
+}
+
+/**
+ * Template function or filter documentation
+ */
+export interface TemplateFunction {
+  name: string;
+  description: string;
+  parameters: TemplateParameter[];
+  returns?: string;
+  filter?: boolean; // usable as a filter (value | name)
+  functionCall?: boolean; // usable as a function (name(value)), defaults to true
+}
+
+const entity = (name = 'entity_id', optional = false): TemplateParameter => ({
+  name,
+  kind: 'entity',
+  optional,
+});
+const value = (name: string, optional = false): TemplateParameter => ({ name, optional });
+
+/**
+ * Home Assistant template functions and filters
+ */
+const FUNCTIONS: TemplateFunction[] = [
+  // States
+  { name: 'states', description: 'State of an entity, or `unknown` if it does not exist. With `rounded=True` numbers are rounded to the entity precision.', parameters: [entity(), value('rounded', true), value('with_unit', true)], returns: 'string', filter: true },
+  { name: 'is_state', description: 'Test whether an entity is in the given state (or any of a list of states).', parameters: [entity(), value('state')], returns: 'boolean', filter: true },
+  { name: 'state_attr', description: 'Value of an attribute of an entity, or `None` if it does not exist.', parameters: [entity(), value('attribute')], returns: 'any', filter: true },
+  { name: 'is_state_attr', description: 'Test whether an attribute of an entity has the given value.', parameters: [entity(), value('attribute'), value('value')], returns: 'boolean', filter: true },
+  { name: 'has_value', description: 'Test whether an entity exists and is not `unknown` or `unavailable`.', parameters: [entity()], returns: 'boolean', filter: true },
+  { name: 'state_translated', description: 'State of an entity translated to the language of the instance.', parameters: [entity()], returns: 'string', filter: true },
+  { name: 'expand', description: 'Expand entities, groups and lists into a sorted list of state objects.', parameters: [entity('entities')], returns: 'list[state]', filter: true },
+  { name: 'is_hidden_entity', description: 'Test whether an entity is hidden.', parameters: [entity()], returns: 'boolean', filter: true },
+
+  // Areas, floors, labels and devices
+  { name: 'areas', description: 'List of all area IDs.', parameters: [], returns: 'list[string]' },
+  { name: 'area_id', description: 'Area ID for an area name, device ID or entity ID.', parameters: [value('lookup_value')], returns: 'string', filter: true },
+  { name: 'area_name', description: 'Area name for an area ID, device ID or entity ID.', parameters: [value('lookup_value')], returns: 'string', filter: true },
+  { name: 'area_entities', description: 'List of entity IDs in an area.', parameters: [{ name: 'area_name_or_id', kind: 'area' }], returns: 'list[string]', filter: true },
+  { name: 'area_devices', description: 'List of device IDs in an area.', parameters: [{ name: 'area_name_or_id', kind: 'area' }], returns: 'list[string]', filter: true },
+  { name: 'floors', description: 'List of all floor IDs.', parameters: [], returns: 'list[string]' },
+  { name: 'floor_id', description: 'Floor ID for a floor name, area, device or entity.', parameters: [value('lookup_value')], returns: 'string', filter: true },
+  { name: 'floor_name', description: 'Floor name for a floor ID, area, device or entity.', parameters: [value('lookup_value')], returns: 'string', filter: true },
+  { name: 'floor_areas', description: 'List of area IDs on a floor.', parameters: [{ name: 'floor_name_or_id', kind: 'floor' }], returns: 'list[string]', filter: true },
+  { name: 'floor_entities', description: 'List of entity IDs on a floor.', parameters: [{ name: 'floor_name_or_id', kind: 'floor' }], returns: 'list[string]', filter: true },
+  { name: 'labels', description: 'List of all label IDs, or the labels of an area, device or entity.', parameters: [value('lookup_value', true)], returns: 'list[string]', filter: true },
+  { name: 'label_id', description: 'Label ID for a label name.', parameters: [value('label_name')], returns: 'string', filter: true },
+  { name: 'label_name', description: 'Label name for a label ID.', parameters: [{ name: 'label_id', kind: 'label' }], returns: 'string', filter: true },
+  { name: 'label_entities', description: 'List of entity IDs with a label.', parameters: [{ name: 'label_name_or_id', kind: 'label' }], returns: 'list[string]', filter: true },
+  { name: 'label_areas', description: 'List of area IDs with a label.', parameters: [{ name: 'label_name_or_id', kind: 'label' }], returns: 'list[string]', filter: true },
+  { name: 'label_devices', description: 'List of device IDs with a label.', parameters: [{ name: 'label_name_or_id', kind: 'label' }], returns: 'list[string]', filter: true },
+  { name: 'device_id', description: 'Device ID for an entity ID or device name.', parameters: [entity('entity_id_or_name')], returns: 'string', filter: true },
+  { name: 'device_attr', description: 'Value of an attribute of a device (e.g. `manufacturer`, `model`).', parameters: [{ name: 'device_or_entity_id', kind: 'device' }, value('attribute')], returns: 'any', filter: true },
+  { name: 'is_device_attr', description: 'Test whether an attribute of a device has the given value.', parameters: [{ name: 'device_or_entity_id', kind: 'device' }, value('attribute'), value('value')], returns: 'boolean', filter: true },
+  { name: 'device_entities', description: 'List of entity IDs of a device.', parameters: [{ name: 'device_id', kind: 'device' }], returns: 'list[string]', filter: true },
+  { name: 'integration_entities', description: 'List of entity IDs provided by an integration or config entry title.', parameters: [value('integration')], returns: 'list[string]', filter: true },
+
+  // Time
+  { name: 'now', description: 'Current local time as a datetime.', parameters: [], returns: 'datetime' },
+  { name: 'utcnow', description: 'Current UTC time as a datetime.', parameters: [], returns: 'datetime' },
+  { name: 'today_at', description: 'Datetime of today at the given local time (`HH:MM`).', parameters: [value('time', true)], returns: 'datetime', filter: true },
+  { name: 'as_datetime', description: 'Convert a string or timestamp to a datetime.', parameters: [value('value'), value('default', true)], returns: 'datetime', filter: true },
+  { name: 'as_timestamp', description: 'Convert a datetime or string to a UNIX timestamp.', parameters: [value('value'), value('default', true)], returns: 'float', filter: true },
+  { name: 'as_local', description: 'Convert a datetime to local time.', parameters: [value('value')], returns: 'datetime', filter: true },
+  { name: 'relative_time', description: 'Human readable time since a datetime (e.g. `5 minutes`).', parameters: [value('datetime')], returns: 'string', filter: true },
+  { name: 'time_since', description: 'Human readable time since a datetime with configurable precision.', parameters: [value('datetime'), value('precision', true)], returns: 'string', filter: true },
+  { name: 'time_until', description: 'Human readable time until a datetime with configurable precision.', parameters: [value('datetime'), value('precision', true)], returns: 'string', filter: true },
+  { name: 'timedelta', description: 'Create a timedelta (`days`, `hours`, `minutes`, `seconds`, ...).', parameters: [value('days', true), value('hours', true), value('minutes', true), value('seconds', true)], returns: 'timedelta' },
+  { name: 'strptime', description: 'Parse a string into a datetime using a format.', parameters: [value('string'), value('format'), value('default', true)], returns: 'datetime' },
+  { name: 'timestamp_local', description: 'Format a UNIX timestamp as a local time string.', parameters: [value('default', true)], returns: 'string', filter: true, functionCall: false },
+  { name: 'timestamp_utc', description: 'Format a UNIX timestamp as a UTC time string.', parameters: [value('default', true)], returns: 'string', filter: true, functionCall: false },
+  { name: 'timestamp_custom', description: 'Format a UNIX timestamp with a custom format string.', parameters: [value('format_string'), value('local', true), value('default', true)], returns: 'string', filter: true, functionCall: false },
+
+  // Location
+  { name: 'distance', description: 'Distance in the configured unit between the home zone, entities or coordinates.', parameters: [entity('entity_or_coordinates'), entity('entity_or_coordinates', true)], returns: 'float' },
+  { name: 'closest', description: 'Closest entity to the home zone or a location.', parameters: [entity('entities')], returns: 'state', filter: true },
+
+  // Numbers and conversions
+  { name: 'float', description: 'Convert a value to a float, returning the default (or raising) when it is not a number.', parameters: [value('value'), value('default', true)], returns: 'float', filter: true },
+  { name: 'int', description: 'Convert a value to an integer, returning the default (or raising) when it is not a number.', parameters: [value('value'), value('default', true)], returns: 'int', filter: true },
+  { name: 'bool', description: 'Convert a value to a boolean, returning the default (or raising) when it cannot be converted.', parameters: [value('value'), value('default', true)], returns: 'boolean', filter: true },
+  { name: 'is_number', description: 'Test whether a value is a valid number.', parameters: [value('value')], returns: 'boolean', filter: true },
+  { name: 'round', description: 'Round a number (`precision`, `method`: common, ceil, floor, half).', parameters: [value('precision', true), value('method', true), value('default', true)], returns: 'float', filter: true, functionCall: false },
+  { name: 'multiply', description: 'Multiply a value by a number.', parameters: [value('multiplier'), value('default', true)], returns: 'float', filter: true, functionCall: false },
+  { name: 'min', description: 'Smallest item of a list or of the arguments.', parameters: [value('values')], returns: 'any', filter: true },
+  { name: 'max', description: 'Largest item of a list or of the arguments.', parameters: [value('values')], returns: 'any', filter: true },
+  { name: 'average', description: 'Average of a list or of the arguments.', parameters: [value('values'), value('default', true)], returns: 'float', filter: true },
+  { name: 'median', description: 'Median of a list.', parameters: [value('values'), value('default', true)], returns: 'float', filter: true },
+  { name: 'log', description: 'Logarithm of a value (natural by default).', parameters: [value('value'), value('base', true), value('default', true)], returns: 'float', filter: true },
+  { name: 'iif', description: 'Inline if: `if_true` when the value is truthy, else `if_false` (or `if_none` for None).', parameters: [value('condition'), value('if_true', true), value('if_false', true), value('if_none', true)], returns: 'any', filter: true },
+
+  // Strings and data
+  { name: 'slugify', description: 'Convert a string into a slug (e.g. for an object ID).', parameters: [value('string'), value('separator', true)], returns: 'string', filter: true },
+  { name: 'regex_match', description: 'Test whether a string matches a regular expression at its start.', parameters: [value('find'), value('ignorecase', true)], returns: 'boolean', filter: true, functionCall: false },
+  { name: 'regex_search', description: 'Test whether a regular expression matches anywhere in a string.', parameters: [value('find'), value('ignorecase', true)], returns: 'boolean', filter: true, functionCall: false },
+  { name: 'regex_replace', description: 'Replace matches of a regular expression in a string.', parameters: [value('find'), value('replace'), value('ignorecase', true)], returns: 'string', filter: true, functionCall: false },
+  { name: 'regex_findall', description: 'List of all matches of a regular expression.', parameters: [value('find'), value('ignorecase', true)], returns: 'list[string]', filter: true, functionCall: false },
+  { name: 'regex_findall_index', description: 'Match at an index of all matches of a regular expression.', parameters: [value('find'), value('index', true), value('ignorecase', true)], returns: 'string', filter: true, functionCall: false },
+  { name: 'to_json', description: 'Serialize a value to JSON.', parameters: [value('ensure_ascii', true), value('pretty_print', true)], returns: 'string', filter: true, functionCall: false },
+  { name: 'from_json', description: 'Parse a JSON string.', parameters: [value('default', true)], returns: 'any', filter: true, functionCall: false },
+  { name: 'base64_encode', description: 'Encode a string as base64.', parameters: [], returns: 'string', filter: true, functionCall: false },
+  { name: 'base64_decode', description: 'Decode a base64 string.', parameters: [value('encoding', true)], returns: 'string', filter: true, functionCall: false },
+  { name: 'contains', description: 'Test whether a list or string contains a value.', parameters: [value('value')], returns: 'boolean', filter: true, functionCall: false },
+];
+
+/**
+ * Template functions and filters by name
+ */
+export const TEMPLATE_FUNCTIONS: Record<string, TemplateFunction> = Object.fromEntries(
+  FUNCTIONS.map((fn) => [fn.name, fn])
+);
+
+/**
+ * Check whether an offset in a text is inside a `{{ }}` or `{% %}` block
+ * (an unclosed opener counts, so completion works while typing)
+ */
+export function isInsideTemplate(text: string, offset: number): boolean {
+  return getTemplateStart(text, offset) !== null;
+}
+
+/**
+ * Get the offset just after the opener of the template block containing
+ * the offset, or null when the offset is outside any template block
+ */
+export function getTemplateStart(text: string, offset: number): number | null {
+  const before = text.substring(0, offset);
+  const opener = Math.max(before.lastIndexOf('{{'), before.lastIndexOf('{%'));
+  if (opener === -1) {
+    return null;
+  }
+
+  const closer = Math.max(before.lastIndexOf('}}'), before.lastIndexOf('%}'));
+  return opener > closer ? opener + 2 : null;
+}
+
+/**
+ * YAML block scalar indicator (>, |, with chomping and indentation indicators)
+ */
+const BLOCK_SCALAR_PATTERN = /^[|>][-+0-9]*$/;
+
+/**
+ * Check whether a text contains a template block
+ */
+export function hasTemplate(text: string): boolean {
+  return /\{\{|\{%/.test(text);
+}
+
+/**
+ * Get the complete template at an offset: the whole YAML value (including
+ * block scalars) in YAML documents, otherwise the template block itself
+ */
+export function getTemplateTextAt(text: string, offset: number, isYaml: boolean): string | null {
+  const templateStart = getTemplateStart(text, offset);
+
+  if (!isYaml) {
+    if (templateStart === null) {
+      return null;
+    }
+    const closer = text.substring(templateStart).search(/\}\}|%\}/);
+    const end = closer === -1 ? text.length : templateStart + closer + 2;
+    return text.substring(templateStart - 2, end);
+  }
+
+  const lines = text.split('\n');
+  const lineNumber = text.substring(0, offset).split('\n').length - 1;
+  const entry = parseLine(lines[lineNumber], lineNumber);
+
+  // Block scalar indicator on the cursor line
+  if (entry && BLOCK_SCALAR_PATTERN.test(entry.value)) {
+    const block = getBlockScalar(lines, entry.line, entry.keyColumn);
+    return hasTemplate(block) ? block : null;
+  }
+
+  // Cursor inside the content of a block scalar
+  const lineIndent = lines[lineNumber].length - lines[lineNumber].trimStart().length;
+  const parent = findParentEntry(parseLines(lines), lineNumber, lineIndent);
+  if (parent && BLOCK_SCALAR_PATTERN.test(parent.value)) {
+    const block = getBlockScalar(lines, parent.line, parent.keyColumn);
+    if (lineNumber <= parent.line + block.split('\n').length) {
+      return hasTemplate(block) ? block : null;
+    }
+  }
+
+  // Single line value (or list item)
+  if (entry && hasTemplate(entry.value)) {
+    return unquote(entry.value);
+  }
+
+  return null;
+}
+
+/**
+ * Collect the dedented content of a block scalar
+ */
+function getBlockScalar(lines: string[], line: number, keyColumn: number): string {
+  const content: string[] = [];
+
+  for (let i = line + 1; i < lines.length; i++) {
+    const text = lines[i];
+    const indent = text.length - text.trimStart().length;
+    if (text.trim() !== '' && indent <= keyColumn) {
+      break;
+    }
+    content.push(text);
+  }
+
+  // Trailing blank lines belong to the next node
+  while (content.length > 0 && content[content.length - 1].trim() === '') {
+    content.pop();
+  }
+
+  const indents = content
+    .filter((text) => text.trim() !== '')
+    .map((text) => text.length - text.trimStart().length);
+  const blockIndent = indents.length > 0 ? Math.min(...indents) : 0;
+
+  return content.map((text) => text.substring(blockIndent)).join('\n');
+}
+
+/**
+ * Get the template function or filter whose name is at a cursor position,
+ * recognised by a following `(` or a preceding `|`
+ */
+export function getTemplateFunctionAt(
+  line: string,
+  cursorPos: number
+): { fn: TemplateFunction; start: number; end: number } | null {
+  const pattern = /[A-Za-z_]\w*/g;
+  let match;
+
+  while ((match = pattern.exec(line)) !== null) {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (cursorPos < start || cursorPos > end) {
+      continue;
+    }
+
+    const fn = TEMPLATE_FUNCTIONS[match[0]];
+    if (!fn || line[start - 1] === '.') {
+      return null;
+    }
+
+    const isCall = /^\s*\(/.test(line.substring(end));
+    const isFilter = /\|\s*$/.test(line.substring(0, start));
+    if ((isCall && fn.functionCall !== false) || (isFilter && fn.filter)) {
+      return { fn, start, end };
+    }
+    return null;
+  }
+
+  return null;
+}
+
+/**
+ * Function call surrounding a position inside a template
+ */
+export interface TemplateCallContext {
+  name: string;
+  argumentIndex: number;
+  isFilter: boolean; // called as a filter (value | name(...))
+  inString: boolean; // cursor is inside a quoted argument
+  argumentText: string; // text of the current argument before the cursor
+}
+
+/**
+ * Open bracket while scanning a template (calls, lists and dicts)
+ */
+interface BracketFrame {
+  name: string | null; // function name for calls
+  isFilter: boolean;
+  argumentIndex: number;
+  argumentStart: number;
+}
+
+/**
+ * Find the innermost unclosed function call before the end of the text
+ */
+export function getTemplateCallContext(templateText: string): TemplateCallContext | null {
+  const stack: BracketFrame[] = [];
+  let quote: string | null = null;
+
+  for (let i = 0; i < templateText.length; i++) {
+    const char = templateText[i];
+
+    if (quote) {
+      if (char === quote) quote = null;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(' || char === '[' || char === '{') {
+      const before = templateText.substring(0, i);
+      const nameMatch = char === '(' ? before.match(/([A-Za-z_]\w*)\s*$/) : null;
+      const nameStart = nameMatch ? i - nameMatch[0].length : i;
+      stack.push({
+        name: nameMatch ? nameMatch[1] : null,
+        isFilter: /\|\s*$/.test(templateText.substring(0, nameStart)),
+        argumentIndex: 0,
+        argumentStart: i + 1,
+      });
+    } else if (char === ')' || char === ']' || char === '}') {
+      stack.pop();
+    } else if (char === ',' && stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      frame.argumentIndex++;
+      frame.argumentStart = i + 1;
+    }
+  }
+
+  // Lists inside a call belong to the current argument: expand(['a', 'b
+  const callIndex = stack.map((frame) => frame.name !== null).lastIndexOf(true);
+  if (callIndex === -1) {
+    return null;
+  }
+
+  const call = stack[callIndex];
+  const innermost = stack[stack.length - 1];
+
+  return {
+    name: call.name!,
+    argumentIndex: call.argumentIndex,
+    isFilter: call.isFilter,
+    inString: quote !== null,
+    argumentText: templateText.substring(innermost.argumentStart).trimStart(),
+  };
+}
+
+/**
+ * Format documentation for a template function or filter
+ */
+export function formatTemplateFunctionDocumentation(fn: TemplateFunction): string {
+  const params = fn.parameters
+    .map((p) => (p.optional ? `${p.name}?` : p.name))
+    .join(', ');
+
+  let doc = '';
+  if (fn.functionCall !== false) {
+    doc += `\`${fn.name}(${params})\``;
+  }
+  if (fn.filter) {
+    const filterParams = fn.parameters.slice(fn.functionCall === false ? 0 : 1);
+    const filterArgs = filterParams.map((p) => (p.optional ? `${p.name}?` : p.name)).join(', ');
+    doc += `${doc ? ' · ' : ''}\`value | ${fn.name}${filterArgs ? `(${filterArgs})` : ''}\``;
+  }
+  if (fn.returns) {
+    doc += ` → \`${fn.returns}\``;
+  }
+
+  doc += `\n\n${fn.description}`;
+  return doc;
+}
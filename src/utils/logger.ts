@@ -3,6 +3,7 @@
  * LSP-compatible logging (stderr for logs, stdout for LSP protocol)
  */
 
+import * as fs from 'fs';
 import { Connection } from 'vscode-languageserver';
 
 export enum LogLevel {
@@ -22,16 +23,26 @@ const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
   [LogLevel.ERROR]: 3,
 };
 
+/**
+ * Keys whose values are never logged
+ */
+const SECRET_KEYS = ['token', 'access_token', 'accessToken'];
+
 /**
  * Logger class for LSP-compatible logging
  */
 export class Logger {
-  private level: LogLevel = LogLevel.INFO;
+  private level: LogLevel | null = null;
   private connection: Connection | null = null;
+  private fileStream: fs.WriteStream | null = null;
+  private filePath: string | undefined;
   private context: string = '';
+  private parent: Logger | null;
+  private secrets: Set<string> = new Set();
 
-  constructor(context: string = 'HomeAssistantLSP') {
+  constructor(context: string = 'HomeAssistantLSP', parent: Logger | null = null) {
     this.context = context;
+    this.parent = parent;
   }
 
   /**
@@ -52,17 +63,85 @@ export class Logger {
   }
 
   /**
-   * Get current log level
+   * Get current log level (child loggers follow their parent unless set)
    */
   getLevel(): LogLevel {
-    return this.level;
+    return this.level ?? this.parent?.getLevel() ?? LogLevel.INFO;
+  }
+
+  /**
+   * Also append log lines to a file (undefined stops writing to a file)
+   */
+  setFile(filePath?: string): void {
+    if (filePath === this.filePath) {
+      return;
+    }
+    this.filePath = filePath;
+
+    if (this.fileStream) {
+      this.fileStream.end();
+      this.fileStream = null;
+    }
+
+    if (filePath) {
+      this.fileStream = fs.createWriteStream(filePath, { flags: 'a' });
+      this.fileStream.on('error', (error) => {
+        process.stderr.write(`Failed to write log file ${filePath}: ${error.message}\n`);
+        this.fileStream = null;
+        this.filePath = undefined;
+      });
+    }
+  }
+
+  /**
+   * Redact a secret (such as an access token) from every log line
+   * (secrets are shared by the whole logger tree)
+   */
+  addSecret(secret: string): void {
+    if (this.parent) {
+      this.parent.addSecret(secret);
+    } else if (secret) {
+      this.secrets.add(secret);
+    }
+  }
+
+  /**
+   * Get the secrets to redact, kept by the root logger
+   */
+  private getSecrets(): Set<string> {
+    return this.parent ? this.parent.getSecrets() : this.secrets;
+  }
+
+  /**
+   * Replace known secrets in a log line
+   */
+  private redact(text: string): string {
+    let redacted = text;
+    for (const secret of this.getSecrets()) {
+      redacted = redacted.split(secret).join('***');
+    }
+    return redacted;
+  }
+
+  /**
+   * Get the LSP connection, inherited from the parent logger
+   */
+  private getConnection(): Connection | null {
+    return this.connection ?? this.parent?.getConnection() ?? null;
+  }
+
+  /**
+   * Get the log file stream, inherited from the parent logger
+   */
+  private getFileStream(): fs.WriteStream | null {
+    return this.fileStream ?? this.parent?.getFileStream() ?? null;
   }
 
   /**
    * Check if a log level should be logged
    */
   private shouldLog(level: LogLevel): boolean {
-    return LOG_LEVEL_PRIORITY[level] >= LOG_LEVEL_PRIORITY[this.level];
+    return LOG_LEVEL_PRIORITY[level] >= LOG_LEVEL_PRIORITY[this.getLevel()];
   }
 
   /**
@@ -75,7 +154,9 @@ export class Logger {
     if (data !== undefined) {
       if (typeof data === 'object') {
         try {
-          formattedMessage += ` ${JSON.stringify(data)}`;
+          formattedMessage += ` ${JSON.stringify(data, (key, value) =>
+            SECRET_KEYS.includes(key) && typeof value === 'string' ? '***' : value
+          )}`;
         } catch {
           formattedMessage += ` [Object]`;
         }
@@ -84,7 +165,7 @@ export class Logger {
       }
     }
 
-    return formattedMessage;
+    return this.redact(formattedMessage);
   }
 
   /**
@@ -97,22 +178,28 @@ export class Logger {
 
     const formattedMessage = this.formatMessage(level, message, data);
 
+    const fileStream = this.getFileStream();
+    if (fileStream) {
+      fileStream.write(formattedMessage + '\n');
+    }
+
     // Use LSP connection if available, otherwise fallback to stderr
-    if (this.connection) {
+    const connection = this.getConnection();
+    if (connection) {
       // Use the appropriate console method based on log level
       switch (level) {
         case LogLevel.ERROR:
-          this.connection.console.error(formattedMessage);
+          connection.console.error(formattedMessage);
           break;
         case LogLevel.WARN:
-          this.connection.console.warn(formattedMessage);
+          connection.console.warn(formattedMessage);
           break;
         case LogLevel.INFO:
-          this.connection.console.info(formattedMessage);
+          connection.console.info(formattedMessage);
           break;
         case LogLevel.DEBUG:
         default:
-          this.connection.console.log(formattedMessage);
+          connection.console.log(formattedMessage);
           break;
       }
     } else {
@@ -154,14 +241,10 @@ export class Logger {
 
   /**
    * Create a child logger with a new context
+   * (it follows this logger's level, connection and file)
    */
   child(childContext: string): Logger {
-    const childLogger = new Logger(`${this.context}:${childContext}`);
-    childLogger.setLevel(this.level);
-    if (this.connection) {
-      childLogger.setConnection(this.connection);
-    }
-    return childLogger;
+    return new Logger(`${this.context}:${childContext}`, this);
   }
 }
 
@@ -170,12 +253,11 @@ let globalLogger: Logger | null = null;
 
 /**
  * Get or create the global logger instance
+ * (loggers with a context are children that follow its settings)
  */
 export function getLogger(context?: string): Logger {
   if (!globalLogger) {
-    globalLogger = new Logger(context || 'HomeAssistantLSP');
-  } else if (context) {
-    return globalLogger.child(context);
+    globalLogger = new Logger('HomeAssistantLSP');
   }
-  return globalLogger;
+  return context ? globalLogger.child(context) : globalLogger;
 }
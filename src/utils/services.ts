@@ -0,0 +1,94 @@
+/**
+ * Service Utilities
+ * Helpers for reading Home Assistant service metadata
+ */
+
+import { Service, ServiceField, Services } from '../types/homeassistant';
+
+/**
+ * Keys that select the target of a service call
+ */
+export const TARGET_FIELDS = [
+  'entity_id',
+  'device_id',
+  'area_id',
+  'floor_id',
+  'label_id',
+];
+
+/**
+ * YAML keys that name the service of a service call
+ * (`service` is the legacy name of `action`, `perform_action` is used by dashboards)
+ */
+export const SERVICE_KEYS = ['action', 'service', 'perform_action'];
+
+/**
+ * YAML keys that hold the data of a service call
+ */
+export const SERVICE_DATA_KEYS = ['data', 'service_data'];
+
+/**
+ * Look up a service by its full `domain.service` name
+ */
+export function findService(services: Services, fullName: string): Service | null {
+  const [domain, serviceName] = fullName.split('.');
+  if (!domain || !serviceName) {
+    return null;
+  }
+  return services?.[domain]?.[serviceName] || null;
+}
+
+/**
+ * Get the data fields of a service, flattening collapsible field sections
+ */
+export function getServiceFields(service: Service): Record<string, ServiceField> {
+  const fields: Record<string, ServiceField> = {};
+
+  for (const [fieldName, field] of Object.entries(service.fields || {})) {
+    // Sections (e.g. "advanced_fields") group fields without being fields themselves
+    if (field && field.fields && !field.selector) {
+      Object.assign(fields, field.fields);
+    } else {
+      fields[fieldName] = field;
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Check whether a service accepts a target (entity_id, area_id, ...)
+ */
+export function hasTarget(service: Service): boolean {
+  return service.target !== undefined && service.target !== null;
+}
+
+/**
+ * Format service data field documentation
+ */
+export function formatFieldDocumentation(
+  serviceName: string,
+  fieldName: string,
+  field: ServiceField
+): string {
+  let doc = `**${fieldName}**${field.required ? ' *(required)*' : ''}\n\n`;
+
+  if (field.description) {
+    doc += `${field.description}\n\n`;
+  }
+
+  if (field.selector) {
+    doc += `**Selector:** \`${Object.keys(field.selector).join(', ')}\`\n\n`;
+  }
+
+  if (field.default !== undefined) {
+    doc += `**Default:** \`${JSON.stringify(field.default)}\`\n\n`;
+  }
+
+  if (field.example !== undefined) {
+    doc += `**Example:** \`${JSON.stringify(field.example)}\`\n\n`;
+  }
+
+  doc += `*Field of \`${serviceName}\`*`;
+  return doc;
+}
@@ -0,0 +1,28 @@
+/**
+ * URI Utilities
+ * Conversion between LSP document URIs and file system paths
+ */
+
+import { fileURLToPath, pathToFileURL } from 'url';
+
+/**
+ * Convert a file:// URI to a file system path, or null for other schemes
+ */
+export function uriToPath(uri: string): string | null {
+  if (!uri.startsWith('file:')) {
+    return null;
+  }
+
+  try {
+    return fileURLToPath(uri);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert a file system path to a file:// URI
+ */
+export function pathToUri(filePath: string): string {
+  return pathToFileURL(filePath).toString();
+}
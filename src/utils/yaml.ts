@@ -0,0 +1,230 @@
+/**
+ * YAML Utilities
+ * Lightweight line-based helpers for navigating Home Assistant YAML files
+ */
+
+/**
+ * A single `key: value` (or list item) line of a YAML document
+ */
+export interface YamlEntry {
+  line: number;
+  indent: number; // column where the line content starts (including "- ")
+  keyColumn: number; // column where the key (or list item value) starts
+  key: string | null; // null for plain list items without a key
+  value: string; // raw value after the colon, comment stripped and trimmed
+  valueColumn: number; // column where the value starts
+  isListItem: boolean;
+}
+
+/**
+ * Remove a trailing comment from a line, leaving column positions untouched
+ */
+export function stripComment(line: string): string {
+  let quote: string | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if ((char === '"' || char === "'") && (i === 0 || /[\s:\-[{,]/.test(line[i - 1]))) {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.substring(0, i);
+    }
+  }
+
+  return line;
+}
+
+/**
+ * Remove surrounding quotes from a scalar value
+ */
+export function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (
+    trimmed.length >= 2 &&
+    (trimmed[0] === '"' || trimmed[0] === "'") &&
+    trimmed[trimmed.length - 1] === trimmed[0]
+  ) {
+    return trimmed.substring(1, trimmed.length - 1);
+  }
+  return trimmed;
+}
+
+/**
+ * Parse a line into a YAML entry, or null for blank and comment-only lines
+ */
+export function parseLine(text: string, line: number = 0): YamlEntry | null {
+  const content = stripComment(text).replace(/\s+$/, '');
+  if (content.trim() === '' || content.trim() === '---') {
+    return null;
+  }
+
+  const indent = content.length - content.trimStart().length;
+  let keyColumn = indent;
+  let isListItem = false;
+
+  // Consume list markers ("- ", "- - ")
+  while (/^-(\s|$)/.test(content.substring(keyColumn))) {
+    isListItem = true;
+    keyColumn++;
+    while (keyColumn < content.length && content[keyColumn] === ' ') {
+      keyColumn++;
+    }
+  }
+
+  const rest = content.substring(keyColumn);
+  const keyMatch = rest.match(/^("[^"]*"|'[^']*'|[^\s"'{[#][^:]*?)\s*:(\s|$)/);
+
+  if (!keyMatch) {
+    return {
+      line,
+      indent,
+      keyColumn,
+      key: null,
+      value: rest.trim(),
+      valueColumn: keyColumn,
+      isListItem,
+    };
+  }
+
+  const afterColon = keyColumn + keyMatch[0].length;
+  const rawValue = content.substring(afterColon);
+  const valueColumn = afterColon + (rawValue.length - rawValue.trimStart().length);
+
+  return {
+    line,
+    indent,
+    keyColumn,
+    key: unquote(keyMatch[1]),
+    value: rawValue.trim(),
+    valueColumn,
+    isListItem,
+  };
+}
+
+/**
+ * Parse every line of a document, keeping null for blank/comment lines
+ */
+export function parseLines(lines: string[]): (YamlEntry | null)[] {
+  return lines.map((text, line) => parseLine(text, line));
+}
+
+/**
+ * Get the entries of the mapping that contains the entry on the given line
+ */
+export function getSiblingEntries(
+  entries: (YamlEntry | null)[],
+  line: number
+): YamlEntry[] {
+  const entry = entries[line];
+  if (!entry || entry.key === null) {
+    return [];
+  }
+
+  const column = entry.keyColumn;
+
+  // Walk up to the first key of the mapping ("- key:" starts a new mapping)
+  let start = line;
+  if (!entry.isListItem) {
+    for (let i = line - 1; i >= 0; i--) {
+      const candidate = entries[i];
+      if (!candidate) continue;
+      if (candidate.keyColumn === column && candidate.key !== null) {
+        start = i;
+        if (candidate.isListItem) break;
+      } else if (candidate.indent < column) {
+        break;
+      }
+    }
+  }
+
+  const siblings: YamlEntry[] = [entries[start]!];
+  for (let i = start + 1; i < entries.length; i++) {
+    const candidate = entries[i];
+    if (!candidate) continue;
+    if (candidate.keyColumn === column && !candidate.isListItem && candidate.key !== null) {
+      siblings.push(candidate);
+    } else if (candidate.indent < column) {
+      break;
+    }
+  }
+
+  return siblings;
+}
+
+/**
+ * Get the direct children of the entry on the given line
+ * (for sequences this includes the keys of each item mapping)
+ */
+export function getChildEntries(
+  entries: (YamlEntry | null)[],
+  line: number
+): YamlEntry[] {
+  const end = getBlockEnd(entries, line);
+  let childColumn: number | null = null;
+  const children: YamlEntry[] = [];
+
+  for (let i = line + 1; i < end; i++) {
+    const candidate = entries[i];
+    if (!candidate) continue;
+    if (childColumn === null) {
+      childColumn = candidate.keyColumn;
+    }
+    if (candidate.keyColumn === childColumn) {
+      children.push(candidate);
+    }
+  }
+
+  return children;
+}
+
+/**
+ * Get the line after the last line belonging to the entry's block
+ */
+export function getBlockEnd(entries: (YamlEntry | null)[], line: number): number {
+  const parent = entries[line];
+  if (!parent) {
+    return line + 1;
+  }
+
+  let end = line + 1;
+  for (let i = line + 1; i < entries.length; i++) {
+    const candidate = entries[i];
+    if (!candidate) continue;
+    const isNested = candidate.indent > parent.keyColumn;
+    // A block sequence may sit at the same column as its parent key
+    const isSequenceItem =
+      candidate.indent === parent.keyColumn &&
+      candidate.isListItem &&
+      parent.key !== null &&
+      parent.value === '';
+    if (!isNested && !isSequenceItem) {
+      break;
+    }
+    end = i + 1;
+  }
+
+  return end;
+}
+
+/**
+ * Find the key whose block contains content starting at the given column
+ * (the closest key above the line that starts left of the column)
+ */
+export function findParentEntry(
+  entries: (YamlEntry | null)[],
+  line: number,
+  column: number
+): YamlEntry | null {
+  for (let i = line - 1; i >= 0; i--) {
+    const candidate = entries[i];
+    if (!candidate || candidate.key === null) continue;
+    if (candidate.keyColumn < column) {
+      return candidate;
+    }
+  }
+  return null;
+}
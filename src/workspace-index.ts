@@ -0,0 +1,225 @@
+/**
+ * Workspace Index
+ * Tracks the Home Assistant configuration files in the workspace folders
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getLogger } from './utils/logger';
+import { uriToPath, pathToUri } from './utils/uri';
+
+const logger = getLogger('WorkspaceIndex');
+
+/**
+ * File extensions that are indexed (YAML, Jinja templates, Python)
+ */
+const INDEXED_EXTENSIONS = ['.yaml', '.yml', '.jinja', '.jinja2', '.j2', '.py'];
+
+/**
+ * Directories that never contain user configuration
+ */
+const IGNORED_DIRECTORIES = ['node_modules', '__pycache__', 'deps', 'tts', 'venv'];
+
+/**
+ * Upper bound on indexed files, protecting against huge workspaces
+ */
+const MAX_FILES = 5000;
+
+/**
+ * How long a directory scan is reused before the folders are walked again
+ */
+const FILE_LIST_TTL = 10000; // 10 seconds
+
+/**
+ * Glob for the file-watch registration, matching the indexed extensions
+ */
+export const WATCH_PATTERN = `**/*.{${INDEXED_EXTENSIONS.map((ext) => ext.substring(1)).join(',')}}`;
+
+/**
+ * Cached file contents
+ */
+interface IndexedFile {
+  mtimeMs: number;
+  text: string;
+}
+
+/**
+ * A file of the workspace with its current text
+ */
+export interface WorkspaceFile {
+  uri: string;
+  text: string;
+}
+
+/**
+ * Workspace Index
+ */
+export class WorkspaceIndex {
+  private getWorkspaceFolders: () => string[];
+  private getOpenDocuments: () => TextDocument[];
+  private files: Map<string, IndexedFile> = new Map();
+  private fileList: string[] | null = null;
+  private listedAt: number = 0;
+  private watched: boolean = false;
+
+  constructor(
+    getWorkspaceFolders: () => string[],
+    getOpenDocuments: () => TextDocument[]
+  ) {
+    this.getWorkspaceFolders = getWorkspaceFolders;
+    this.getOpenDocuments = getOpenDocuments;
+  }
+
+  /**
+   * Check whether a file path is indexed
+   */
+  isIndexed(filePath: string): boolean {
+    return INDEXED_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+  }
+
+  /**
+   * Get every indexed file with its current text
+   * (open documents take precedence over the contents on disk)
+   */
+  getFiles(): WorkspaceFile[] {
+    const result: WorkspaceFile[] = [];
+    const openDocuments = new Map<string, TextDocument>();
+
+    for (const document of this.getOpenDocuments()) {
+      const filePath = uriToPath(document.uri);
+      if (filePath && this.isIndexed(filePath)) {
+        openDocuments.set(path.resolve(filePath), document);
+      }
+    }
+
+    for (const filePath of this.listFiles()) {
+      const document = openDocuments.get(filePath);
+      if (document) {
+        result.push({ uri: document.uri, text: document.getText() });
+        openDocuments.delete(filePath);
+        continue;
+      }
+
+      const text = this.readFile(filePath);
+      if (text !== null) {
+        result.push({ uri: pathToUri(filePath), text });
+      }
+    }
+
+    // Open documents outside the workspace folders are searched as well
+    for (const document of openDocuments.values()) {
+      result.push({ uri: document.uri, text: document.getText() });
+    }
+
+    return result;
+  }
+
+  /**
+   * Rely on file-watch notifications instead of rescanning and re-checking
+   * files on every query
+   */
+  setWatched(watched: boolean): void {
+    this.watched = watched;
+    logger.debug(`Workspace index ${watched ? 'follows file-watch notifications' : 'polls files'}`);
+  }
+
+  /**
+   * Forget the cached contents of a changed file
+   */
+  invalidateFile(filePath: string): void {
+    this.files.delete(path.resolve(filePath));
+  }
+
+  /**
+   * Forget the file list so the next query rescans the workspace folders
+   */
+  invalidate(filePath?: string): void {
+    this.fileList = null;
+    if (filePath) {
+      this.invalidateFile(filePath);
+    }
+  }
+
+  /**
+   * Drop all cached state
+   */
+  clear(): void {
+    this.fileList = null;
+    this.files.clear();
+  }
+
+  /**
+   * List indexed files in all workspace folders
+   */
+  private listFiles(): string[] {
+    if (this.fileList && (this.watched || Date.now() - this.listedAt < FILE_LIST_TTL)) {
+      return this.fileList;
+    }
+
+    const files = new Set<string>();
+
+    const walk = (dir: string) => {
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+
+      for (const entry of entries) {
+        if (files.size >= MAX_FILES) {
+          return;
+        }
+        // Hidden entries include .storage, .git and editor folders
+        if (entry.name.startsWith('.') || IGNORED_DIRECTORIES.includes(entry.name)) {
+          continue;
+        }
+
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          walk(fullPath);
+        } else if (entry.isFile() && this.isIndexed(entry.name)) {
+          files.add(path.resolve(fullPath));
+        }
+      }
+    };
+
+    for (const folder of this.getWorkspaceFolders()) {
+      walk(folder);
+    }
+
+    if (files.size >= MAX_FILES) {
+      logger.warn(`Workspace index limited to ${MAX_FILES} files`);
+    }
+
+    this.fileList = Array.from(files).sort();
+    this.listedAt = Date.now();
+    logger.debug(`Workspace index: ${this.fileList.length} files`);
+    return this.fileList;
+  }
+
+  /**
+   * Read a file, reusing the cached text while it is unchanged
+   */
+  private readFile(filePath: string): string | null {
+    const cached = this.files.get(filePath);
+    if (cached && this.watched) {
+      return cached.text;
+    }
+
+    try {
+      const stat = fs.statSync(filePath);
+      if (cached && cached.mtimeMs === stat.mtimeMs) {
+        return cached.text;
+      }
+
+      const text = fs.readFileSync(filePath, 'utf8');
+      this.files.set(filePath, { mtimeMs: stat.mtimeMs, text });
+      return text;
+    } catch {
+      this.files.delete(filePath);
+      return null;
+    }
+  }
+}
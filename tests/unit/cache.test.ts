@@ -2,7 +2,10 @@
  * Cache Unit Tests
  */
 
-import { Cache } from '../../src/cache';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Cache, CacheKeys } from '../../src/cache';
 
 describe('Cache', () => {
   let cache: Cache;
@@ -178,4 +181,123 @@ describe('Cache', () => {
       expect(cache.get('key')).toBe('value');
     });
   });
+
+  describe('configure', () => {
+    it('should apply a new default TTL', () => {
+      cache.configure({ defaultTTL: 60 });
+      cache.set('key', 'value');
+
+      expect(cache.getTTL('key')).toBeGreaterThan(50);
+    });
+
+    it('should fetch every time while disabled', async () => {
+      const fetchFn = jest.fn(async () => 'fetched-value');
+
+      cache.configure({ enabled: false });
+      await cache.getOrFetch('key', fetchFn);
+      await cache.getOrFetch('key', fetchFn);
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+      expect(cache.get('key')).toBe('fetched-value');
+
+      cache.configure({ enabled: true });
+      await cache.getOrFetch('key', fetchFn);
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should evict entries above a smaller maximum size', () => {
+      cache.set('a', 1, 10);
+      cache.set('b', 2, 20);
+      cache.set('c', 3, 30);
+
+      cache.configure({ maxSize: 2 });
+
+      expect(cache.keys().sort()).toEqual(['b', 'c']);
+      expect(cache.getStats().evictions).toBe(1);
+    });
+  });
+
+  describe('snapshot', () => {
+    let dir: string;
+    let snapshotPath: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ha-lsp-cache-'));
+      snapshotPath = path.join(dir, 'instance.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should persist metadata and serve it when fetching fails', async () => {
+      cache.attachSnapshot(snapshotPath);
+      await cache.getOrFetch(CacheKeys.ENTITIES, async () => [{ entity_id: 'light.porch' }]);
+      cache.set('ha:other', 'not persisted');
+      await cache.detachSnapshot();
+
+      const offline = new Cache({ defaultTTL: 1, checkPeriod: 100 });
+      offline.attachSnapshot(snapshotPath);
+      const entities = await offline.getOrFetch(CacheKeys.ENTITIES, () =>
+        Promise.reject(new Error('WebSocket is not connected'))
+      );
+
+      expect(entities).toEqual([{ entity_id: 'light.porch' }]);
+      expect(offline.getSnapshotTime(CacheKeys.ENTITIES)).toBeInstanceOf(Date);
+      expect(offline.getStats().snapshotHits).toBe(1);
+      await expect(
+        offline.getOrFetch('ha:other', () => Promise.reject(new Error('offline')))
+      ).rejects.toThrow('offline');
+      offline.destroy();
+    });
+
+    it('should stop marking values once fresh data arrives', async () => {
+      cache.attachSnapshot(snapshotPath);
+      await cache.getOrFetch(CacheKeys.SERVICES, async () => ({ light: {} }));
+      await cache.saveSnapshot();
+
+      const offline = new Cache({ defaultTTL: 1, checkPeriod: 100 });
+      offline.attachSnapshot(snapshotPath);
+      await offline.getOrFetch(CacheKeys.SERVICES, () => Promise.reject(new Error('offline')));
+      expect(offline.getSnapshotTime(CacheKeys.SERVICES)).not.toBeNull();
+
+      offline.set(CacheKeys.SERVICES, { light: {}, switch: {} });
+      expect(offline.getSnapshotTime(CacheKeys.SERVICES)).toBeNull();
+      offline.destroy();
+    });
+
+    it('should only let the user read the snapshot', async () => {
+      cache.attachSnapshot(snapshotPath);
+      cache.set(CacheKeys.ENTITIES, [{ entity_id: 'camera.door', attributes: {} }]);
+      await cache.saveSnapshot();
+
+      expect(fs.statSync(snapshotPath).mode & 0o777).toBe(0o600);
+    });
+
+    it('should only save values set to be persisted', () => {
+      jest.useFakeTimers();
+      const save = jest.spyOn(cache, 'saveSnapshot').mockResolvedValue();
+      try {
+        cache.attachSnapshot(snapshotPath);
+        const saves = (state: string, persist: boolean) => {
+          cache.set(CacheKeys.ENTITIES, [{ entity_id: 'light.porch', state }], undefined, persist);
+          jest.advanceTimersByTime(30000);
+          return save.mock.calls.length;
+        };
+
+        expect(saves('on', true)).toBe(1);
+        expect(saves('off', false)).toBe(1);
+        expect(saves('on', true)).toBe(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should ignore a missing snapshot file', async () => {
+      cache.attachSnapshot(path.join(dir, 'missing.json'));
+
+      await expect(
+        cache.getOrFetch(CacheKeys.ENTITIES, () => Promise.reject(new Error('offline')))
+      ).rejects.toThrow('offline');
+    });
+  });
 });
@@ -0,0 +1,160 @@
+/**
+ * Code Actions Provider Tests
+ * Tests quick fixes suggesting existing entities for unknown entity IDs
+ */
+
+import { CodeActionKind, Diagnostic } from 'vscode-languageserver';
+import { CodeActionsProvider } from '../../src/providers/code-actions';
+import { DiagnosticsProvider } from '../../src/providers/diagnostics';
+import { HomeAssistantClient } from '../../src/ha-client';
+import { Cache } from '../../src/cache';
+import {
+  DeviceRegistryEntry,
+  Entity,
+  EntityRegistryEntry,
+  Services,
+} from '../../src/types/homeassistant';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+// Mock Home Assistant Client
+class MockHomeAssistantClient extends HomeAssistantClient {
+  mockEntities: Entity[] = [];
+  mockRegistry: EntityRegistryEntry[] = [];
+  mockDevices: DeviceRegistryEntry[] = [];
+
+  async getStates(): Promise<Entity[]> {
+    return this.mockEntities;
+  }
+
+  async getServices(): Promise<Services> {
+    return {};
+  }
+
+  async getEntityRegistry(): Promise<EntityRegistryEntry[]> {
+    return this.mockRegistry;
+  }
+
+  async getDeviceRegistry(): Promise<DeviceRegistryEntry[]> {
+    return this.mockDevices;
+  }
+}
+
+// Mock Cache
+class MockCache extends Cache {
+  async getOrFetch<T>(
+    _key: string,
+    fetchFn: () => Promise<T>,
+    _ttl?: number
+  ): Promise<T> {
+    return fetchFn();
+  }
+}
+
+function createEntity(entityId: string, friendlyName?: string): Entity {
+  return {
+    entity_id: entityId,
+    state: 'on',
+    attributes: friendlyName ? { friendly_name: friendlyName } : {},
+    last_changed: '',
+    last_updated: '',
+    context: { id: '', parent_id: null, user_id: null },
+  };
+}
+
+describe('CodeActionsProvider', () => {
+  let codeActionsProvider: CodeActionsProvider;
+  let diagnosticsProvider: DiagnosticsProvider;
+  let mockClient: MockHomeAssistantClient;
+  let mockCache: MockCache;
+
+  beforeEach(() => {
+    mockClient = new MockHomeAssistantClient();
+    mockCache = new MockCache();
+    codeActionsProvider = new CodeActionsProvider(mockClient, mockCache);
+    diagnosticsProvider = new DiagnosticsProvider(mockClient, mockCache);
+
+    mockClient.mockEntities = [
+      createEntity('light.living_room', 'Living Room Ceiling'),
+      createEntity('light.kitchen'),
+      createEntity('switch.living_room'),
+      createEntity('sensor.outdoor_temperature'),
+    ];
+  });
+
+  afterEach(() => {
+    mockCache.destroy();
+  });
+
+  const quickFixes = async (text: string, only?: string[]) => {
+    const document = TextDocument.create('file:///config/automations.yaml', 'yaml', 1, text);
+    const diagnostics: Diagnostic[] = await diagnosticsProvider.provideDiagnostics(document);
+    return codeActionsProvider.provideCodeActions(document, {
+      textDocument: { uri: document.uri },
+      range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+      context: { diagnostics, only },
+    });
+  };
+
+  test('should offer the closest entities of the same domain first', async () => {
+    const actions = await quickFixes('entity_id: light.livng_room\n');
+
+    expect(actions.map((a) => a.title)).toEqual([
+      'Replace with light.living_room (Living Room Ceiling)',
+      'Replace with switch.living_room',
+    ]);
+    expect(actions[0].kind).toBe(CodeActionKind.QuickFix);
+    expect(actions[0].isPreferred).toBe(true);
+    expect(actions[0].edit!.changes!['file:///config/automations.yaml']).toEqual([
+      {
+        range: { start: { line: 0, character: 11 }, end: { line: 0, character: 27 } },
+        newText: 'light.living_room',
+      },
+    ]);
+  });
+
+  test('should match friendly names', async () => {
+    const actions = await quickFixes('entity_id: light.living_room_ceilng\n');
+
+    expect(actions[0].title).toBe('Replace with light.living_room (Living Room Ceiling)');
+  });
+
+  test('should suggest the new ID of a renamed entity first', async () => {
+    mockClient.mockEntities.push(createEntity('light.porch', 'Porch'));
+    mockClient.mockRegistry = [
+      {
+        entity_id: 'light.porch',
+        platform: 'hue',
+        device_id: 'device1',
+        area_id: null,
+        name: 'Porch',
+        original_name: 'Bulb',
+      },
+    ];
+    mockClient.mockDevices = [
+      {
+        id: 'device1',
+        name: 'Hue color lamp 1',
+        name_by_user: null,
+        manufacturer: 'Signify',
+        model: null,
+        area_id: null,
+      },
+    ];
+
+    const actions = await quickFixes('entity_id: light.hue_color_lamp_1_bulb\n');
+
+    expect(actions[0].title).toBe(
+      'Replace with light.porch (renamed from light.hue_color_lamp_1_bulb)'
+    );
+  });
+
+  test('should not offer unrelated entities', () => {
+    expect(
+      codeActionsProvider.suggest('light.garage', mockClient.mockEntities).map((s) => s.entityId)
+    ).toEqual([]);
+  });
+
+  test('should only answer quick fix requests', async () => {
+    expect(await quickFixes('entity_id: light.livng_room\n', ['refactor'])).toEqual([]);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Code Lens Provider Tests
+ * Tests the run, trigger and toggle lenses on automations and scripts
+ */
+
+import { CodeLensProvider, formatLastTriggered } from '../../src/providers/code-lens';
+import { HomeAssistantClient } from '../../src/ha-client';
+import { Cache } from '../../src/cache';
+import { Entity, EntityRegistryEntry } from '../../src/types/homeassistant';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+// Mock Home Assistant Client
+class MockHomeAssistantClient extends HomeAssistantClient {
+  mockEntities: Entity[] = [];
+  mockRegistry: EntityRegistryEntry[] = [];
+
+  async getStates(): Promise<Entity[]> {
+    return this.mockEntities;
+  }
+
+  async getEntityRegistry(): Promise<EntityRegistryEntry[]> {
+    return this.mockRegistry;
+  }
+}
+
+// Mock Cache
+class MockCache extends Cache {
+  async getOrFetch<T>(
+    _key: string,
+    fetchFn: () => Promise<T>,
+    _ttl?: number
+  ): Promise<T> {
+    return fetchFn();
+  }
+}
+
+function createEntity(entityId: string, state: string, lastTriggered: string | null): Entity {
+  return {
+    entity_id: entityId,
+    state,
+    attributes: { last_triggered: lastTriggered },
+    last_changed: '',
+    last_updated: '',
+    context: { id: '', parent_id: null, user_id: null },
+  };
+}
+
+describe('CodeLensProvider', () => {
+  let codeLensProvider: CodeLensProvider;
+  let mockClient: MockHomeAssistantClient;
+  let mockCache: MockCache;
+
+  beforeEach(() => {
+    mockClient = new MockHomeAssistantClient();
+    mockCache = new MockCache();
+    codeLensProvider = new CodeLensProvider(mockClient, mockCache);
+
+    mockClient.mockEntities = [
+      createEntity('automation.front_door_lights', 'on', null),
+      createEntity('automation.kitchen_motion', 'off', null),
+      createEntity('script.porch_off', 'off', null),
+    ];
+    mockClient.mockRegistry = [
+      {
+        entity_id: 'automation.front_door_lights',
+        unique_id: '1700000000',
+        platform: 'automation',
+        device_id: null,
+        area_id: null,
+        name: null,
+      },
+    ];
+  });
+
+  afterEach(() => {
+    mockCache.destroy();
+  });
+
+  const lenses = (name: string, lines: string[]) =>
+    codeLensProvider.provideCodeLenses(
+      TextDocument.create(`file:///config/${name}`, 'yaml', 1, lines.join('\n'))
+    );
+
+  test('should map automations to their entity through the registry unique_id', async () => {
+    const result = await lenses('automations.yaml', [
+      '- id: "1700000000"',
+      '  alias: Porch lights at sunset',
+      '  triggers:',
+      '    - trigger: sun',
+      '- id: "1700000001"',
+      '  alias: Kitchen motion',
+      '  triggers:',
+      '    - trigger: state',
+      '- id: "1700000002"',
+      '  alias: Not reloaded yet',
+      '  triggers:',
+      '    - trigger: state',
+    ]);
+
+    expect(result.map((lens) => [lens.range.start.line, lens.command!.title])).toEqual([
+      [0, '▶ Trigger'],
+      [0, 'Disable'],
+      [0, 'never triggered'],
+      [4, '▶ Trigger'],
+      [4, 'Enable'],
+      [4, 'never triggered'],
+    ]);
+    expect(result[0].command).toEqual({
+      title: '▶ Trigger',
+      command: 'homeassistant.triggerAutomation',
+      arguments: ['automation.front_door_lights'],
+    });
+    expect(result[1].command!.command).toBe('homeassistant.toggleAutomation');
+  });
+
+  test('should offer to run scripts', async () => {
+    const result = await lenses('scripts.yaml', [
+      'porch_off:',
+      '  sequence:',
+      '    - action: light.turn_off',
+    ]);
+
+    expect(result.map((lens) => lens.command)).toEqual([
+      { title: '▶ Run', command: 'homeassistant.runScript', arguments: ['script.porch_off'] },
+      {
+        title: 'never triggered',
+        command: 'homeassistant.getEntityState',
+        arguments: ['script.porch_off'],
+      },
+    ]);
+  });
+
+  test('should show no lenses without entity states', async () => {
+    mockClient.getStates = async () => {
+      throw new Error('Not connected');
+    };
+
+    expect(await lenses('scripts.yaml', ['porch_off:', '  sequence: []'])).toEqual([]);
+  });
+
+  test('should describe when an automation last ran', () => {
+    const now = Date.parse('2026-01-01T12:00:00Z');
+
+    expect(formatLastTriggered(null, now)).toBe('never triggered');
+    expect(formatLastTriggered('2026-01-01T11:59:30Z', now)).toBe('last triggered just now');
+    expect(formatLastTriggered('2026-01-01T11:55:00Z', now)).toBe('last triggered 5 min ago');
+    expect(formatLastTriggered('2026-01-01T09:00:00Z', now)).toBe('last triggered 3 h ago');
+    expect(formatLastTriggered('2025-12-31T10:00:00Z', now)).toBe('last triggered 1 day ago');
+  });
+});
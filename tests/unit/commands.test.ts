@@ -0,0 +1,302 @@
+/**
+ * Command Handler Tests
+ * Tests the service call and registry list commands against a mocked client
+ */
+
+import { CommandHandler } from '../../src/commands';
+import { HomeAssistantClient } from '../../src/ha-client';
+import { Cache } from '../../src/cache';
+import {
+  AreaRegistryEntry,
+  DeviceRegistryEntry,
+  FloorRegistryEntry,
+  LabelRegistryEntry,
+  ServiceCallResult,
+  ServiceTarget,
+} from '../../src/types/homeassistant';
+
+interface ServiceCall {
+  domain: string;
+  service: string;
+  serviceData?: Record<string, any>;
+  target?: ServiceTarget;
+  returnResponse: boolean;
+}
+
+// Mock Home Assistant Client
+class MockHomeAssistantClient extends HomeAssistantClient {
+  connected = true;
+  calls: ServiceCall[] = [];
+  serviceError: Error | null = null;
+  fetches: string[] = [];
+
+  mockAreas: AreaRegistryEntry[] = [
+    { area_id: 'kitchen', name: 'Kitchen', floor_id: 'ground_floor' },
+  ];
+  mockDevices: DeviceRegistryEntry[] = [
+    {
+      id: 'a1b2c3',
+      name: 'Hue bulb',
+      name_by_user: 'Ceiling light',
+      manufacturer: 'Signify',
+      model: 'LCA001',
+      area_id: 'kitchen',
+    },
+    {
+      id: 'd4e5f6',
+      name: 'Motion sensor',
+      name_by_user: null,
+      manufacturer: 'Aqara',
+      model: 'RTCGQ11LM',
+      area_id: 'hallway',
+    },
+  ];
+  mockFloors: FloorRegistryEntry[] = [{ floor_id: 'ground_floor', name: 'Ground floor', level: 0 }];
+  mockLabels: LabelRegistryEntry[] = [{ label_id: 'climate', name: 'Climate' }];
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async callService(
+    domain: string,
+    service: string,
+    serviceData?: Record<string, any>,
+    target?: ServiceTarget,
+    returnResponse: boolean = false
+  ): Promise<ServiceCallResult> {
+    if (this.serviceError) {
+      throw this.serviceError;
+    }
+    this.calls.push({ domain, service, serviceData, target, returnResponse });
+    return {
+      context: { id: 'ctx-1', parent_id: null, user_id: null },
+      response: returnResponse ? { events: [] } : undefined,
+    };
+  }
+
+  async getAreaRegistry(): Promise<AreaRegistryEntry[]> {
+    this.fetches.push('areas');
+    return this.mockAreas;
+  }
+
+  async getDeviceRegistry(): Promise<DeviceRegistryEntry[]> {
+    this.fetches.push('devices');
+    return this.mockDevices;
+  }
+
+  async getFloorRegistry(): Promise<FloorRegistryEntry[]> {
+    this.fetches.push('floors');
+    return this.mockFloors;
+  }
+
+  async getLabelRegistry(): Promise<LabelRegistryEntry[]> {
+    this.fetches.push('labels');
+    return this.mockLabels;
+  }
+}
+
+describe('CommandHandler', () => {
+  let commandHandler: CommandHandler;
+  let mockClient: MockHomeAssistantClient;
+  let cache: Cache;
+
+  beforeEach(() => {
+    mockClient = new MockHomeAssistantClient();
+    cache = new Cache();
+    commandHandler = new CommandHandler(mockClient, cache);
+  });
+
+  afterEach(() => {
+    cache.destroy();
+  });
+
+  describe('callService', () => {
+    test('should pass service data, target and return_response to the client', async () => {
+      const result = await commandHandler.executeCommand('homeassistant.callService', [
+        'calendar.get_events',
+        { duration: { hours: 24 } },
+        { entity_id: 'calendar.family' },
+        true,
+      ]);
+
+      expect(mockClient.calls).toEqual([
+        {
+          domain: 'calendar',
+          service: 'get_events',
+          serviceData: { duration: { hours: 24 } },
+          target: { entity_id: 'calendar.family' },
+          returnResponse: true,
+        },
+      ]);
+      expect(result).toEqual({
+        success: true,
+        data: {
+          service: 'calendar.get_events',
+          context: { id: 'ctx-1', parent_id: null, user_id: null },
+          response: { events: [] },
+        },
+      });
+    });
+
+    test('should leave out missing data and target', async () => {
+      const result = await commandHandler.executeCommand('homeassistant.callService', [
+        'homeassistant.restart',
+        null,
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(mockClient.calls).toEqual([
+        {
+          domain: 'homeassistant',
+          service: 'restart',
+          serviceData: undefined,
+          target: undefined,
+          returnResponse: false,
+        },
+      ]);
+    });
+
+    test('should reject invalid arguments without calling the client', async () => {
+      const invalid = await Promise.all([
+        commandHandler.executeCommand('homeassistant.callService', []),
+        commandHandler.executeCommand('homeassistant.callService', ['light']),
+        commandHandler.executeCommand('homeassistant.callService', ['light.turn_on', 'bright']),
+        commandHandler.executeCommand('homeassistant.callService', ['light.turn_on', {}, 'light']),
+        commandHandler.executeCommand('homeassistant.callService', ['light.turn_on', []]),
+        commandHandler.executeCommand('homeassistant.callService', ['light.turn_on', {}, []]),
+      ]);
+
+      expect(invalid.map((result) => result.error)).toEqual([
+        'Missing service parameter (format: domain.service)',
+        'Invalid service format (expected: domain.service)',
+        'Invalid service data: must be an object',
+        'Invalid target: must be an object',
+        'Invalid service data: must be an object',
+        'Invalid target: must be an object',
+      ]);
+      expect(mockClient.calls).toEqual([]);
+    });
+
+    test('should report errors from Home Assistant', async () => {
+      mockClient.serviceError = new Error('Service light.blink not found');
+
+      const result = await commandHandler.executeCommand('homeassistant.callService', [
+        'light.blink',
+      ]);
+
+      expect(result).toEqual({ success: false, error: 'Service light.blink not found' });
+    });
+  });
+
+  describe('callEntityService', () => {
+    test('should target the entity with the command service', async () => {
+      await commandHandler.executeCommand('homeassistant.triggerAutomation', [
+        'automation.porch_lights',
+      ]);
+      await commandHandler.executeCommand('homeassistant.toggleAutomation', [
+        'automation.porch_lights',
+      ]);
+      const result = await commandHandler.executeCommand('homeassistant.runScript', [
+        'script.porch_off',
+      ]);
+
+      expect(mockClient.calls.map((call) => [call.domain, call.service, call.target])).toEqual([
+        ['automation', 'trigger', { entity_id: 'automation.porch_lights' }],
+        ['automation', 'toggle', { entity_id: 'automation.porch_lights' }],
+        ['script', 'turn_on', { entity_id: 'script.porch_off' }],
+      ]);
+      expect(mockClient.calls.every((call) => call.serviceData === undefined)).toBe(true);
+      expect(result.data).toEqual({
+        service: 'script.turn_on',
+        entityId: 'script.porch_off',
+        context: { id: 'ctx-1', parent_id: null, user_id: null },
+      });
+    });
+
+    test('should reject entities of another domain', async () => {
+      const result = await commandHandler.executeCommand('homeassistant.runScript', [
+        'automation.porch_lights',
+      ]);
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Invalid entity ID (expected: script.object_id)',
+      });
+      expect(mockClient.calls).toEqual([]);
+    });
+  });
+
+  describe('registry lists', () => {
+    test('should return the registry entries', async () => {
+      const areas = await commandHandler.executeCommand('homeassistant.listAreas');
+      const devices = await commandHandler.executeCommand('homeassistant.listDevices');
+      const floors = await commandHandler.executeCommand('homeassistant.listFloors');
+      const labels = await commandHandler.executeCommand('homeassistant.listLabels');
+
+      expect(areas).toEqual({ success: true, data: mockClient.mockAreas });
+      expect(devices).toEqual({ success: true, data: mockClient.mockDevices });
+      expect(floors).toEqual({ success: true, data: mockClient.mockFloors });
+      expect(labels).toEqual({ success: true, data: mockClient.mockLabels });
+    });
+
+    test('should filter devices by area and search term', async () => {
+      const inKitchen = await commandHandler.executeCommand('homeassistant.listDevices', [
+        { area_id: 'kitchen' },
+      ]);
+      const aqara = await commandHandler.executeCommand('homeassistant.listDevices', [
+        { search: 'aqara' },
+      ]);
+      const byUserName = await commandHandler.executeCommand('homeassistant.listDevices', [
+        { search: 'ceiling', area_id: 'hallway' },
+      ]);
+
+      expect(inKitchen.data.map((d: DeviceRegistryEntry) => d.id)).toEqual(['a1b2c3']);
+      expect(aqara.data.map((d: DeviceRegistryEntry) => d.id)).toEqual(['d4e5f6']);
+      expect(byUserName.data).toEqual([]);
+    });
+
+    test('should fetch each registry once and reuse the cache', async () => {
+      for (let i = 0; i < 2; i++) {
+        await commandHandler.executeCommand('homeassistant.listAreas');
+        await commandHandler.executeCommand('homeassistant.listDevices', [{ area_id: 'kitchen' }]);
+        await commandHandler.executeCommand('homeassistant.listFloors');
+        await commandHandler.executeCommand('homeassistant.listLabels');
+      }
+
+      expect(mockClient.fetches).toEqual(['areas', 'devices', 'floors', 'labels']);
+
+      // Reloading the cache fetches the registries again
+      await commandHandler.executeCommand('homeassistant.reloadCache');
+      await commandHandler.executeCommand('homeassistant.listAreas');
+      expect(mockClient.fetches).toEqual(['areas', 'devices', 'floors', 'labels', 'areas']);
+    });
+
+    test('should report registry errors', async () => {
+      mockClient.getFloorRegistry = async () => {
+        throw new Error('Unknown command.');
+      };
+
+      const result = await commandHandler.executeCommand('homeassistant.listFloors');
+
+      expect(result).toEqual({ success: false, error: 'Unknown command.' });
+    });
+  });
+
+  test('should not call Home Assistant while disconnected', async () => {
+    mockClient.connected = false;
+
+    const results = [
+      await commandHandler.executeCommand('homeassistant.callService', ['light.turn_on']),
+      await commandHandler.executeCommand('homeassistant.runScript', ['script.porch_off']),
+      await commandHandler.executeCommand('homeassistant.listAreas'),
+      await commandHandler.executeCommand('homeassistant.listLabels'),
+    ];
+
+    for (const result of results) {
+      expect(result).toEqual({ success: false, error: 'Not connected to Home Assistant' });
+    }
+    expect(mockClient.calls).toEqual([]);
+    expect(mockClient.fetches).toEqual([]);
+  });
+});
@@ -6,23 +6,37 @@
 import { CompletionProvider } from '../../src/providers/completion';
 import { HomeAssistantClient } from '../../src/ha-client';
 import { Cache } from '../../src/cache';
-import { Entity } from '../../src/types/homeassistant';
+import { Entity, EntityRegistryEntry, Services } from '../../src/types/homeassistant';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 
 // Mock Home Assistant Client
 class MockHomeAssistantClient extends HomeAssistantClient {
   private mockEntities: Entity[] = [];
+  private mockServices: Services = {};
+  private mockRegistry: EntityRegistryEntry[] = [];
 
   setMockEntities(entities: Entity[]) {
     this.mockEntities = entities;
   }
 
+  setMockRegistry(registry: EntityRegistryEntry[]) {
+    this.mockRegistry = registry;
+  }
+
+  setMockServices(services: Services) {
+    this.mockServices = services;
+  }
+
   async getStates(): Promise<Entity[]> {
     return this.mockEntities;
   }
 
   async getServices(): Promise<any> {
-    return {};
+    return this.mockServices;
+  }
+
+  async getEntityRegistry(): Promise<EntityRegistryEntry[]> {
+    return this.mockRegistry;
   }
 
   async connect(_host: string, _token: string): Promise<void> {
@@ -402,4 +416,275 @@ describe('CompletionProvider', () => {
       expect(completions[0].label).toBe('light.bedroom');
     });
   });
+
+  describe('Service Data Completion', () => {
+    const createEntity = (entityId: string): Entity => ({
+      entity_id: entityId,
+      state: 'off',
+      attributes: {},
+      last_changed: '',
+      last_updated: '',
+      context: { id: '', parent_id: null, user_id: null },
+    });
+
+    const complete = async (lines: string[]) => {
+      const text = lines.join('\n');
+      const document = TextDocument.create('test://scripts.yaml', 'yaml', 1, text);
+      const lastLine = lines.length - 1;
+      return completionProvider.provideCompletionItems(document, {
+        textDocument: { uri: 'test://scripts.yaml' },
+        position: { line: lastLine, character: lines[lastLine].length },
+      });
+    };
+
+    beforeEach(() => {
+      mockClient.setMockEntities([
+        createEntity('light.kitchen'),
+        createEntity('light.porch'),
+        createEntity('switch.porch'),
+      ]);
+      mockClient.setMockServices({
+        light: {
+          turn_on: {
+            domain: 'light',
+            service: 'turn_on',
+            target: { entity: [{ domain: ['light'] }] },
+            fields: {
+              brightness: {
+                name: 'Brightness value',
+                default: 255,
+                selector: { number: { min: 0, max: 255 } },
+              },
+              transition: { example: 60, selector: { number: { min: 0, max: 300 } } },
+              advanced_fields: {
+                collapsed: true,
+                fields: {
+                  flash: { selector: { select: { options: ['short', 'long'] } } },
+                },
+              },
+            },
+          },
+        },
+        hue: {
+          activate_scene: {
+            domain: 'hue',
+            service: 'activate_scene',
+            fields: {
+              entity_id: { selector: { entity: { integration: 'hue', domain: 'scene' } } },
+            },
+          },
+        },
+        notify: {
+          send_message: {
+            domain: 'notify',
+            service: 'send_message',
+            fields: {
+              message: { required: true, selector: { text: {} } },
+              title: { selector: { text: {} } },
+            },
+          },
+        },
+      });
+    });
+
+    test('should complete field names under data:', async () => {
+      const completions = await complete([
+        '- action: light.turn_on',
+        '  data:',
+        '    brightness: 100',
+        '    ',
+      ]);
+
+      const labels = completions.map((c) => c.label);
+      expect(labels).toContain('transition');
+      expect(labels).toContain('flash');
+      expect(labels).toContain('entity_id');
+      // Already present keys are not offered again
+      expect(labels).not.toContain('brightness');
+    });
+
+    test('should insert defaults and examples as snippets', async () => {
+      const completions = await complete([
+        '- action: light.turn_on',
+        '  data:',
+        '    tra',
+      ]);
+
+      expect(completions).toHaveLength(1);
+      expect(completions[0].insertText).toBe('transition: ${1:60}');
+    });
+
+    test('should sort required fields first', async () => {
+      const completions = await complete([
+        '- action: notify.send_message',
+        '  data:',
+        '    ',
+      ]);
+
+      const sorted = [...completions].sort((a, b) =>
+        (a.sortText || '').localeCompare(b.sortText || '')
+      );
+      expect(sorted[0].label).toBe('message');
+    });
+
+    test('should complete select options', async () => {
+      const completions = await complete([
+        '- action: light.turn_on',
+        '  data:',
+        '    flash: ',
+      ]);
+
+      expect(completions.map((c) => c.label)).toEqual(['short', 'long']);
+    });
+
+    test('should complete number ranges', async () => {
+      const completions = await complete([
+        '- action: light.turn_on',
+        '  data:',
+        '    brightness: ',
+      ]);
+
+      expect(completions.map((c) => c.label)).toEqual(['255', '0']);
+    });
+
+    test('should complete target entities filtered by domain', async () => {
+      const completions = await complete([
+        '- action: light.turn_on',
+        '  target:',
+        '    entity_id: ',
+      ]);
+
+      expect(completions.map((c) => c.label).sort()).toEqual([
+        'light.kitchen',
+        'light.porch',
+      ]);
+    });
+
+    test('should complete target entities in list items', async () => {
+      const completions = await complete([
+        '- action: light.turn_on',
+        '  target:',
+        '    entity_id:',
+        '      - light.p',
+      ]);
+
+      expect(completions.map((c) => c.label)).toEqual(['light.porch']);
+    });
+
+    test('should filter entity selectors by integration', async () => {
+      mockClient.setMockEntities([
+        createEntity('scene.hue_relax'),
+        createEntity('scene.movie_night'),
+        createEntity('light.porch'),
+      ]);
+      const registryEntry = (entityId: string, platform: string): EntityRegistryEntry => ({
+        entity_id: entityId,
+        platform,
+        device_id: null,
+        area_id: null,
+        name: null,
+      });
+      mockClient.setMockRegistry([
+        registryEntry('scene.hue_relax', 'hue'),
+        registryEntry('scene.movie_night', 'homeassistant'),
+        registryEntry('light.porch', 'hue'),
+      ]);
+
+      const completions = await complete([
+        '- action: hue.activate_scene',
+        '  data:',
+        '    entity_id: ',
+      ]);
+
+      expect(completions.map((c) => c.label)).toEqual(['scene.hue_relax']);
+    });
+  });
+
+  describe('Template Completion', () => {
+    const createEntity = (entityId: string): Entity => ({
+      entity_id: entityId,
+      state: 'on',
+      attributes: {},
+      last_changed: '',
+      last_updated: '',
+      context: { id: '', parent_id: null, user_id: null },
+    });
+
+    const complete = async (lines: string[]) => {
+      const text = lines.join('\n');
+      const document = TextDocument.create('test://automations.yaml', 'yaml', 1, text);
+      const lastLine = lines.length - 1;
+      return completionProvider.provideCompletionItems(document, {
+        textDocument: { uri: 'test://automations.yaml' },
+        position: { line: lastLine, character: lines[lastLine].length },
+      });
+    };
+
+    beforeEach(() => {
+      mockClient.setMockEntities([
+        createEntity('sensor.kitchen_temp'),
+        createEntity('sensor.outdoor_temp'),
+        createEntity('light.kitchen'),
+      ]);
+    });
+
+    test('should complete template functions', async () => {
+      const completions = await complete(['value_template: "{{ is_st']);
+
+      const labels = completions.map((c) => c.label);
+      expect(labels).toEqual(['is_state', 'is_state_attr']);
+      expect(completions[0].insertText).toBe("is_state('${1:entity_id}', ${2:state})");
+    });
+
+    test('should complete filters after a pipe', async () => {
+      const completions = await complete(["value_template: \"{{ states('sensor.x') | floa"]);
+
+      expect(completions.map((c) => c.label)).toEqual(['float']);
+      expect(completions[0].insertText).toBe('float');
+    });
+
+    test('should complete entity IDs inside function arguments', async () => {
+      const completions = await complete([
+        'condition:',
+        '  - condition: template',
+        '    value_template: >',
+        "      {% if is_state('light.kitchen', 'on') and states('sensor.",
+      ]);
+
+      expect(completions.map((c) => c.label)).toEqual([
+        'sensor.kitchen_temp',
+        'sensor.outdoor_temp',
+      ]);
+    });
+
+    test('should complete areas inside an unclosed string argument', async () => {
+      jest.spyOn(mockClient, 'getAreaRegistry').mockResolvedValue([
+        { area_id: 'kitchen', name: 'Kitchen' } as any,
+        { area_id: 'living_room', name: 'Living Room' } as any,
+      ]);
+
+      const completions = await complete(["{{ area_entities('kit"]);
+
+      expect(completions.map((c) => c.label)).toEqual(['kitchen']);
+    });
+
+    test('should not complete entity IDs for non-entity arguments', async () => {
+      const completions = await complete(["{{ is_state('light.kitchen', 'o"]);
+
+      expect(completions).toEqual([]);
+    });
+
+    test('should complete object IDs on the states object', async () => {
+      const completions = await complete(['{{ states.sensor.out']);
+
+      expect(completions.map((c) => c.label)).toEqual(['sensor.outdoor_temp']);
+      expect(completions[0].insertText).toBe('outdoor_temp');
+    });
+
+    test('should treat text after a closed template as YAML', async () => {
+      const completions = await complete(["message: \"{{ states('light.kitchen') }}\"", 'entity_id: sensor.k']);
+
+      expect(completions.map((c) => c.label)).toEqual(['sensor.kitchen_temp']);
+    });
+  });
 });
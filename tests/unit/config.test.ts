@@ -0,0 +1,303 @@
+/**
+ * Configuration Manager Tests
+ * Tests defaults, environment overrides and validation
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager, normalizeHost } from '../../src/utils/config';
+
+describe('ConfigManager', () => {
+  const originalEnv = process.env;
+  let configManager: ConfigManager;
+
+  const homeassistant = { host: 'ws://ha.local:8123/api/websocket', token: 'secret' };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.HA_HOST;
+    delete process.env.HA_TOKEN;
+    delete process.env.HA_TOKEN_FILE;
+    delete process.env.HA_TOKEN_COMMAND;
+    delete process.env.SUPERVISOR_TOKEN;
+    delete process.env.HA_TIMEOUT;
+    delete process.env.LOG_LEVEL;
+    configManager = new ConfigManager();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  test('should merge settings into the defaults of each section', async () => {
+    await configManager.load({ homeassistant, cache: { ttl: 60 }, completion: { maxResults: 20 } });
+
+    expect(configManager.getCacheConfig()).toEqual({ enabled: true, ttl: 60, snapshot: true });
+    expect(configManager.getCompletionConfig()).toEqual({ minChars: 3, maxResults: 20 });
+    expect(configManager.getDiagnosticsConfig().debounce).toBe(500);
+  });
+
+  test('should let environment variables override client settings', async () => {
+    process.env.HA_TOKEN = 'from-env';
+    process.env.LOG_LEVEL = 'debug';
+
+    await configManager.load({ homeassistant });
+
+    expect(configManager.getHomeAssistantConfig().token).toBe('from-env');
+    expect(configManager.getLoggingConfig().level).toBe('debug');
+  });
+
+  test('should load from the environment without initialization options', async () => {
+    process.env.HA_HOST = homeassistant.host;
+    process.env.HA_TOKEN = homeassistant.token;
+
+    await configManager.load(undefined);
+
+    expect(configManager.getHomeAssistantConfig()).toEqual(homeassistant);
+  });
+
+  test('should keep the previous configuration when validation fails', async () => {
+    await expect(
+      configManager.load({ homeassistant: { host: 'ws://ha.local' } })
+    ).rejects.toThrow('homeassistant.token');
+    expect(configManager.isLoaded()).toBe(false);
+
+    await configManager.load({ homeassistant });
+    await expect(
+      configManager.update({ cache: { enabled: true, ttl: -1 } })
+    ).rejects.toThrow('cache.ttl');
+    expect(configManager.getCacheConfig().ttl).toBe(300);
+  });
+
+  test('should update single settings of a section', async () => {
+    await configManager.load({ homeassistant, logging: { level: 'info' } });
+
+    await configManager.update({ logging: { level: 'warn' } });
+    await configManager.update({ completion: { minChars: 1 } });
+
+    expect(configManager.getLoggingConfig().level).toBe('warn');
+    expect(configManager.getCompletionConfig()).toEqual({ minChars: 1, maxResults: 50 });
+    expect(configManager.getHomeAssistantConfig().host).toBe(homeassistant.host);
+  });
+
+  test('should list named instances after the default instance', async () => {
+    await configManager.load({
+      homeassistant,
+      instances: [
+        {
+          name: 'staging',
+          host: 'ws://staging:8123/api/websocket',
+          token: 't',
+          folders: ['staging'],
+        },
+      ],
+    });
+
+    expect(configManager.getInstanceConfigs().map((i) => i.name)).toEqual(['default', 'staging']);
+  });
+
+  test('should accept instances without a homeassistant section', async () => {
+    await configManager.load({
+      instances: [{ name: 'prod', host: 'ws://prod:8123/api/websocket', token: 't' }],
+    });
+
+    expect(configManager.getInstanceConfigs()).toHaveLength(1);
+    await expect(
+      configManager.update({
+        instances: [
+          { name: 'prod', host: 'ws://prod:8123/api/websocket', token: 't' },
+          { name: 'prod', host: 'ws://other:8123/api/websocket', token: 't' },
+        ],
+      })
+    ).rejects.toThrow('Duplicate instance name: prod');
+    await expect(
+      configManager.update({ instances: [{ name: 'prod', host: 'prod.local', token: 't' }] })
+    ).rejects.toThrow('instances[0].host must be a WebSocket URL');
+  });
+
+  describe('host URLs', () => {
+    test('should turn http(s) URLs into WebSocket API URLs', async () => {
+      await configManager.load({
+        homeassistant: { host: 'http://homeassistant.local:8123/', token: 't' },
+      });
+      expect(configManager.getHomeAssistantConfig().host).toBe(
+        'ws://homeassistant.local:8123/api/websocket'
+      );
+
+      await configManager.load({
+        instances: [{ name: 'prod', host: 'https://ha.example.com/lovelace/0', token: 't' }],
+      });
+      expect(configManager.getInstanceConfigs()[0].host).toBe(
+        'wss://ha.example.com/api/websocket'
+      );
+    });
+
+    test('should keep WebSocket paths and complete bare WebSocket hosts', async () => {
+      expect(normalizeHost('ws://ha.local:8123/api/websocket')).toBe(
+        'ws://ha.local:8123/api/websocket'
+      );
+      expect(normalizeHost('ws://supervisor/core/websocket')).toBe(
+        'ws://supervisor/core/websocket'
+      );
+      expect(normalizeHost('WSS://ha.local')).toBe('wss://ha.local/api/websocket');
+      await expect(
+        configManager.load({ homeassistant: { host: 'homeassistant.local', token: 't' } })
+      ).rejects.toThrow('homeassistant.host must be a WebSocket URL');
+    });
+
+    test('should connect through the Supervisor inside an add-on', async () => {
+      process.env.SUPERVISOR_TOKEN = 'supervisor-token';
+
+      await configManager.load(undefined);
+
+      expect(configManager.getHomeAssistantConfig()).toEqual({
+        host: 'ws://supervisor/core/websocket',
+        token: 'supervisor-token',
+      });
+    });
+
+    test('should prefer configured instances over the Supervisor', async () => {
+      process.env.SUPERVISOR_TOKEN = 'supervisor-token';
+
+      await configManager.load({ homeassistant });
+
+      expect(configManager.getHomeAssistantConfig()).toEqual(homeassistant);
+    });
+  });
+
+  describe('token sources', () => {
+    let dir: string;
+    let tokenFile: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ha-lsp-config-'));
+      tokenFile = path.join(dir, 'token');
+      fs.writeFileSync(tokenFile, 'file-token\n');
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should read the token from a file and re-read it on request', async () => {
+      await configManager.load({ homeassistant: { host: homeassistant.host, tokenFile } });
+
+      expect(configManager.getHomeAssistantConfig().token).toBe('file-token');
+      expect(configManager.getTokenFiles()).toEqual([tokenFile]);
+      expect(await configManager.refreshTokens()).toBe(false);
+
+      fs.writeFileSync(tokenFile, 'rotated-token');
+      expect(await configManager.refreshTokens()).toBe(true);
+      expect(configManager.getInstanceConfigs()[0].token).toBe('rotated-token');
+    });
+
+    test('should use the first line printed by a token command', async () => {
+      await configManager.load({
+        homeassistant: {
+          host: homeassistant.host,
+          tokenCommand: 'printf "cmd-token\\nuser: me\\n"',
+        },
+      });
+
+      expect(configManager.getHomeAssistantConfig().token).toBe('cmd-token');
+    });
+
+    test('should only run a token command again when it changes', async () => {
+      const runs = path.join(dir, 'runs');
+      const script = path.join(dir, 'token.sh');
+      fs.writeFileSync(script, 'echo run >> "$1"\necho "$2"\n');
+      const tokenCommand = (token: string) => `sh '${script}' '${runs}' ${token}`;
+      const countRuns = () => fs.readFileSync(runs, 'utf8').trim().split('\n').length;
+
+      await configManager.load({
+        homeassistant: { host: homeassistant.host, tokenCommand: tokenCommand('first') },
+      });
+      await configManager.update({ logging: { level: 'warn' } });
+      expect(await configManager.refreshTokens()).toBe(false);
+      expect(countRuns()).toBe(1);
+
+      await configManager.load({
+        homeassistant: { host: homeassistant.host, tokenCommand: tokenCommand('second') },
+      });
+      expect(countRuns()).toBe(2);
+      expect(configManager.getHomeAssistantConfig().token).toBe('second');
+    });
+
+    test('should run token commands without a shell', async () => {
+      const marker = path.join(dir, 'marker');
+
+      await configManager.load({
+        homeassistant: { host: homeassistant.host, tokenCommand: `echo token; touch ${marker}` },
+      });
+
+      expect(configManager.getHomeAssistantConfig().token).toBe(`token; touch ${marker}`);
+      expect(fs.existsSync(marker)).toBe(false);
+    });
+
+    test('should ignore token commands from workspace settings', async () => {
+      const marker = path.join(dir, 'marker');
+      const tokenCommand = `touch ${marker}`;
+
+      await expect(
+        configManager.load(
+          { homeassistant: { host: homeassistant.host, tokenCommand } },
+          'workspace'
+        )
+      ).rejects.toThrow('Missing required configuration: homeassistant.token');
+
+      await configManager.load({
+        homeassistant,
+        instances: [{ name: 'lab', host: 'ws://lab:8123', tokenCommand: 'echo lab-token' }],
+      });
+      await configManager.update({
+        homeassistant: { tokenCommand },
+        instances: [{ name: 'lab', host: 'ws://lab.local:8123', token: '', tokenCommand }],
+      });
+
+      expect(fs.existsSync(marker)).toBe(false);
+      expect(configManager.getInstanceConfigs().map((instance) => instance.token)).toEqual([
+        'secret',
+        'lab-token',
+      ]);
+    });
+
+    test('should read HA_TOKEN_COMMAND from the environment', async () => {
+      process.env.HA_TOKEN_COMMAND = 'echo env-token';
+
+      await configManager.load({ homeassistant: { host: homeassistant.host } });
+
+      expect(configManager.getHomeAssistantConfig().token).toBe('env-token');
+    });
+
+    test('should read HA_TOKEN_FILE from the environment', async () => {
+      process.env.HA_TOKEN_FILE = tokenFile;
+
+      await configManager.load({ homeassistant });
+
+      expect(configManager.getHomeAssistantConfig().token).toBe('file-token');
+    });
+
+    test('should reject missing, empty or conflicting token sources', async () => {
+      await expect(
+        configManager.load({ homeassistant: { ...homeassistant, tokenFile } })
+      ).rejects.toThrow('set only one of token, tokenFile and tokenCommand');
+      await expect(
+        configManager.load({
+          homeassistant: { host: homeassistant.host, tokenFile: path.join(dir, 'missing') },
+        })
+      ).rejects.toThrow('Cannot read homeassistant.tokenFile');
+      await expect(
+        configManager.load({ homeassistant: { host: homeassistant.host, tokenCommand: 'true' } })
+      ).rejects.toThrow('homeassistant.tokenCommand printed no token');
+    });
+
+    test('should switch token sources on update', async () => {
+      await configManager.load({ homeassistant });
+
+      await configManager.update({ homeassistant: { tokenFile } });
+
+      expect(configManager.getHomeAssistantConfig().token).toBe('file-token');
+    });
+  });
+});
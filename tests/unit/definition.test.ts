@@ -0,0 +1,87 @@
+/**
+ * Definition Provider Tests
+ * Tests resolving !include, !include_dir_* and !secret tags
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DefinitionProvider } from '../../src/providers/definition';
+import { pathToUri } from '../../src/utils/uri';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+describe('DefinitionProvider', () => {
+  let workspace: string;
+  let definitionProvider: DefinitionProvider;
+
+  const define = (filePath: string, text: string, character: number) => {
+    const uri = pathToUri(filePath);
+    const document = TextDocument.create(uri, 'yaml', 1, text);
+    return definitionProvider.provideDefinition(document, {
+      textDocument: { uri },
+      position: { line: 0, character },
+    });
+  };
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'ha-lsp-definition-'));
+    fs.writeFileSync(path.join(workspace, 'automations.yaml'), '[]\n');
+    fs.writeFileSync(path.join(workspace, 'secrets.yaml'), 'api_key: abc\nwifi_password: secret\n');
+    fs.mkdirSync(path.join(workspace, 'packages', 'lights'), { recursive: true });
+    fs.writeFileSync(path.join(workspace, 'packages', 'climate.yaml'), '');
+    fs.writeFileSync(path.join(workspace, 'packages', 'lights', 'porch.yaml'), '');
+    fs.writeFileSync(path.join(workspace, 'packages', '.hidden.yaml'), '');
+    fs.mkdirSync(path.join(workspace, 'config'));
+
+    definitionProvider = new DefinitionProvider(() => [workspace]);
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  test('should resolve !include to the included file', () => {
+    const locations = define(
+      path.join(workspace, 'configuration.yaml'),
+      'automation: !include automations.yaml',
+      25
+    );
+
+    expect(locations).toHaveLength(1);
+    expect(locations![0].uri).toBe(pathToUri(path.join(workspace, 'automations.yaml')));
+  });
+
+  test('should resolve !include_dir_* to every YAML file in the directory', () => {
+    const locations = define(
+      path.join(workspace, 'configuration.yaml'),
+      'packages: !include_dir_merge_named packages',
+      40
+    );
+
+    expect(locations!.map((l) => l.uri)).toEqual([
+      pathToUri(path.join(workspace, 'packages', 'climate.yaml')),
+      pathToUri(path.join(workspace, 'packages', 'lights', 'porch.yaml')),
+    ]);
+  });
+
+  test('should resolve !secret to the key in the nearest secrets.yaml', () => {
+    const locations = define(
+      path.join(workspace, 'config', 'wifi.yaml'),
+      'password: !secret wifi_password',
+      20
+    );
+
+    expect(locations).toHaveLength(1);
+    expect(locations![0].uri).toBe(pathToUri(path.join(workspace, 'secrets.yaml')));
+    expect(locations![0].range.start).toEqual({ line: 1, character: 0 });
+  });
+
+  test('should return null for missing files and secrets', () => {
+    expect(
+      define(path.join(workspace, 'configuration.yaml'), 'script: !include scripts.yaml', 20)
+    ).toBeNull();
+    expect(
+      define(path.join(workspace, 'configuration.yaml'), 'token: !secret missing', 16)
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Diagnostics Provider Tests
+ * Tests detection of unknown entity IDs and invalid service calls
+ */
+
+import { DiagnosticsProvider, DiagnosticCode } from '../../src/providers/diagnostics';
+import { HomeAssistantClient } from '../../src/ha-client';
+import { Cache } from '../../src/cache';
+import { Entity, Services } from '../../src/types/homeassistant';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+// Mock Home Assistant Client
+class MockHomeAssistantClient extends HomeAssistantClient {
+  private mockEntities: Entity[] = [];
+  private mockServices: Services = {};
+
+  setMockEntities(entities: Entity[]) {
+    this.mockEntities = entities;
+  }
+
+  setMockServices(services: Services) {
+    this.mockServices = services;
+  }
+
+  async getStates(): Promise<Entity[]> {
+    return this.mockEntities;
+  }
+
+  async getServices(): Promise<Services> {
+    return this.mockServices;
+  }
+}
+
+// Mock Cache
+class MockCache extends Cache {
+  async getOrFetch<T>(
+    _key: string,
+    fetchFn: () => Promise<T>,
+    _ttl?: number
+  ): Promise<T> {
+    return fetchFn();
+  }
+}
+
+function createEntity(entityId: string): Entity {
+  return {
+    entity_id: entityId,
+    state: 'on',
+    attributes: {},
+    last_changed: '',
+    last_updated: '',
+    context: { id: '', parent_id: null, user_id: null },
+  };
+}
+
+describe('DiagnosticsProvider', () => {
+  let diagnosticsProvider: DiagnosticsProvider;
+  let mockClient: MockHomeAssistantClient;
+  let mockCache: MockCache;
+
+  beforeEach(() => {
+    mockClient = new MockHomeAssistantClient();
+    mockCache = new MockCache();
+    diagnosticsProvider = new DiagnosticsProvider(mockClient, mockCache);
+
+    mockClient.setMockEntities([
+      createEntity('light.kitchen'),
+      createEntity('sensor.outdoor_temp'),
+    ]);
+    mockClient.setMockServices({
+      light: {
+        turn_on: {
+          domain: 'light',
+          service: 'turn_on',
+          target: { entity: [{ domain: ['light'] }] },
+          fields: {
+            brightness: { selector: { number: { min: 0, max: 255 } } },
+            advanced_fields: {
+              collapsed: true,
+              fields: {
+                flash: { selector: { select: { options: ['short', 'long'] } } },
+              },
+            },
+          },
+        },
+      },
+      notify: {
+        send_message: {
+          domain: 'notify',
+          service: 'send_message',
+          fields: {
+            message: { required: true, selector: { text: {} } },
+            title: { selector: { text: {} } },
+          },
+        },
+      },
+    });
+  });
+
+  afterEach(() => {
+    mockCache.destroy();
+  });
+
+  describe('Unknown Entity IDs', () => {
+    test('should report entity IDs that do not exist', async () => {
+      const document = TextDocument.create(
+        'test://automations.yaml',
+        'yaml',
+        1,
+        'trigger:\n  entity_id: sensor.outdoor_tmp\n'
+      );
+
+      const diagnostics = await diagnosticsProvider.provideDiagnostics(document);
+
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].code).toBe(DiagnosticCode.UNKNOWN_ENTITY);
+      expect(diagnostics[0].message).toContain('sensor.outdoor_tmp');
+      expect(diagnostics[0].range).toEqual({
+        start: { line: 1, character: 13 },
+        end: { line: 1, character: 31 },
+      });
+    });
+
+    test('should NOT report existing entities', async () => {
+      const document = TextDocument.create(
+        'test://automations.yaml',
+        'yaml',
+        1,
+        'entity_id:\n  - light.kitchen\n  - sensor.outdoor_temp\n'
+      );
+
+      const diagnostics = await diagnosticsProvider.provideDiagnostics(document);
+
+      expect(diagnostics).toHaveLength(0);
+    });
+
+    test('should NOT report service names', async () => {
+      const document = TextDocument.create(
+        'test://scripts.yaml',
+        'yaml',
+        1,
+        'service: light.turn_on\n'
+      );
+
+      const diagnostics = await diagnosticsProvider.provideDiagnostics(document);
+
+      expect(diagnostics).toHaveLength(0);
+    });
+
+    test('should NOT report tokens of unknown domains', async () => {
+      const document = TextDocument.create(
+        'test://configuration.yaml',
+        'yaml',
+        1,
+        'automation: !include automations.yaml\n'
+      );
+
+      const diagnostics = await diagnosticsProvider.provideDiagnostics(document);
+
+      expect(diagnostics).toHaveLength(0);
+    });
+
+    test('should NOT report included files and tag values', async () => {
+      const document = TextDocument.create(
+        'test://configuration.yaml',
+        'yaml',
+        1,
+        [
+          'sensor: !include sensor.yaml',
+          'light: !include light.yml',
+          'template: !include ../shared/sensor.yaml',
+          'api_key: !secret light.kitchen_key',
+          'homeassistant:',
+          '  packages: !include_dir_named packages',
+        ].join('\n')
+      );
+
+      const diagnostics = await diagnosticsProvider.provideDiagnostics(document);
+
+      expect(diagnostics).toHaveLength(0);
+    });
+
+    test('should ignore entity IDs in comments', async () => {
+      const document = TextDocument.create(
+        'test://automations.yaml',
+        'yaml',
+        1,
+        'entity_id: light.kitchen # was light.kitchen_old\n'
+      );
+
+      const diagnostics = await diagnosticsProvider.provideDiagnostics(document);
+
+      expect(diagnostics).toHaveLength(0);
+    });
+
+    test('should check entity IDs in Python files', async () => {
+      const document = TextDocument.create(
+        'test://apps/lights.py',
+        'python',
+        1,
+        'self.turn_on("light.kitchn")\n'
+      );
+
+      const diagnostics = await diagnosticsProvider.provideDiagnostics(document);
+
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].message).toContain('light.kitchn');
+    });
+
+    test('should skip unsupported documents', async () => {
+      const document = TextDocument.create(
+        'test://notes.md',
+        'markdown',
+        1,
+        'light.missing'
+      );
+
+      const diagnostics = await diagnosticsProvider.provideDiagnostics(document);
+
+      expect(diagnostics).toHaveLength(0);
+    });
+
+    test('should return no diagnostics when entities cannot be fetched', async () => {
+      mockClient.getStates = async () => {
+        throw new Error('WebSocket is not connected');
+      };
+      const document = TextDocument.create(
+        'test://automations.yaml',
+        'yaml',
+        1,
+        'entity_id: light.missing\n'
+      );
+
+      const diagnostics = await diagnosticsProvider.provideDiagnostics(document);
+
+      expect(diagnostics).toHaveLength(0);
+    });
+  });
+
+  describe('Service Calls', () => {
+    test('should report unknown services', async () => {
+      const document = TextDocument.create(
+        'test://scripts.yaml',
+        'yaml',
+        1,
+        'sequence:\n  - action: light.turn_onn\n'
+      );
+
+      const diagnostics = await diagnosticsProvider.provideDiagnostics(document);
+
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].code).toBe(DiagnosticCode.UNKNOWN_SERVICE);
+      expect(diagnostics[0].range.start).toEqual({ line: 1, character: 12 });
+    });
+
+    test('should report missing required fields', async () => {
+      const document = TextDocument.create(
+        'test://scripts.yaml',
+        'yaml',
+        1,
+        'sequence:\n  - action: notify.send_message\n    data:\n      title: Hello\n'
+      );
+
+      const diagnostics = await diagnosticsProvider.provideDiagnostics(document);
+
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].code).toBe(DiagnosticCode.MISSING_REQUIRED_FIELD);
+      expect(diagnostics[0].message).toContain('message');
+    });
+
+    test('should report data keys the service does not accept', async () => {
+      const document = TextDocument.create(
+        'test://scripts.yaml',
+        'yaml',
+        1,
+        [
+          'sequence:',
+          '  - service: light.turn_on',
+          '    target:',
+          '      entity_id: light.kitchen',
+          '    data:',
+          '      brightness: 120',
+          '      flash: short',
+          '      brightnes: 10',
+          '  - delay: 5',
+        ].join('\n')
+      );
+
+      const diagnostics = await diagnosticsProvider.provideDiagnostics(document);
+
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].code).toBe(DiagnosticCode.UNKNOWN_SERVICE_FIELD);
+      expect(diagnostics[0].range).toEqual({
+        start: { line: 7, character: 6 },
+        end: { line: 7, character: 15 },
+      });
+    });
+
+    test('should skip templated service names and data', async () => {
+      const document = TextDocument.create(
+        'test://scripts.yaml',
+        'yaml',
+        1,
+        [
+          '- action: "{{ service_name }}"',
+          '- action: notify.send_message',
+          '  data: "{{ payload }}"',
+        ].join('\n')
+      );
+
+      const diagnostics = await diagnosticsProvider.provideDiagnostics(document);
+
+      expect(diagnostics).toHaveLength(0);
+    });
+  });
+});
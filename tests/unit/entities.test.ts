@@ -0,0 +1,31 @@
+/**
+ * Entity Utilities Tests
+ * Tests collecting entity IDs mentioned in document text
+ */
+
+import { extractEntityIds } from '../../src/utils/entities';
+
+describe('extractEntityIds', () => {
+  test('should collect entity IDs from YAML and templates', () => {
+    const entityIds = extractEntityIds(
+      [
+        'entity_id: light.porch',
+        'target:',
+        '  entity_id: [light.porch, switch.fan_2]',
+        "value_template: \"{{ states.sensor.outdoor_temp.state | float(0) }}\"",
+        "condition_template: \"{{ is_state('sun.sun', 'up') }}\"",
+      ].join('\n')
+    );
+
+    expect([...entityIds]).toEqual([
+      'light.porch',
+      'switch.fan_2',
+      'sensor.outdoor_temp',
+      'sun.sun',
+    ]);
+  });
+
+  test('should not start entity IDs inside longer dotted names', () => {
+    expect([...extractEntityIds('{{ trigger.to_state.state }}')]).toEqual(['trigger.to_state']);
+  });
+});
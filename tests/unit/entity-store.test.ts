@@ -0,0 +1,148 @@
+/**
+ * Entity Store Tests
+ * Tests applying subscribe_entities updates to the cached entity list
+ */
+
+import { EntityStore } from '../../src/entity-store';
+import { HomeAssistantClient, ConnectionState } from '../../src/ha-client';
+import { Cache, CacheKeys } from '../../src/cache';
+import { Entity, EntitiesEvent } from '../../src/types/homeassistant';
+
+// Mock Home Assistant Client
+class MockHomeAssistantClient extends HomeAssistantClient {
+  public callback: ((data: EntitiesEvent) => void) | null = null;
+  public subscribeCount = 0;
+  private connected = true;
+
+  setConnected(connected: boolean) {
+    this.connected = connected;
+    this.emit(
+      'state',
+      connected ? ConnectionState.CONNECTED : ConnectionState.DISCONNECTED
+    );
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  subscribeEntities(callback: (data: EntitiesEvent) => void): number {
+    this.callback = callback;
+    this.subscribeCount++;
+    return this.subscribeCount;
+  }
+
+  unsubscribeEvents(_subscriptionId: number): void {
+    this.callback = null;
+  }
+}
+
+describe('EntityStore', () => {
+  let store: EntityStore;
+  let mockClient: MockHomeAssistantClient;
+  let cache: Cache;
+
+  beforeEach(() => {
+    mockClient = new MockHomeAssistantClient();
+    cache = new Cache();
+    store = new EntityStore(mockClient, cache);
+    store.start();
+
+    mockClient.callback!({
+      a: {
+        'light.kitchen': {
+          s: 'off',
+          a: { friendly_name: 'Kitchen', brightness: null },
+          c: 'ctx1',
+          lc: 1700000000,
+        },
+        'sensor.outdoor_temp': {
+          s: '12.4',
+          a: { unit_of_measurement: '°C' },
+          c: 'ctx2',
+          lc: 1700000000,
+          lu: 1700000060,
+        },
+      },
+    });
+  });
+
+  afterEach(() => {
+    store.stop();
+    cache.destroy();
+  });
+
+  test('should populate the cache from the initial snapshot', () => {
+    const entities = cache.get<Entity[]>(CacheKeys.ENTITIES);
+
+    expect(store.isLive()).toBe(true);
+    expect(entities).toHaveLength(2);
+    expect(store.getEntity('sensor.outdoor_temp')).toMatchObject({
+      state: '12.4',
+      last_changed: new Date(1700000000 * 1000).toISOString(),
+      last_updated: new Date(1700000060 * 1000).toISOString(),
+      context: { id: 'ctx2', parent_id: null, user_id: null },
+    });
+  });
+
+  test('should apply state and attribute changes', () => {
+    const changed = jest.fn();
+    store.on('entities:changed', changed);
+
+    mockClient.callback!({
+      c: {
+        'light.kitchen': {
+          '+': { s: 'on', a: { brightness: 200 }, lc: 1700000100, c: 'ctx3' },
+          '-': { a: ['friendly_name'] },
+        },
+      },
+    });
+
+    const entity = store.getEntity('light.kitchen')!;
+    expect(entity.state).toBe('on');
+    expect(entity.attributes).toEqual({ brightness: 200 });
+    expect(entity.last_changed).toBe(new Date(1700000100 * 1000).toISOString());
+    expect(entity.last_updated).toBe(entity.last_changed);
+    expect(changed).toHaveBeenCalledWith(['light.kitchen']);
+    expect(cache.get<Entity[]>(CacheKeys.ENTITIES)).toContainEqual(entity);
+  });
+
+  test('should remove entities', () => {
+    mockClient.callback!({ r: ['light.kitchen'] });
+
+    expect(store.getEntity('light.kitchen')).toBeNull();
+    expect(cache.get<Entity[]>(CacheKeys.ENTITIES)).toHaveLength(1);
+  });
+
+  test('should only persist updates that add or remove entities', () => {
+    const set = jest.spyOn(cache, 'set');
+    const persisted = () => set.mock.calls.map((call) => call[3]);
+
+    mockClient.callback!({ c: { 'light.kitchen': { '+': { s: 'on' } } } });
+    mockClient.callback!({
+      a: { 'light.kitchen': { s: 'off', a: {}, c: 'ctx4', lc: 1700000200 } },
+    });
+    mockClient.callback!({ a: { 'light.porch': { s: 'on', a: {}, c: 'ctx5', lc: 1700000300 } } });
+    mockClient.callback!({ r: ['light.porch'] });
+
+    expect(persisted()).toEqual([false, false, true, true]);
+  });
+
+  test('should resubscribe after reconnecting', () => {
+    mockClient.setConnected(false);
+    expect(store.isLive()).toBe(false);
+
+    mockClient.setConnected(true);
+    expect(mockClient.subscribeCount).toBe(2);
+
+    // A fresh snapshot replaces entities that disappeared while offline
+    mockClient.callback!({
+      a: {
+        'light.kitchen': { s: 'on', a: {}, c: 'ctx4', lc: 1700000200 },
+      },
+    });
+
+    expect(store.isLive()).toBe(true);
+    expect(store.getEntities().map((e) => e.entity_id)).toEqual(['light.kitchen']);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Home Assistant Client Tests
+ * Tests keep-alive pings, resubscription and rejected tokens against a local
+ * WebSocket server
+ */
+
+import WebSocket from 'ws';
+import { AddressInfo } from 'net';
+import { HomeAssistantClient, ConnectionState } from '../../src/ha-client';
+
+/**
+ * Minimal Home Assistant WebSocket API: authentication, subscriptions and pings
+ */
+class FakeHomeAssistant {
+  server: WebSocket.Server;
+  received: any[] = [];
+  answerPings = true;
+  validToken: string | null = null; // any token is accepted when null
+
+  constructor() {
+    this.server = new WebSocket.Server({ port: 0 });
+    this.server.on('connection', (socket) => {
+      socket.send(JSON.stringify({ type: 'auth_required' }));
+      socket.on('message', (data) => this.handleMessage(socket, JSON.parse(data.toString())));
+    });
+  }
+
+  get url(): string {
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  sendEvent(id: number, event: any): void {
+    for (const socket of this.server.clients) {
+      socket.send(JSON.stringify({ id, type: 'event', event }));
+    }
+  }
+
+  dropConnections(): void {
+    for (const socket of this.server.clients) {
+      socket.terminate();
+    }
+  }
+
+  close(): Promise<void> {
+    this.dropConnections();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private handleMessage(socket: WebSocket, message: any): void {
+    this.received.push(message);
+
+    if (message.type === 'auth' && this.validToken && message.access_token !== this.validToken) {
+      // Home Assistant closes the connection after rejecting a token
+      socket.send(JSON.stringify({ type: 'auth_invalid', message: 'Invalid access token' }));
+      socket.close();
+    } else if (message.type === 'auth') {
+      socket.send(JSON.stringify({ type: 'auth_ok' }));
+    } else if (message.type === 'ping') {
+      if (this.answerPings) {
+        socket.send(JSON.stringify({ id: message.id, type: 'pong' }));
+      }
+    } else {
+      socket.send(JSON.stringify({ id: message.id, type: 'result', success: true, result: null }));
+    }
+  }
+}
+
+/**
+ * Wait until a condition holds
+ */
+async function waitFor(condition: () => boolean, timeout = 5000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('HomeAssistantClient', () => {
+  let server: FakeHomeAssistant;
+  let client: HomeAssistantClient;
+  let errors: Error[];
+
+  beforeEach(() => {
+    server = new FakeHomeAssistant();
+    errors = [];
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await server.close();
+  });
+
+  const connect = async (options = {}) => {
+    client = new HomeAssistantClient(options);
+    client.on('error', (error: Error) => errors.push(error));
+    await client.connect(server.url, 'token');
+  };
+
+  const subscriptionsSent = () => server.received.filter((m) => m.type === 'subscribe_events');
+
+  test('should resubscribe after reconnecting and keep the subscription id', async () => {
+    await connect();
+    const events: any[] = [];
+    const subscriptionId = client.subscribeMessage(
+      { type: 'subscribe_events', event_type: 'state_changed' },
+      (event) => events.push(event)
+    );
+    await waitFor(() => subscriptionsSent().length === 1);
+
+    server.dropConnections();
+    await waitFor(() => subscriptionsSent().length === 2);
+
+    const resent = subscriptionsSent()[1];
+    expect(resent.id).not.toBe(subscriptionId);
+    expect(resent.event_type).toBe('state_changed');
+    expect(client.hasSubscription(subscriptionId)).toBe(true);
+
+    server.sendEvent(resent.id, { event_type: 'state_changed' });
+    await waitFor(() => events.length === 1);
+
+    client.unsubscribeEvents(subscriptionId);
+    await waitFor(() => server.received.some((m) => m.type === 'unsubscribe_events'));
+    expect(server.received.find((m) => m.type === 'unsubscribe_events').subscription).toBe(
+      resent.id
+    );
+  });
+
+  test('should render templates with their warnings and unsubscribe', async () => {
+    await connect();
+    const rendering = client.renderTemplate("{{ states('light.porch') }}", { room: 'porch' });
+    await waitFor(() => server.received.some((m) => m.type === 'render_template'));
+
+    const request = server.received.find((m) => m.type === 'render_template');
+    expect(request).toMatchObject({
+      template: "{{ states('light.porch') }}",
+      variables: { room: 'porch' },
+      report_errors: true,
+    });
+
+    const listeners = { all: false, entities: ['light.porch'], domains: [], time: false };
+    server.sendEvent(request.id, { error: "'foo' is undefined", level: 'WARNING' });
+    server.sendEvent(request.id, { result: 'on', listeners });
+
+    await expect(rendering).resolves.toEqual({
+      result: 'on',
+      listeners,
+      warnings: ["'foo' is undefined"],
+    });
+    await waitFor(() => server.received.some((m) => m.type === 'unsubscribe_events'));
+    expect(server.received.find((m) => m.type === 'unsubscribe_events').subscription).toBe(
+      request.id
+    );
+  });
+
+  test('should reject templates that fail to render', async () => {
+    await connect();
+    const rendering = client.renderTemplate('{{ 1 / 0 }}');
+    await waitFor(() => server.received.some((m) => m.type === 'render_template'));
+
+    const request = server.received.find((m) => m.type === 'render_template');
+    expect(request.variables).toBeUndefined();
+    server.sendEvent(request.id, { error: 'ZeroDivisionError: division by zero', level: 'ERROR' });
+
+    await expect(rendering).rejects.toThrow('ZeroDivisionError');
+  });
+
+  test('should reconnect when a pong is missed', async () => {
+    server.answerPings = false;
+    await connect({ pingInterval: 50, pongTimeout: 50 });
+
+    const states: ConnectionState[] = [];
+    client.on('state', (state: ConnectionState) => states.push(state));
+
+    await waitFor(() => states.includes(ConnectionState.DISCONNECTED));
+    expect(errors.some((error) => error.message.includes('No pong'))).toBe(true);
+  });
+
+  test('should stop reconnecting once the token is rejected', async () => {
+    server.validToken = 'rotated';
+    client = new HomeAssistantClient();
+    const reconnecting = jest.fn();
+    client.on('reconnecting', reconnecting);
+    client.on('error', (error: Error) => errors.push(error));
+
+    await expect(client.connect(server.url, 'token')).rejects.toThrow('Invalid access token');
+    await waitFor(() => client.getState() === ConnectionState.DISCONNECTED);
+    expect(reconnecting).not.toHaveBeenCalled();
+
+    // A new token connects again
+    await client.connect(server.url, 'rotated');
+    expect(client.isConnected()).toBe(true);
+  });
+
+  test('should answer pings with pongs', async () => {
+    await connect();
+
+    await expect(client.ping()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Hover Provider Tests
+ * Tests how hovered tokens are classified as entities, services, domains,
+ * registry IDs and template functions
+ */
+
+import { HoverProvider } from '../../src/providers/hover';
+import { HomeAssistantClient } from '../../src/ha-client';
+import { Cache } from '../../src/cache';
+import {
+  AreaRegistryEntry,
+  DeviceRegistryEntry,
+  Entity,
+  EntityRegistryEntry,
+  LabelRegistryEntry,
+  RenderTemplateResult,
+  Services,
+} from '../../src/types/homeassistant';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+// Mock Home Assistant Client
+class MockHomeAssistantClient extends HomeAssistantClient {
+  mockEntities: Entity[] = [];
+  mockServices: Services = {};
+  mockRegistry: EntityRegistryEntry[] = [];
+  mockAreas: AreaRegistryEntry[] = [];
+  mockDevices: DeviceRegistryEntry[] = [];
+  mockLabels: LabelRegistryEntry[] = [];
+
+  async getStates(): Promise<Entity[]> {
+    return this.mockEntities;
+  }
+
+  async getServices(): Promise<any> {
+    return this.mockServices;
+  }
+
+  async getEntityRegistry(): Promise<EntityRegistryEntry[]> {
+    return this.mockRegistry;
+  }
+
+  async getAreaRegistry(): Promise<AreaRegistryEntry[]> {
+    return this.mockAreas;
+  }
+
+  async getDeviceRegistry(): Promise<DeviceRegistryEntry[]> {
+    return this.mockDevices;
+  }
+
+  async getLabelRegistry(): Promise<LabelRegistryEntry[]> {
+    return this.mockLabels;
+  }
+}
+
+// Mock Cache
+class MockCache extends Cache {
+  async getOrFetch<T>(
+    _key: string,
+    fetchFn: () => Promise<T>,
+    _ttl?: number
+  ): Promise<T> {
+    return fetchFn();
+  }
+}
+
+function createEntity(entityId: string, state: string, friendlyName?: string): Entity {
+  return {
+    entity_id: entityId,
+    state,
+    attributes: friendlyName ? { friendly_name: friendlyName } : {},
+    last_changed: '',
+    last_updated: '',
+    context: { id: '', parent_id: null, user_id: null },
+  };
+}
+
+function createRegistryEntry(
+  entityId: string,
+  areaId: string | null,
+  deviceId: string | null,
+  labels: string[] = []
+): EntityRegistryEntry {
+  return {
+    entity_id: entityId,
+    platform: 'hue',
+    device_id: deviceId,
+    area_id: areaId,
+    name: null,
+    labels,
+  };
+}
+
+describe('HoverProvider', () => {
+  let hoverProvider: HoverProvider;
+  let mockClient: MockHomeAssistantClient;
+  let mockCache: MockCache;
+
+  beforeEach(() => {
+    mockClient = new MockHomeAssistantClient();
+    mockCache = new MockCache();
+    hoverProvider = new HoverProvider(mockClient, mockCache);
+
+    mockClient.mockEntities = [
+      createEntity('light.porch', 'off', 'Porch'),
+      createEntity('light.kitchen_ceiling', 'on', 'Kitchen ceiling'),
+      createEntity('sensor.kitchen_temp', '21.5'),
+    ];
+    mockClient.mockServices = {
+      light: {
+        turn_on: {
+          domain: 'light',
+          service: 'turn_on',
+          name: 'Turn on',
+          description: 'Turns on one or more lights.',
+          target: { entity: [{ domain: ['light'] }] },
+          fields: {
+            brightness: { description: 'Brightness of the light.', selector: { number: {} } },
+            advanced_fields: {
+              collapsed: true,
+              fields: { flash: { selector: { select: { options: ['short', 'long'] } } } },
+            },
+          },
+        },
+        toggle: { domain: 'light', service: 'toggle', name: 'Toggle' },
+      },
+    } as any;
+    mockClient.mockDevices = [
+      {
+        id: 'a1b2c3',
+        name: 'Ceiling light',
+        name_by_user: null,
+        manufacturer: 'Signify',
+        model: 'Hue White',
+        area_id: 'kitchen',
+      },
+    ];
+    mockClient.mockRegistry = [
+      createRegistryEntry('light.kitchen_ceiling', null, 'a1b2c3'),
+      createRegistryEntry('sensor.kitchen_temp', 'kitchen', null, ['climate']),
+      createRegistryEntry('light.porch', 'garden', null),
+    ];
+    mockClient.mockAreas = [
+      { area_id: 'kitchen', name: 'Kitchen', floor_id: 'ground_floor' },
+    ];
+    mockClient.mockLabels = [
+      { label_id: 'climate', name: 'Climate', description: 'Heating and cooling' },
+    ];
+  });
+
+  afterEach(() => {
+    mockCache.destroy();
+  });
+
+  // "‸" marks the cursor
+  const hover = async (lines: string[], uri = 'file:///config/automations.yaml') => {
+    const line = lines.findIndex((text) => text.includes('‸'));
+    const character = lines[line].indexOf('‸');
+    const text = lines.map((text) => text.replace('‸', '')).join('\n');
+    const document = TextDocument.create(uri, 'yaml', 1, text);
+    const result = await hoverProvider.provideHover(document, {
+      textDocument: { uri },
+      position: { line, character },
+    });
+    return result ? (result.contents as { value: string }).value : null;
+  };
+
+  test('should show entity state', async () => {
+    const content = await hover(['entity_id: light.po‸rch']);
+
+    expect(content).toContain('## Porch');
+    expect(content).toContain('**State:** ✓ `off`');
+  });
+
+  test('should not treat included files as entities', async () => {
+    expect(await hover(['sensor: !include sens‸or.yaml'])).toBeNull();
+    expect(await hover(['light: !include ligh‸t.yml'])).toBeNull();
+  });
+
+  test('should show service description and fields instead of an entity', async () => {
+    const content = await hover(['- action: light.turn‸_on']);
+
+    expect(content).toContain('## Turn on');
+    expect(content).toContain('Turns on one or more lights.');
+    expect(content).toContain('**Target:**');
+    expect(content).toContain('- **brightness** `number` — Brightness of the light.');
+    expect(content).toContain('- **flash** `select`');
+    expect(content).not.toContain('not found');
+
+    expect(await hover(['- action: light.ble‸nd'])).toBe(
+      '❌ Service `light.blend` not found in Home Assistant'
+    );
+    // Outside service keys, services are recognised once no entity matches
+    expect(await hover(['  perform_actions:', '    - light.tog‸gle'])).toContain('## Toggle');
+  });
+
+  test('should show entity count and services of a domain', async () => {
+    const content = await hover(['lig‸ht:', '  - platform: group'], 'file:///config/configuration.yaml');
+
+    expect(content).toContain('**Entities:** 2');
+    expect(content).toContain('- `light.turn_on` — Turn on');
+    expect(content).toContain('- `light.toggle` — Toggle');
+
+    expect(await hover(['condition: state', 'domain: li‸ght'])).toContain('## light');
+    expect(await hover(['my_custom_key:‸'])).toBeNull();
+  });
+
+  test('should show areas with the entities of their devices', async () => {
+    const content = await hover(['target:', '  area_id:', '    - kitc‸hen']);
+
+    expect(content).toContain('## Kitchen');
+    expect(content).toContain('**Floor:** `ground_floor`');
+    expect(content).toContain('### Entities (2)');
+    expect(content).toContain('- `light.kitchen_ceiling` — Kitchen ceiling (`on`)');
+    expect(content).toContain('- `sensor.kitchen_temp` — sensor.kitchen_temp (`21.5`)');
+    expect(content).not.toContain('light.porch');
+
+    expect(await hover(['area_id: [kitchen, atti‸c]'])).toBe(
+      '❌ Area `attic` not found in Home Assistant'
+    );
+  });
+
+  test('should show devices and labels', async () => {
+    const device = await hover(['device_id: a1b2‸c3']);
+    expect(device).toContain('## Ceiling light');
+    expect(device).toContain('**Model:** Signify Hue White');
+    expect(device).toContain('### Entities (1)');
+
+    const label = await hover(['label_id: clim‸ate']);
+    expect(label).toContain('## Climate');
+    expect(label).toContain('Heating and cooling');
+    expect(label).toContain('- `sensor.kitchen_temp`');
+  });
+
+  test('should document template functions', async () => {
+    const content = await hover(["value_template: \"{{ state_a‸ttr('light.porch', 'brightness') }}\""]);
+
+    expect(content).toContain('`state_attr(entity_id, attribute)`');
+  });
+
+  describe('template preview', () => {
+    let cache: Cache;
+    let renders: string[];
+
+    beforeEach(() => {
+      cache = new Cache();
+      hoverProvider = new HoverProvider(mockClient, cache);
+      renders = [];
+      jest.spyOn(mockClient, 'isConnected').mockReturnValue(true);
+      jest
+        .spyOn(mockClient, 'renderTemplate')
+        .mockImplementation(async (template: string): Promise<RenderTemplateResult> => {
+          renders.push(template);
+          if (template.includes('undefined_fn')) {
+            throw new Error("'undefined_fn' is undefined");
+          }
+          return {
+            result: 'off',
+            listeners: { all: false, entities: ['light.porch'], domains: [], time: false },
+          };
+        });
+    });
+
+    afterEach(() => {
+      cache.destroy();
+    });
+
+    const previewAt = (document: TextDocument, character: number) =>
+      hoverProvider
+        .provideHover(document, {
+          textDocument: { uri: document.uri },
+          position: { line: 0, character },
+        })
+        .then((result) => (result ? (result.contents as { value: string }).value : null));
+
+    test('should show the rendered result and its listeners', async () => {
+      const document = TextDocument.create(
+        'file:///config/automations.yaml',
+        'yaml',
+        1,
+        'value_template: "{{ is_state(\'light.porch\', \'on\') }}"'
+      );
+
+      const content = await previewAt(document, 45);
+
+      expect(renders).toEqual(["{{ is_state('light.porch', 'on') }}"]);
+      expect(content).toContain('### Template Result');
+      expect(content).toContain('off');
+      expect(content).toContain('**Listens to:** `light.porch`');
+    });
+
+    test('should show template errors', async () => {
+      const document = TextDocument.create(
+        'file:///config/automations.yaml',
+        'yaml',
+        1,
+        'value_template: "{{ undefined_fn() }}"'
+      );
+
+      const content = await previewAt(document, 20);
+
+      expect(content).toContain('❌ **Template error**');
+      expect(content).toContain("'undefined_fn' is undefined");
+    });
+
+    test('should render each template once per document version', async () => {
+      const text = 'value_template: "{{ is_state(\'light.porch\', \'on\') }}"';
+      const document = TextDocument.create('file:///config/automations.yaml', 'yaml', 1, text);
+
+      await previewAt(document, 45);
+      await previewAt(document, 49);
+      expect(renders).toHaveLength(1);
+
+      const edited = TextDocument.update(document, [], 2);
+      await previewAt(edited, 45);
+      expect(renders).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Inlay Hints Provider Tests
+ * Tests the entity states shown next to entity IDs
+ */
+
+import { InlayHintsProvider } from '../../src/providers/inlay-hints';
+import { HomeAssistantClient } from '../../src/ha-client';
+import { Cache } from '../../src/cache';
+import { Entity } from '../../src/types/homeassistant';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+// Mock Home Assistant Client
+class MockHomeAssistantClient extends HomeAssistantClient {
+  mockEntities: Entity[] = [];
+
+  async getStates(): Promise<Entity[]> {
+    return this.mockEntities;
+  }
+}
+
+// Mock Cache
+class MockCache extends Cache {
+  async getOrFetch<T>(
+    _key: string,
+    fetchFn: () => Promise<T>,
+    _ttl?: number
+  ): Promise<T> {
+    return fetchFn();
+  }
+}
+
+function createEntity(entityId: string, state: string, attributes = {}): Entity {
+  return {
+    entity_id: entityId,
+    state,
+    attributes,
+    last_changed: '',
+    last_updated: '',
+    context: { id: '', parent_id: null, user_id: null },
+  };
+}
+
+describe('InlayHintsProvider', () => {
+  let inlayHintsProvider: InlayHintsProvider;
+  let mockClient: MockHomeAssistantClient;
+  let mockCache: MockCache;
+
+  beforeEach(() => {
+    mockClient = new MockHomeAssistantClient();
+    mockCache = new MockCache();
+    inlayHintsProvider = new InlayHintsProvider(mockClient, mockCache);
+
+    mockClient.mockEntities = [
+      createEntity('sensor.outdoor_temp', '12.4', {
+        unit_of_measurement: '°C',
+        friendly_name: 'Outdoor temperature',
+      }),
+      createEntity('light.porch', 'off'),
+      createEntity('sensor.forecast', 'Sunny with a chance of rain later in the afternoon'),
+    ];
+  });
+
+  afterEach(() => {
+    mockCache.destroy();
+  });
+
+  const hints = (lines: string[], startLine = 0, endLine = lines.length - 1) => {
+    const document = TextDocument.create('file:///config/automations.yaml', 'yaml', 1, lines.join('\n'));
+    return inlayHintsProvider.provideInlayHints(document, {
+      start: { line: startLine, character: 0 },
+      end: { line: endLine, character: 0 },
+    });
+  };
+
+  test('should show state and unit at the end of entity IDs', async () => {
+    const result = await hints([
+      'entity_id: sensor.outdoor_temp',
+      'target:',
+      '  entity_id: [light.porch, light.unknown]',
+    ]);
+
+    expect(result).toEqual([
+      {
+        position: { line: 0, character: 30 },
+        label: '▸ 12.4 °C',
+        paddingLeft: true,
+        tooltip: 'Outdoor temperature',
+      },
+      {
+        position: { line: 2, character: 25 },
+        label: '▸ off',
+        paddingLeft: true,
+        tooltip: undefined,
+      },
+    ]);
+  });
+
+  test('should recognise entities in templates but not services', async () => {
+    const result = await hints([
+      "value_template: \"{{ states('sensor.outdoor_temp') | float > states.sensor.outdoor_temp.state }}\"",
+      '- action: light.turn_on',
+    ]);
+
+    expect(result.map((hint) => hint.position)).toEqual([
+      { line: 0, character: 47 },
+      { line: 0, character: 86 },
+    ]);
+  });
+
+  test('should skip comments, included files and tag values', async () => {
+    const result = await hints([
+      'entity_id: light.porch # was light.porch',
+      '# entity_id: sensor.outdoor_temp',
+      'sensor: !include sensor.outdoor_temp.yaml',
+      'password: !secret light.porch',
+    ]);
+
+    expect(result.map((hint) => hint.position)).toEqual([{ line: 0, character: 22 }]);
+  });
+
+  test('should only cover the requested range and shorten long states', async () => {
+    const result = await hints(
+      ['entity_id: light.porch', 'entity_id: sensor.forecast', 'entity_id: light.porch'],
+      1,
+      1
+    );
+
+    expect(result).toHaveLength(1);
+    expect(result[0].label).toBe('▸ Sunny with a chance of rain l…');
+  });
+
+  test('should show no hints without entity states', async () => {
+    mockClient.getStates = async () => {
+      throw new Error('Not connected');
+    };
+
+    expect(await hints(['entity_id: light.porch'])).toEqual([]);
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Instance Tests
+ * Tests mapping workspace files and command arguments to Home Assistant instances,
+ * and updating running instances when the configuration changes
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  HomeAssistantInstance,
+  InstanceOptions,
+  resolveInstance,
+  extractInstanceArgument,
+  syncInstances,
+} from '../../src/instance';
+import { InstanceConfig } from '../../src/utils/config';
+import { matchesGlob } from '../../src/utils/glob';
+
+describe('HomeAssistantInstance', () => {
+  const workspace = path.resolve('/workspace');
+  const created: HomeAssistantInstance[] = [];
+
+  const createInstance = (config: Partial<InstanceConfig> & { name: string }) => {
+    const instance = new HomeAssistantInstance(
+      { host: `ws://${config.name}:8123/api/websocket`, token: 'token', ...config },
+      { cache: { enabled: true, ttl: 300, snapshot: false }, completion: { minChars: 0 } }
+    );
+    created.push(instance);
+    return instance;
+  };
+
+  afterEach(async () => {
+    await Promise.all(created.splice(0).map((instance) => instance.stop()));
+  });
+
+  test('should match files in folders and glob patterns', () => {
+    const staging = createInstance({ name: 'staging', folders: ['staging'] });
+    const packages = createInstance({ name: 'packages', patterns: ['**/packages/*.{yaml,yml}'] });
+
+    expect(staging.matches(path.join(workspace, 'staging', 'automations.yaml'), [workspace])).toBe(
+      true
+    );
+    expect(staging.matches(path.join(workspace, 'staging-old', 'a.yaml'), [workspace])).toBe(false);
+    expect(packages.matches(path.join(workspace, 'prod', 'packages', 'x.yml'), [workspace])).toBe(
+      true
+    );
+    expect(packages.matches(path.join(workspace, 'prod', 'packages', 'x.py'), [workspace])).toBe(
+      false
+    );
+  });
+
+  test('should resolve files to the first matching instance, else the default', () => {
+    const prod = createInstance({ name: 'prod' });
+    const staging = createInstance({ name: 'staging', folders: ['staging'] });
+    const instances = [staging, prod];
+
+    const stagingFile = path.join(workspace, 'staging', 'configuration.yaml');
+    const otherFile = path.join(workspace, 'configuration.yaml');
+
+    expect(resolveInstance(instances, stagingFile, [workspace])).toBe(staging);
+    expect(resolveInstance(instances, otherFile, [workspace])).toBe(prod);
+    expect(resolveInstance(instances, null, [workspace])).toBe(prod);
+    expect(resolveInstance([], otherFile, [workspace])).toBeNull();
+  });
+
+  test('should not fall back to a scoped instance for other files', () => {
+    const staging = createInstance({ name: 'staging', folders: ['staging'] });
+    const packages = createInstance({ name: 'packages', patterns: ['**/packages/**'] });
+    const instances = [staging, packages];
+
+    const otherFile = path.join(workspace, 'configuration.yaml');
+
+    expect(resolveInstance(instances, otherFile, [workspace])).toBeNull();
+    expect(resolveInstance(instances, null, [workspace])).toBeNull();
+  });
+
+  test('should give each instance its own cache', () => {
+    const prod = createInstance({ name: 'prod' });
+    const staging = createInstance({ name: 'staging' });
+
+    prod.cache.set('ha:entities', ['light.prod']);
+
+    expect(staging.cache.get('ha:entities')).toBeNull();
+  });
+});
+
+describe('syncInstances', () => {
+  const created: HomeAssistantInstance[] = [];
+
+  const config = (name: string, overrides: Partial<InstanceConfig> = {}): InstanceConfig => ({
+    name,
+    host: `ws://${name}:8123/api/websocket`,
+    token: 'token',
+    ...overrides,
+  });
+
+  const options: InstanceOptions = {
+    cache: { enabled: true, ttl: 300, snapshot: false },
+    completion: { minChars: 0 },
+  };
+
+  const create = (instanceConfig: InstanceConfig) => {
+    const instance = new HomeAssistantInstance(instanceConfig, options);
+    created.push(instance);
+    return instance;
+  };
+
+  let instances: Map<string, HomeAssistantInstance>;
+
+  beforeEach(async () => {
+    instances = new Map();
+    await syncInstances(instances, [config('prod'), config('staging')], options, create);
+  });
+
+  afterEach(async () => {
+    await Promise.all(created.splice(0).map((instance) => instance.stop()));
+  });
+
+  test('should create instances in configuration order', async () => {
+    expect(Array.from(instances.keys())).toEqual(['prod', 'staging']);
+    expect(created).toEqual([instances.get('prod'), instances.get('staging')]);
+  });
+
+  test('should add and remove instances', async () => {
+    const staging = instances.get('staging')!;
+    const stop = jest.spyOn(instances.get('prod')!, 'stop');
+
+    const started = await syncInstances(
+      instances,
+      [config('lab'), config('staging')],
+      options,
+      create
+    );
+
+    expect(started.map((instance) => instance.name)).toEqual(['lab']);
+    expect(Array.from(instances.keys())).toEqual(['lab', 'staging']);
+    expect(instances.get('staging')).toBe(staging);
+    expect(stop).toHaveBeenCalledTimes(1);
+  });
+
+  test('should recreate instances whose connection settings changed', async () => {
+    const prod = instances.get('prod')!;
+    const staging = instances.get('staging')!;
+    const stopProd = jest.spyOn(prod, 'stop');
+    const stopStaging = jest.spyOn(staging, 'stop');
+
+    const started = await syncInstances(
+      instances,
+      [config('prod', { token: 'rotated' }), config('staging', { timeout: 5000 })],
+      options,
+      create
+    );
+
+    expect(started).toEqual([instances.get('prod'), instances.get('staging')]);
+    expect(instances.get('prod')).not.toBe(prod);
+    expect(instances.get('prod')!.getConfig().token).toBe('rotated');
+    expect(instances.get('staging')!.getConfig().timeout).toBe(5000);
+    expect(stopProd).toHaveBeenCalledTimes(1);
+    expect(stopStaging).toHaveBeenCalledTimes(1);
+  });
+
+  test('should keep instances running when only folders or patterns change', async () => {
+    const prod = instances.get('prod')!;
+    const stop = jest.spyOn(prod, 'stop');
+    const setConfig = jest.spyOn(prod, 'setConfig');
+    const scoped = config('prod', { folders: ['prod'], patterns: ['packages/**'] });
+
+    const started = await syncInstances(instances, [config('staging'), scoped], options, create);
+
+    expect(started).toEqual([]);
+    expect(Array.from(instances.keys())).toEqual(['staging', 'prod']);
+    expect(instances.get('prod')).toBe(prod);
+    expect(setConfig).toHaveBeenCalledWith(scoped);
+    expect(prod.isScoped()).toBe(true);
+    expect(stop).not.toHaveBeenCalled();
+  });
+
+  test('should attach and detach the snapshot of running instances', async () => {
+    const cacheHome = fs.mkdtempSync(path.join(os.tmpdir(), 'ha-lsp-instance-'));
+    const previousCacheHome = process.env.XDG_CACHE_HOME;
+    process.env.XDG_CACHE_HOME = cacheHome;
+    try {
+      const prod = instances.get('prod')!;
+      const configs = [config('prod'), config('staging')];
+      const withSnapshot = (snapshot: boolean) => ({
+        ...options,
+        cache: { ...options.cache, snapshot },
+      });
+
+      const started = await syncInstances(instances, configs, withSnapshot(true), create);
+      expect(started).toEqual([]);
+      expect(instances.get('prod')).toBe(prod);
+      expect(prod.cache.hasSnapshot()).toBe(true);
+
+      await syncInstances(instances, configs, withSnapshot(false), create);
+      expect(prod.cache.hasSnapshot()).toBe(false);
+    } finally {
+      if (previousCacheHome === undefined) {
+        delete process.env.XDG_CACHE_HOME;
+      } else {
+        process.env.XDG_CACHE_HOME = previousCacheHome;
+      }
+      fs.rmSync(cacheHome, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('extractInstanceArgument', () => {
+  test('should split off a trailing instance argument', () => {
+    expect(extractInstanceArgument(['light.porch', { instance: 'staging' }])).toEqual({
+      instance: 'staging',
+      args: ['light.porch'],
+    });
+  });
+
+  test('should keep other object arguments', () => {
+    const args = ['light', 'turn_on', { entity_id: 'light.porch' }];
+    expect(extractInstanceArgument(args)).toEqual({ args });
+    expect(extractInstanceArgument(undefined)).toEqual({ args: undefined });
+  });
+});
+
+describe('matchesGlob', () => {
+  test('should match stars, double stars and alternatives', () => {
+    expect(matchesGlob('automations.yaml', '*.yaml')).toBe(true);
+    expect(matchesGlob('packages/automations.yaml', '*.yaml')).toBe(false);
+    expect(matchesGlob('packages/automations.yaml', '**/*.yaml')).toBe(true);
+    expect(matchesGlob('staging/a/b.j2', 'staging/**')).toBe(true);
+    expect(matchesGlob('scripts.yml', '{scripts,automations}.y?l')).toBe(true);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Jinja Utility Tests
+ * Tests template block detection and template extraction from YAML values
+ */
+
+import {
+  getTemplateStart,
+  getTemplateCallContext,
+  getTemplateFunctionAt,
+  getTemplateTextAt,
+} from '../../src/utils/jinja';
+
+describe('Jinja utilities', () => {
+  const offsetOf = (text: string, marker: string) => text.indexOf(marker);
+
+  test('should detect open template blocks', () => {
+    const text = 'a: "{{ states(\'x\') }}"\nb: "{% if true';
+
+    expect(getTemplateStart(text, offsetOf(text, 'states'))).toBe(6);
+    expect(getTemplateStart(text, offsetOf(text, 'b:'))).toBeNull();
+    expect(getTemplateStart(text, text.length)).not.toBeNull();
+  });
+
+  test('should find the call around a string argument', () => {
+    expect(getTemplateCallContext("is_state('light.kitchen', 'o")).toEqual({
+      name: 'is_state',
+      argumentIndex: 1,
+      isFilter: false,
+      inString: true,
+      argumentText: "'o",
+    });
+
+    const filterCall = getTemplateCallContext("'sensor.x' | state_attr('fri");
+    expect(filterCall?.isFilter).toBe(true);
+    expect(filterCall?.argumentIndex).toBe(0);
+  });
+
+  test('should recognise functions and filters by their syntax', () => {
+    const line = "{{ states('sensor.x') | float(0) + float }}";
+
+    expect(getTemplateFunctionAt(line, 5)?.fn.name).toBe('states');
+    expect(getTemplateFunctionAt(line, 27)?.fn.name).toBe('float');
+    // A bare name is a variable, not a call
+    expect(getTemplateFunctionAt(line, 38)).toBeNull();
+  });
+
+  test('should extract block scalar templates', () => {
+    const text = [
+      '- alias: Test',
+      '  value_template: >-',
+      "    {% if is_state('light.kitchen', 'on') %}",
+      '      on',
+      '    {% endif %}',
+      '  mode: single',
+    ].join('\n');
+
+    expect(getTemplateTextAt(text, offsetOf(text, 'on\n'), true)).toBe(
+      "{% if is_state('light.kitchen', 'on') %}\n  on\n{% endif %}"
+    );
+  });
+
+  test('should extract quoted single line templates', () => {
+    const text = "message: \"Temp {{ states('sensor.x') }}\"";
+
+    expect(getTemplateTextAt(text, offsetOf(text, 'states'), true)).toBe(
+      "Temp {{ states('sensor.x') }}"
+    );
+  });
+
+  test('should extract the template block in non-YAML documents', () => {
+    const text = "Hello {{ states('sensor.x') }} and {{ now() }}";
+
+    expect(getTemplateTextAt(text, offsetOf(text, 'now'), false)).toBe('{{ now() }}');
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Logger Tests
+ * Tests that secrets never reach the log output
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Logger } from '../../src/utils/logger';
+
+describe('Logger', () => {
+  let dir: string;
+  let logFile: string;
+  let root: Logger;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ha-lsp-logger-'));
+    logFile = path.join(dir, 'lsp.log');
+    root = new Logger();
+    root.setFile(logFile);
+    jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const readLog = async () => {
+    root.setFile();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    return fs.readFileSync(logFile, 'utf8');
+  };
+
+  test('should redact registered secrets and token fields in every logger', async () => {
+    const child = root.child('Config');
+    child.addSecret('super-secret-token');
+
+    child.info('Connecting with super-secret-token');
+    root.error('Request failed', new Error('auth super-secret-token rejected'));
+    child.info('Auth message', { type: 'auth', access_token: 'other-token' });
+
+    const log = await readLog();
+    expect(log).not.toContain('super-secret-token');
+    expect(log).not.toContain('other-token');
+    expect(log).toContain('Connecting with ***');
+    expect(log).toContain('"access_token":"***"');
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * References Provider Tests
+ * Tests finding and renaming entity ID references across the workspace
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ReferencesProvider } from '../../src/providers/references';
+import { WorkspaceIndex } from '../../src/workspace-index';
+import { pathToUri } from '../../src/utils/uri';
+import { Services } from '../../src/types/homeassistant';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+describe('ReferencesProvider', () => {
+  let workspace: string;
+  let openDocuments: TextDocument[];
+  let referencesProvider: ReferencesProvider;
+
+  const fileUri = (name: string) => pathToUri(path.join(workspace, name));
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'ha-lsp-references-'));
+    fs.writeFileSync(
+      path.join(workspace, 'automations.yaml'),
+      '- trigger:\n    entity_id: sensor.kitchen_temp\n  condition: "{{ states.sensor.kitchen_temp.state | float > 20 }}"\n'
+    );
+    fs.mkdirSync(path.join(workspace, 'templates'));
+    fs.writeFileSync(
+      path.join(workspace, 'templates', 'temp.jinja'),
+      "{{ states('sensor.kitchen_temp') }} {{ states('sensor.kitchen_temp_avg') }}\n"
+    );
+    fs.mkdirSync(path.join(workspace, 'apps'));
+    fs.writeFileSync(
+      path.join(workspace, 'apps', 'climate.py'),
+      'temp = self.get_state("sensor.kitchen_temp")\n'
+    );
+    fs.mkdirSync(path.join(workspace, '.storage'));
+    fs.writeFileSync(path.join(workspace, '.storage', 'core.yaml'), 'sensor.kitchen_temp\n');
+
+    openDocuments = [];
+    const index = new WorkspaceIndex(() => [workspace], () => openDocuments);
+    const services: Services = {
+      light: { toggle: { domain: 'light', service: 'toggle' } },
+    };
+    referencesProvider = new ReferencesProvider(index, () => services);
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  test('should find references in YAML, Jinja and Python files', () => {
+    const document = TextDocument.create(
+      fileUri('automations.yaml'),
+      'yaml',
+      1,
+      fs.readFileSync(path.join(workspace, 'automations.yaml'), 'utf8')
+    );
+
+    const locations = referencesProvider.provideReferences(document, {
+      textDocument: { uri: document.uri },
+      position: { line: 1, character: 20 },
+    });
+
+    const found = locations.map(
+      (l) => `${path.basename(l.uri)}:${l.range.start.line}:${l.range.start.character}`
+    );
+    expect(found).toEqual([
+      'climate.py:0:23',
+      'automations.yaml:1:15',
+      'automations.yaml:2:24',
+      'temp.jinja:0:11',
+    ]);
+  });
+
+  test('should prefer the text of open documents', () => {
+    openDocuments.push(
+      TextDocument.create(fileUri('automations.yaml'), 'yaml', 2, 'entity_id: light.porch\n')
+    );
+
+    const locations = referencesProvider.findReferences('sensor.kitchen_temp');
+
+    expect(locations.some((l) => l.uri === fileUri('automations.yaml'))).toBe(false);
+  });
+
+  test('should rename every reference', () => {
+    const document = TextDocument.create(
+      fileUri('apps/climate.py'),
+      'python',
+      1,
+      'temp = self.get_state("sensor.kitchen_temp")\n'
+    );
+
+    const edit = referencesProvider.provideRenameEdits(
+      document,
+      { textDocument: { uri: document.uri }, position: { line: 0, character: 30 } },
+      'kitchen_temperature'
+    );
+
+    const changes = edit!.changes!;
+    expect(Object.keys(changes)).toHaveLength(3);
+    expect(changes[fileUri('automations.yaml')].map((e) => e.newText)).toEqual([
+      'sensor.kitchen_temperature',
+      'sensor.kitchen_temperature',
+    ]);
+  });
+
+  test('should not rename services, file names or tag values', () => {
+    const document = TextDocument.create(
+      fileUri('configuration.yaml'),
+      'yaml',
+      1,
+      [
+        'sensor: !include sensor.yaml',
+        'api_key: !secret weather.key',
+        '- action: light.turn_on',
+        '  sequence: [light.toggle]',
+      ].join('\n')
+    );
+
+    const at = (line: number, character: number) =>
+      referencesProvider.prepareRename(document, {
+        textDocument: { uri: document.uri },
+        position: { line, character },
+      });
+
+    expect(at(0, 20)).toBeNull();
+    expect(at(1, 20)).toBeNull();
+    expect(at(2, 15)).toBeNull();
+    expect(at(3, 16)).toBeNull();
+    expect(
+      referencesProvider.provideRenameEdits(
+        document,
+        { textDocument: { uri: document.uri }, position: { line: 2, character: 15 } },
+        'turn_off'
+      )
+    ).toBeNull();
+  });
+
+  test('should skip tag values and service calls when finding references', () => {
+    openDocuments.push(
+      TextDocument.create(
+        fileUri('automations.yaml'),
+        'yaml',
+        2,
+        [
+          'password: !secret sensor.kitchen_temp',
+          '- action: light.toggle',
+          '  target:',
+          '    entity_id: light.porch',
+        ].join('\n')
+      )
+    );
+
+    const found = (entityId: string) =>
+      referencesProvider
+        .findReferences(entityId)
+        .filter((l) => l.uri === fileUri('automations.yaml'))
+        .map((l) => l.range.start.line);
+
+    expect(found('sensor.kitchen_temp')).toEqual([]);
+    expect(found('light.toggle')).toEqual([]);
+    expect(found('light.porch')).toEqual([3]);
+  });
+
+  test('should reject renames to another domain', () => {
+    expect(() =>
+      referencesProvider.normalizeNewName('sensor.kitchen_temp', 'light.kitchen')
+    ).toThrow('sensor domain');
+    expect(() =>
+      referencesProvider.normalizeNewName('sensor.kitchen_temp', 'Kitchen Temp')
+    ).toThrow('Invalid entity ID');
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Signature Help Provider Tests
+ * Tests service data field and template function signatures
+ */
+
+import { SignatureHelpProvider } from '../../src/providers/signature-help';
+import { HomeAssistantClient } from '../../src/ha-client';
+import { Cache } from '../../src/cache';
+import { Services } from '../../src/types/homeassistant';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+// Mock Home Assistant Client
+class MockHomeAssistantClient extends HomeAssistantClient {
+  mockServices: Services = {};
+
+  async getServices(): Promise<any> {
+    return this.mockServices;
+  }
+}
+
+// Mock Cache
+class MockCache extends Cache {
+  async getOrFetch<T>(
+    _key: string,
+    fetchFn: () => Promise<T>,
+    _ttl?: number
+  ): Promise<T> {
+    return fetchFn();
+  }
+}
+
+describe('SignatureHelpProvider', () => {
+  let signatureHelpProvider: SignatureHelpProvider;
+  let mockClient: MockHomeAssistantClient;
+  let mockCache: MockCache;
+
+  beforeEach(() => {
+    mockClient = new MockHomeAssistantClient();
+    mockCache = new MockCache();
+    signatureHelpProvider = new SignatureHelpProvider(mockClient, mockCache);
+
+    mockClient.mockServices = {
+      light: {
+        turn_on: {
+          domain: 'light',
+          service: 'turn_on',
+          description: 'Turns on one or more lights.',
+          fields: {
+            brightness: {
+              description: 'Brightness of the light.',
+              selector: { number: { min: 0, max: 255 } },
+            },
+            rgb_color: { selector: { color_rgb: {} } },
+            advanced_fields: {
+              collapsed: true,
+              fields: {
+                flash: { required: true, selector: { select: { options: ['short', 'long'] } } },
+              },
+            },
+          },
+        },
+      },
+    } as any;
+  });
+
+  afterEach(() => {
+    mockCache.destroy();
+  });
+
+  // "‸" marks the cursor
+  const signatureHelp = (lines: string[]) => {
+    const line = lines.findIndex((text) => text.includes('‸'));
+    const character = lines[line].indexOf('‸');
+    const text = lines.map((text) => text.replace('‸', '')).join('\n');
+    const document = TextDocument.create('file:///config/automations.yaml', 'yaml', 1, text);
+    return signatureHelpProvider.provideSignatureHelp(document, {
+      textDocument: { uri: document.uri },
+      position: { line, character },
+    });
+  };
+
+  const activeLabel = (help: any) => {
+    const signature = help.signatures[help.activeSignature];
+    const [start, end] = signature.parameters[help.activeParameter].label;
+    return signature.label.substring(start, end);
+  };
+
+  test('should list service fields and highlight the field under the cursor', async () => {
+    const help = await signatureHelp([
+      '- action: light.turn_on',
+      '  data:',
+      '    brightness: 1‸',
+    ]);
+
+    expect(help!.signatures[0].label).toBe('light.turn_on(brightness?, rgb_color?, flash)');
+    expect(help!.signatures[0].documentation).toEqual({
+      kind: 'markdown',
+      value: 'Turns on one or more lights.',
+    });
+    expect(activeLabel(help)).toBe('brightness?');
+    expect((help!.signatures[0].parameters![0].documentation as any).value).toContain(
+      '**Selector:** `number`'
+    );
+  });
+
+  test('should follow nested values and point blank lines at missing fields', async () => {
+    const nested = await signatureHelp([
+      '- action: light.turn_on',
+      '  data:',
+      '    rgb_color:',
+      '      - 255‸',
+    ]);
+    expect(activeLabel(nested)).toBe('rgb_color?');
+
+    const blank = await signatureHelp([
+      '- action: light.turn_on',
+      '  data:',
+      '    brightness: 10',
+      '    ‸',
+    ]);
+    expect(activeLabel(blank)).toBe('rgb_color?');
+
+    expect(
+      await signatureHelp(['- action: light.turn_on', '  target:', '    entity_id: ‸'])
+    ).toBeNull();
+  });
+
+  test('should show template function parameters', async () => {
+    const help = await signatureHelp([
+      "value_template: \"{{ state_attr('sun.sun', '‸') }}\"",
+    ]);
+
+    expect(help!.signatures[0].label).toBe('state_attr(entity_id, attribute) → any');
+    expect(activeLabel(help)).toBe('attribute');
+  });
+
+  test('should drop the piped value from filter signatures', async () => {
+    const help = await signatureHelp([
+      "value_template: \"{{ 'sensor.outdoor_temp' | states(‸) }}\"",
+    ]);
+
+    expect(help!.signatures[0].label).toBe('value | states(rounded?, with_unit?) → string');
+    expect(activeLabel(help)).toBe('rounded?');
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Status Tracker Tests
+ * Tests the connection status reported to the editor
+ */
+
+import { HomeAssistantClient, ConnectionState } from '../../src/ha-client';
+import { Cache } from '../../src/cache';
+import { StatusTracker, StatusParams } from '../../src/status';
+
+describe('StatusTracker', () => {
+  let client: HomeAssistantClient;
+  let cache: Cache;
+  let tracker: StatusTracker;
+  let statuses: StatusParams[];
+
+  beforeEach(() => {
+    client = new HomeAssistantClient();
+    cache = new Cache();
+    tracker = new StatusTracker('prod', client, cache);
+    statuses = [];
+    tracker.on('status', (status: StatusParams) => statuses.push(status));
+    tracker.start();
+  });
+
+  afterEach(() => {
+    tracker.stop();
+    cache.destroy();
+  });
+
+  test('should report connection state changes once', () => {
+    client.emit('state', ConnectionState.CONNECTING);
+    client.emit('state', ConnectionState.AUTHENTICATING);
+    client.emit('state', ConnectionState.CONNECTED);
+
+    expect(statuses.map((s) => s.state)).toEqual(['connecting', 'connected']);
+    expect(statuses[1].message).toBe('Home Assistant (prod): connected');
+  });
+
+  test('should report when the next reconnect attempt happens', () => {
+    client.emit('state', ConnectionState.DISCONNECTED);
+    client.emit('reconnecting', 3, 4000);
+
+    expect(tracker.getStatus()).toEqual({
+      instance: 'prod',
+      state: 'reconnecting',
+      message: 'Home Assistant (prod): reconnecting in 4s',
+      retryIn: 4000,
+    });
+  });
+
+  test('should keep reporting a rejected token until connected', () => {
+    client.emit('reconnecting', 1, 1000);
+    client.emit('auth_failed', 'Invalid access token');
+    client.emit('state', ConnectionState.DISCONNECTED);
+
+    expect(tracker.getStatus()).toEqual({
+      instance: 'prod',
+      state: 'authFailed',
+      message: 'Home Assistant (prod): authentication failed, waiting for a new token',
+    });
+
+    client.emit('state', ConnectionState.CONNECTED);
+    expect(tracker.getStatus().state).toBe('connected');
+  });
+
+  test('should mention the offline snapshot in use', () => {
+    const snapshotTime = new Date('2026-01-01T12:00:00Z');
+    jest.spyOn(cache, 'getSnapshotTime').mockReturnValue(snapshotTime);
+
+    cache.emit('cache:snapshot', 'ha:entities');
+
+    expect(tracker.getStatus().snapshotTime).toBe(snapshotTime.toISOString());
+    expect(tracker.getStatus().message).toContain('offline snapshot from');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Symbols Provider Tests
+ * Tests the outline of automations, scripts, templates, packages and dashboards
+ */
+
+import { DocumentSymbol, SymbolKind } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { SymbolsProvider } from '../../src/providers/symbols';
+
+describe('SymbolsProvider', () => {
+  const symbolsProvider = new SymbolsProvider();
+
+  const outline = (lines: string[], uri = 'file:///config/configuration.yaml') =>
+    symbolsProvider.provideDocumentSymbols(TextDocument.create(uri, 'yaml', 1, lines.join('\n')));
+
+  const names = (symbols: DocumentSymbol[] | undefined) => (symbols || []).map((s) => s.name);
+
+  test('should outline automations with triggers, conditions and actions', () => {
+    const symbols = outline([
+      '- id: "1700000000"',
+      '  alias: Porch light at sunset',
+      '  triggers:',
+      '    - trigger: sun',
+      '      event: sunset',
+      '    - trigger: state',
+      '      entity_id: binary_sensor.door',
+      '  conditions:',
+      '    - condition: state',
+      '      entity_id: input_boolean.guest',
+      '      state: "off"',
+      '  actions:',
+      '    - action: light.turn_on',
+      '      target:',
+      '        entity_id: light.porch',
+      '    - delay: "00:05:00"',
+      '',
+      '- id: "1700000001"',
+      '  trigger:',
+      '    - platform: time',
+      '      at: "07:00"',
+      '  action:',
+      '    - service: script.wake_up',
+    ], 'file:///config/automations.yaml');
+
+    expect(names(symbols)).toEqual(['Porch light at sunset', '1700000001']);
+
+    const [porch, wakeUp] = symbols;
+    expect(porch.kind).toBe(SymbolKind.Event);
+    expect(porch.detail).toBe('id: 1700000000');
+    expect(porch.range.start.line).toBe(0);
+    expect(porch.range.end.line).toBe(15);
+    expect(names(porch.children)).toEqual(['triggers', 'conditions', 'actions']);
+    expect(names(porch.children![0].children)).toEqual(['sun', 'state: binary_sensor.door']);
+    expect(names(porch.children![1].children)).toEqual(['state']);
+    expect(names(porch.children![2].children)).toEqual(['light.turn_on', 'delay']);
+
+    expect(names(wakeUp.children)).toEqual(['trigger', 'action']);
+    expect(names(wakeUp.children![0].children)).toEqual(['time']);
+    expect(names(wakeUp.children![1].children)).toEqual(['script.wake_up']);
+  });
+
+  test('should outline scripts by key', () => {
+    const symbols = outline([
+      'wake_up:',
+      '  alias: Wake up',
+      '  sequence:',
+      '    - action: light.turn_on',
+      '      target:',
+      '        area_id: bedroom',
+      'goodnight:',
+      '  sequence:',
+      '    - action: scene.turn_on',
+    ], 'file:///config/scripts.yaml');
+
+    expect(names(symbols)).toEqual(['wake_up', 'goodnight']);
+    expect(symbols[0].kind).toBe(SymbolKind.Function);
+    expect(symbols[0].detail).toBe('Wake up');
+    expect(symbols[0].range.end.line).toBe(5);
+    expect(names(symbols[0].children![0].children)).toEqual(['light.turn_on']);
+  });
+
+  test('should outline configuration sections, templates and packages', () => {
+    const symbols = outline([
+      'homeassistant:',
+      '  packages:',
+      '    climate: !include packages/climate.yaml',
+      '    garden:',
+      '      script:',
+      '        water_plants:',
+      '          sequence:',
+      '            - action: switch.turn_on',
+      'automation: !include automations.yaml',
+      'template:',
+      '  - sensor:',
+      '      - name: Average temperature',
+      '        state: "{{ 21 }}"',
+      '      - unique_id: outside_dew_point',
+      '        state: "{{ 12 }}"',
+      '  - trigger:',
+      '      - trigger: time_pattern',
+      '        hours: "/1"',
+      '    binary_sensor:',
+      '      name: Hourly tick',
+      '      state: "on"',
+    ]);
+
+    expect(names(symbols)).toEqual(['homeassistant', 'automation', 'template']);
+    expect(symbols[1].detail).toBe('!include automations.yaml');
+
+    const packages = symbols[0].children![0];
+    expect(packages.name).toBe('packages');
+    expect(names(packages.children)).toEqual(['climate', 'garden']);
+    expect(packages.children![0].kind).toBe(SymbolKind.Package);
+    expect(names(packages.children![1].children)).toEqual(['script']);
+    expect(names(packages.children![1].children![0].children)).toEqual(['water_plants']);
+
+    const templates = symbols[2].children!;
+    expect(names(templates)).toEqual(['Average temperature', 'outside_dew_point', 'Hourly tick']);
+    expect(templates.map((t) => t.detail)).toEqual([
+      'template sensor',
+      'template sensor',
+      'template binary_sensor',
+    ]);
+  });
+
+  test('should outline dashboard views and cards', () => {
+    const symbols = outline([
+      'title: Home',
+      'views:',
+      '  - title: Living room',
+      '    cards:',
+      '      - type: entities',
+      '        title: Lights',
+      '        entities:',
+      '          - light.living_room',
+      '      - type: vertical-stack',
+      '        cards:',
+      '          - type: weather-forecast',
+      '      - type: conditional',
+      '        card:',
+      '          type: markdown',
+      '  - path: energy',
+      '    sections:',
+      '      - title: Solar',
+      '        cards:',
+      '          - type: tile',
+    ], 'file:///config/ui-lovelace.yaml');
+
+    expect(names(symbols)).toEqual(['title', 'views']);
+
+    const [living, energy] = symbols[1].children!;
+    expect(living.name).toBe('Living room');
+    expect(names(living.children)).toEqual(['Lights', 'vertical-stack', 'conditional']);
+    expect(living.children![0].detail).toBe('entities');
+    expect(names(living.children![1].children)).toEqual(['weather-forecast']);
+    expect(names(living.children![2].children)).toEqual(['markdown']);
+
+    expect(energy.name).toBe('energy');
+    expect(names(energy.children)).toEqual(['Solar']);
+    expect(names(energy.children![0].children)).toEqual(['tile']);
+  });
+
+  test('should ignore non-YAML documents', () => {
+    const document = TextDocument.create('file:///config/notes.txt', 'plaintext', 1, 'a: b');
+    expect(symbolsProvider.provideDocumentSymbols(document)).toEqual([]);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Workspace Symbols Provider Tests
+ * Tests searching automations, scripts, scenes and live entities
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SymbolKind } from 'vscode-languageserver';
+import { WorkspaceSymbolsProvider } from '../../src/providers/workspace-symbols';
+import { WorkspaceIndex } from '../../src/workspace-index';
+import { Entity, EntityRegistryEntry } from '../../src/types/homeassistant';
+import { pathToUri } from '../../src/utils/uri';
+
+describe('WorkspaceSymbolsProvider', () => {
+  let workspace: string;
+  let index: WorkspaceIndex;
+  let workspaceSymbolsProvider: WorkspaceSymbolsProvider;
+
+  const fileUri = (name: string) => pathToUri(path.join(workspace, name));
+
+  const entity = (entityId: string, friendlyName: string): Entity => ({
+    entity_id: entityId,
+    state: 'on',
+    attributes: { friendly_name: friendlyName },
+    last_changed: '',
+    last_updated: '',
+    context: { id: '', parent_id: null, user_id: null },
+  });
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'ha-lsp-workspace-symbols-'));
+    fs.writeFileSync(
+      path.join(workspace, 'automations.yaml'),
+      [
+        '- id: "1700000000"',
+        '  alias: Porch lights at sunset',
+        '  triggers:',
+        '    - trigger: sun',
+        '      event: sunset',
+        '  actions:',
+        '    - action: light.turn_on',
+        '      target:',
+        '        entity_id: light.porch',
+        '- id: "1700000001"',
+        '  alias: Kitchen motion',
+        '  triggers:',
+        '    - trigger: state',
+        '      entity_id: binary_sensor.kitchen_motion',
+        '',
+      ].join('\n')
+    );
+    fs.writeFileSync(
+      path.join(workspace, 'scripts.yaml'),
+      'porch_off:\n  alias: Porch off\n  sequence:\n    - action: light.turn_off\n'
+    );
+    fs.writeFileSync(
+      path.join(workspace, 'configuration.yaml'),
+      [
+        'homeassistant:',
+        '  packages:',
+        '    evening:',
+        '      scene:',
+        '        - id: "1700000002"',
+        '          name: Porch evening',
+        '          entities:',
+        '            light.porch: "on"',
+        '',
+      ].join('\n')
+    );
+
+    index = new WorkspaceIndex(() => [workspace], () => []);
+    workspaceSymbolsProvider = new WorkspaceSymbolsProvider(index);
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  test('should find automations, scripts, scenes and live entities', () => {
+    const symbols = workspaceSymbolsProvider.provideWorkspaceSymbols(
+      'porch',
+      [entity('light.porch', 'Porch light'), entity('light.kitchen', 'Kitchen light')],
+      []
+    );
+
+    expect(symbols.map((s) => s.name)).toEqual([
+      'automation.porch_lights_at_sunset',
+      'scene.porch_evening',
+      'script.porch_off',
+      'light.porch',
+    ]);
+
+    const [automation, scene, script, light] = symbols;
+    expect(automation.kind).toBe(SymbolKind.Event);
+    expect(automation.containerName).toBe('Porch lights at sunset');
+    expect(automation.location).toEqual({
+      uri: fileUri('automations.yaml'),
+      range: { start: { line: 0, character: 2 }, end: { line: 0, character: 18 } },
+    });
+    expect(scene.location.uri).toBe(fileUri('configuration.yaml'));
+    expect(script.kind).toBe(SymbolKind.Function);
+    expect(script.location.range.start.line).toBe(0);
+
+    // Live entities point at their first use in the workspace
+    expect(light.kind).toBe(SymbolKind.Variable);
+    expect(light.location.uri).toBe(fileUri('automations.yaml'));
+    expect(light.location.range.start).toEqual({ line: 8, character: 19 });
+  });
+
+  test('should link entities without a workspace reference to Home Assistant', () => {
+    const getEntityUri = (entityId: string) =>
+      entityId.startsWith('light.') ? `http://ha.local:8123/history?entity_id=${entityId}` : null;
+
+    const symbols = workspaceSymbolsProvider.provideWorkspaceSymbols(
+      'light',
+      [
+        entity('light.hallway', 'Hallway light'),
+        entity('sensor.light_level', 'Light level'),
+        entity('light.porch', 'Porch light'),
+      ],
+      [],
+      getEntityUri
+    );
+
+    // Entities used in the workspace come first; without a link, unused ones are left out
+    expect(symbols.map((s) => s.name)).toEqual([
+      'automation.porch_lights_at_sunset',
+      'light.porch',
+      'light.hallway',
+    ]);
+    expect(symbols[2].location).toEqual({
+      uri: 'http://ha.local:8123/history?entity_id=light.hallway',
+      range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+    });
+    expect(symbols[2].containerName).toBe('Hallway light');
+  });
+
+  test('should cap the results of an empty query', () => {
+    const entities = Array.from({ length: 500 }, (_, i) =>
+      entity(`sensor.probe_${i}`, `Probe ${i}`)
+    );
+
+    const symbols = workspaceSymbolsProvider.provideWorkspaceSymbols(
+      '',
+      entities,
+      [],
+      (entityId) => `http://ha.local:8123/history?entity_id=${entityId}`
+    );
+
+    expect(symbols).toHaveLength(200);
+    expect(symbols.slice(0, 3).map((s) => s.name)).toEqual([
+      'automation.porch_lights_at_sunset',
+      'automation.kitchen_motion',
+      'scene.porch_evening',
+    ]);
+  });
+
+  test('should prefer entity IDs from the entity registry', () => {
+    const registry = [
+      { entity_id: 'automation.front_door_lights', unique_id: '1700000000', platform: 'automation' },
+    ] as EntityRegistryEntry[];
+
+    const symbols = workspaceSymbolsProvider.provideWorkspaceSymbols('front', [], registry);
+
+    expect(symbols.map((s) => s.name)).toEqual(['automation.front_door_lights']);
+  });
+
+  test('should match friendly names and not repeat defined entities', () => {
+    const symbols = workspaceSymbolsProvider.provideWorkspaceSymbols(
+      'motion',
+      [entity('automation.kitchen_motion', 'Kitchen motion')],
+      []
+    );
+
+    expect(symbols.map((s) => s.name)).toEqual(['automation.kitchen_motion']);
+    expect(symbols[0].kind).toBe(SymbolKind.Event);
+  });
+
+  test('should pick up changed files after a file-watch notification', () => {
+    index.setWatched(true);
+    expect(workspaceSymbolsProvider.provideWorkspaceSymbols('bedtime', [], [])).toEqual([]);
+
+    fs.writeFileSync(
+      path.join(workspace, 'scripts.yaml'),
+      'bedtime:\n  sequence:\n    - action: light.turn_off\n'
+    );
+    // Without a notification the watched index keeps the previous contents
+    expect(workspaceSymbolsProvider.provideWorkspaceSymbols('bedtime', [], [])).toEqual([]);
+
+    index.invalidateFile(path.join(workspace, 'scripts.yaml'));
+    expect(
+      workspaceSymbolsProvider.provideWorkspaceSymbols('bedtime', [], []).map((s) => s.name)
+    ).toEqual(['script.bedtime']);
+  });
+});